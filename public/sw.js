@@ -1,33 +1,73 @@
 /* Minimal, dependency-free service worker for basic offline support.
    (Vite PWA plugins can replace this later if you want more robust caching.) */
 
-const CACHE_NAME = 'creatine-tracker-static-v1'
-const PRECACHE_URLS = ['/', '/index.html', '/manifest.webmanifest', '/creatine.svg']
+// The build fills in the manifest placeholder below (see precacheManifest() in vite.config.ts)
+// with the built files under the app's base path and a version hashed from their contents. The
+// dev server serves this file as is, so nothing is precached there.
+const PRECACHE = self.__PRECACHE_MANIFEST__ || {
+  version: 'dev',
+  base: new URL(self.registration.scope).pathname,
+  urls: [],
+}
+const CACHE_NAME = `creatine-tracker-static-${PRECACHE.version}`
+// Served for navigations while offline.
+const APP_SHELL_URL = `${PRECACHE.base}index.html`
+// Posted by the page once the user accepts the "New version" prompt.
+const SKIP_WAITING_MESSAGE = 'skip-waiting'
+// Web Share Target (see manifest.webmanifest): a shared backup is parked in SHARED_FILE_CACHE and
+// the app is opened to import it (see src/lib/urlActions.ts; keep the names in sync).
+const SHARE_TARGET_URL = `${PRECACHE.base}share-target`
+const SHARED_FILE_CACHE = 'creatine-tracker-shared'
+const SHARED_FILE_URL = `${PRECACHE.base}shared-file`
 
+// A new version waits until the page asks it to take over, so an open tab is never switched to
+// bundles it didn't load with.
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches
-      .open(CACHE_NAME)
-      .then((cache) => cache.addAll(PRECACHE_URLS))
-      .then(() => self.skipWaiting()),
-  )
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE.urls)))
 })
 
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     (async () => {
       const keys = await caches.keys()
-      await Promise.all(keys.filter((k) => k !== CACHE_NAME).map((k) => caches.delete(k)))
+      await Promise.all(
+        keys
+          .filter((k) => k !== CACHE_NAME && k !== SHARED_FILE_CACHE)
+          .map((k) => caches.delete(k)),
+      )
+      // Reminder state used to live in its own database; the save is now shared directly.
+      indexedDB.deleteDatabase('creatine-tracker-sw')
       await self.clients.claim()
     })(),
   )
 })
 
+async function receiveSharedFile(req) {
+  const form = await req.formData()
+  const file = form.get('backup')
+  if (file && typeof file !== 'string') {
+    const cache = await caches.open(SHARED_FILE_CACHE)
+    await cache.put(
+      SHARED_FILE_URL,
+      new Response(file, {
+        headers: {
+          'Content-Type': file.type || 'application/json',
+          'X-File-Name': encodeURIComponent(file.name),
+        },
+      }),
+    )
+  }
+  return Response.redirect(`${PRECACHE.base}?action=import-shared`, 303)
+}
+
 self.addEventListener('fetch', (event) => {
   const req = event.request
-  if (req.method !== 'GET') return
-
   const url = new URL(req.url)
+  if (req.method === 'POST' && url.pathname === SHARE_TARGET_URL) {
+    event.respondWith(receiveSharedFile(req))
+    return
+  }
+  if (req.method !== 'GET') return
   if (url.origin !== self.location.origin) return
 
   event.respondWith(
@@ -53,7 +93,7 @@ self.addEventListener('fetch', (event) => {
       } catch {
         // If navigation, try to serve the app shell.
         if (req.mode === 'navigate') {
-          const shell = await cache.match('/index.html')
+          const shell = await cache.match(APP_SHELL_URL)
           if (shell) return shell
         }
         throw new Error('Network error and no cache hit')
@@ -63,3 +103,380 @@ self.addEventListener('fetch', (event) => {
 })
 
 
+/* --- Reminders ---------------------------------------------------------------------------
+   The save lives in IndexedDB (see src/lib/storage.ts), so the worker reads it directly to decide
+   whether to remind and writes to it when "Mark as taken" is pressed. The page also posts its
+   reminder state after each change so trigger-based notifications can be rescheduled.
+   Notifications are shown by trigger (where supported), on periodic background sync, or when the
+   app is reopened. */
+
+const DB_NAME = 'creatine-tracker'
+const DB_VERSION = 1
+const SAVE_STORE = 'saves'
+const META_STORE = 'meta'
+const SAVE_RECORD_KEY = 'current'
+const LAST_REMINDED_KEY = 'lastRemindedDate'
+// Last notification text sent by the page, in the user's language.
+const REMINDER_TEXT_KEY = 'reminderText'
+const REMINDER_SYNC_TAG = 'creatine-reminder'
+const REMINDER_TAG_PREFIX = 'creatine-reminder:'
+const SAVE_CHANGED_MESSAGE = 'save-changed'
+// Web Lock held around every read-modify-write of the save (see writeSave() in
+// src/lib/storage.ts; keep the name in sync).
+const SAVE_LOCK = 'creatine-tracker:save'
+const TAKE_ACTION = 'take'
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(SAVE_STORE)) db.createObjectStore(SAVE_STORE)
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function dbGet(storeName, key) {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(storeName).objectStore(storeName).get(key)
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function dbPut(storeName, key, value) {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite')
+    tx.objectStore(storeName).put(value, key)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+function pad2(n) {
+  return String(n).padStart(2, '0')
+}
+
+function toDateKey(d) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`
+}
+
+function addDays(dateKey, delta) {
+  const [y, m, d] = dateKey.split('-').map(Number)
+  return toDateKey(new Date(y, m - 1, d + delta, 12))
+}
+
+// The functions marked "Mirrors" below are copies of the app's; src/lib/serviceWorker.test.ts
+// runs both on the same inputs.
+
+// Mirrors getWallClock() in src/lib/creatine.ts: date and time of `ms` in `timeZone` (null: the
+// device's zone).
+function wallClock(ms, timeZone) {
+  if (!timeZone) {
+    const d = new Date(ms)
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: d.getHours(),
+      minute: d.getMinutes(),
+    }
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(ms)
+  const get = (type) => Number(parts.find((p) => p.type === type).value)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  }
+}
+
+// Mirrors getDayKeyAt() in src/lib/creatine.ts: the day `ms` falls on in the boundary's zone,
+// counting hours before the rollover hour as the previous day.
+function dayKeyAt(ms, boundary) {
+  const rolloverHour = (boundary && boundary.rolloverHour) || 0
+  const c = wallClock(ms, (boundary && boundary.timeZone) || null)
+  const key = `${c.year}-${pad2(c.month)}-${pad2(c.day)}`
+  return c.hour < rolloverHour ? addDays(key, -1) : key
+}
+
+// Mirrors wallClockToTimestamp() in src/lib/creatine.ts.
+function wallClockToTimestamp(c, timeZone) {
+  if (!timeZone) return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, 0, 0).getTime()
+  const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute)
+  const offsetAt = (t) => {
+    const w = wallClock(t, timeZone)
+    return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute) - Math.floor(t / 60000) * 60000
+  }
+  const halfDay = 12 * 60 * 60 * 1000
+  const candidates = [asUtc - offsetAt(asUtc - halfDay), asUtc - offsetAt(asUtc + halfDay)]
+  const matches = candidates.filter((t) => {
+    const w = wallClock(t, timeZone)
+    return w.day === c.day && w.hour === c.hour && w.minute === c.minute
+  })
+  return matches.length > 0 ? Math.min(...matches) : Math.max(...candidates)
+}
+
+// Mirrors makeLocalTimestamp() in src/lib/creatine.ts: when reminder `time` (`HH:MM`) comes round
+// on day `dateKey`, in the boundary's zone and after its rollover hour.
+function reminderTimestamp(dateKey, time, boundary) {
+  const rolloverHour = (boundary && boundary.rolloverHour) || 0
+  const [h, min] = time.split(':').map(Number)
+  const calendarKey = h < rolloverHour ? addDays(dateKey, 1) : dateKey
+  const [year, month, day] = calendarKey.split('-').map(Number)
+  const at = wallClockToTimestamp(
+    { year, month, day, hour: h, minute: min },
+    (boundary && boundary.timeZone) || null,
+  )
+  if (dayKeyAt(at, boundary) !== dateKey) return at - 60 * 60 * 1000
+  return at
+}
+
+function getActiveTracker(save) {
+  return save.trackers.find((t) => t.id === save.activeTrackerId) || save.trackers[0]
+}
+
+// Mirrors buildReminderState() in src/lib/reminders.ts for a stored (v4) save.
+// `text` is the stored notification text (or null to fall back to English).
+function reminderStateFromSave(save, now, text) {
+  if (!save || save.version !== 4 || !save.trackers || !save.trackers.length) return null
+  const tracker = getActiveTracker(save)
+  const today = dayKeyAt(now, save.dayBoundary)
+  const keys = Object.keys(tracker.taken).filter((k) => k <= today).sort()
+  // Saves written before settings existed keep reminders at the top level.
+  const reminders = (save.settings && save.settings.reminders) || save.reminders
+  return {
+    enabled: reminders.enabled,
+    times: reminders.times,
+    trackerId: tracker.id,
+    trackerName: tracker.name,
+    lastTakenDate: keys.length ? keys[keys.length - 1] : null,
+    dayBoundary: save.dayBoundary || null,
+    text: text || null,
+  }
+}
+
+// Mirrors daysBetween() in src/lib/creatine.ts.
+function daysBetween(from, to) {
+  const utc = (k) =>
+    Date.UTC(Number(k.slice(0, 4)), Number(k.slice(5, 7)) - 1, Number(k.slice(8, 10)))
+  return Math.round((utc(to) - utc(from)) / (24 * 60 * 60 * 1000))
+}
+
+// Mirrors getPlannedDay() in src/lib/creatine.ts: the protocol phase planned for `dateKey`, or
+// null outside the protocol.
+function getPlannedPhase(tracker, dateKey) {
+  const protocol = tracker.protocol
+  if (!protocol) return null
+  let offset = daysBetween(protocol.startDate, dateKey)
+  if (offset < 0) return null
+  const { phases, repeatFrom } = protocol
+
+  const find = (first) => {
+    for (let index = first; index < phases.length; index++) {
+      const phase = phases[index]
+      if (phase.days === null || offset < phase.days) return phase
+      offset -= phase.days
+    }
+    return null
+  }
+
+  const planned = find(0)
+  if (planned || repeatFrom === null) return planned
+  const cycleDays = phases.slice(repeatFrom).reduce((n, p) => n + (p.days || 0), 0)
+  if (cycleDays === 0) return null
+  offset %= cycleDays
+  return find(repeatFrom)
+}
+
+// Mirrors getPlannedGrams() in src/lib/creatine.ts.
+function getPlannedGrams(phase) {
+  if (phase.kind === 'off' || phase.gramsPerDose === null) return null
+  return phase.dosesPerDay * phase.gramsPerDose
+}
+
+// Mirrors getTargetGrams() in src/lib/creatine.ts: the protocol's planned amount if it sets one,
+// else the target in effect.
+function getTargetGrams(tracker, dateKey) {
+  const phase = getPlannedPhase(tracker, dateKey)
+  const plannedGrams = phase ? getPlannedGrams(phase) : null
+  if (plannedGrams !== null) return plannedGrams
+  let grams = null
+  for (const t of tracker.targets || []) {
+    if (t.from > dateKey) break
+    grams = t.grams
+  }
+  return grams
+}
+
+function reminderText(state) {
+  return (
+    state.text || {
+      title: 'Did you take your creatine today?',
+      body: `You haven't marked ${state.trackerName} for today yet.`,
+      action: 'Mark as taken',
+    }
+  )
+}
+
+function reminderOptions(state, dateKey) {
+  return {
+    body: reminderText(state).body,
+    tag: `${REMINDER_TAG_PREFIX}${dateKey}`,
+    icon: 'icon-192.png',
+    badge: 'icon-192.png',
+    data: { date: dateKey, trackerId: state.trackerId },
+    actions: [{ action: TAKE_ACTION, title: reminderText(state).action }],
+  }
+}
+
+async function clearReminders(includeTriggered) {
+  const shown = await self.registration.getNotifications(
+    includeTriggered ? { includeTriggered: true } : undefined,
+  )
+  for (const n of shown) if (n.tag && n.tag.startsWith(REMINDER_TAG_PREFIX)) n.close()
+}
+
+// Notification Triggers: schedule the remaining times today and tomorrow's in advance.
+async function scheduleTriggeredReminders(state) {
+  if (typeof TimestampTrigger === 'undefined') return
+  await clearReminders(true)
+  if (!state.enabled) return
+
+  const now = new Date()
+  const today = dayKeyAt(now.getTime(), state.dayBoundary)
+  const tomorrow = addDays(today, 1)
+
+  for (const dateKey of [today, tomorrow]) {
+    if (state.lastTakenDate === dateKey) continue
+    for (const time of state.times) {
+      const at = reminderTimestamp(dateKey, time, state.dayBoundary)
+      if (at <= now.getTime()) continue
+      await self.registration.showNotification(reminderText(state).title, {
+        ...reminderOptions(state, dateKey),
+        tag: `${REMINDER_TAG_PREFIX}${dateKey}:${time}`,
+        showTrigger: new TimestampTrigger(at),
+      })
+    }
+  }
+}
+
+// Shows today's reminder once if a reminder time has passed and today isn't marked yet.
+// `state` comes from the page when it's open; otherwise it's derived from the stored save.
+async function maybeShowReminder(state) {
+  const now = new Date()
+  if (!state) {
+    state = reminderStateFromSave(
+      await dbGet(SAVE_STORE, SAVE_RECORD_KEY),
+      now.getTime(),
+      await dbGet(META_STORE, REMINDER_TEXT_KEY),
+    )
+  }
+  if (!state || !state.enabled || state.times.length === 0) return
+  const today = dayKeyAt(now.getTime(), state.dayBoundary)
+
+  if (state.lastTakenDate === today) {
+    await clearReminders(false)
+    return
+  }
+  if ((await dbGet(META_STORE, LAST_REMINDED_KEY)) === today) return
+  const due = state.times.some(
+    (t) => reminderTimestamp(today, t, state.dayBoundary) <= now.getTime(),
+  )
+  if (!due) return
+
+  await dbPut(META_STORE, LAST_REMINDED_KEY, today)
+  await self.registration.showNotification(reminderText(state).title, reminderOptions(state, today))
+}
+
+self.addEventListener('message', (event) => {
+  const msg = event.data
+  if (msg && msg.type === SKIP_WAITING_MESSAGE) {
+    self.skipWaiting()
+    return
+  }
+  if (!msg || msg.type !== 'reminder-state') return
+  event.waitUntil(
+    (async () => {
+      if (msg.state.text) await dbPut(META_STORE, REMINDER_TEXT_KEY, msg.state.text)
+      await scheduleTriggeredReminders(msg.state)
+      await maybeShowReminder(msg.state)
+    })(),
+  )
+})
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(maybeShowReminder(null))
+})
+
+function withSaveLock(run) {
+  const locks = self.navigator && self.navigator.locks
+  return locks ? locks.request(SAVE_LOCK, run) : run()
+}
+
+// Marks the day in the stored save (a no-op if it's already taken), like markTaken() in the app.
+// Done under the save lock, so an open tab's write can't land between this read and write and
+// overwrite the check-in; the tab sees the newer `updatedAt` and merges instead.
+async function markTakenInSave(data) {
+  const changed = await withSaveLock(async () => {
+    const save = await dbGet(SAVE_STORE, SAVE_RECORD_KEY)
+    if (!save || save.version !== 4) return false
+    const tracker = save.trackers.find((t) => t.id === data.trackerId)
+    if (!tracker || tracker.taken[data.date]) return false
+
+    const now = Date.now()
+    tracker.taken[data.date] = [
+      {
+        grams: getTargetGrams(tracker, data.date),
+        at: now,
+        tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
+    ]
+    if (tracker.restDays) delete tracker.restDays[data.date]
+    tracker.dayEditedAt = { ...tracker.dayEditedAt, [data.date]: now }
+    if (data.date < tracker.startDate) tracker.startDate = data.date
+    save.updatedAt = now
+    await dbPut(SAVE_STORE, SAVE_RECORD_KEY, save)
+    return true
+  })
+  await clearReminders(true)
+  if (!changed) return
+
+  // Open windows reload the save right away; others pick it up when they're next shown.
+  const windows = await self.clients.matchAll({ type: 'window' })
+  for (const client of windows) client.postMessage({ type: SAVE_CHANGED_MESSAGE })
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification
+  notification.close()
+  if (!notification.tag || !notification.tag.startsWith(REMINDER_TAG_PREFIX)) return
+
+  if (event.action === TAKE_ACTION) {
+    event.waitUntil(markTakenInSave(notification.data))
+    return
+  }
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      if (windows.length > 0) return windows[0].focus()
+      return self.clients.openWindow(self.registration.scope)
+    })(),
+  )
+})
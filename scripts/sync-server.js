@@ -0,0 +1,90 @@
+// Minimal self-hostable sync endpoint for the app's HTTP sync transport (src/lib/sync.ts).
+//
+//   SYNC_TOKEN=secret PORT=8787 node scripts/sync-server.js
+//
+// GET  /save  -> the stored save (404 if none yet), with an ETag
+// PUT  /save  -> replace it; honors If-Match / If-None-Match: * (412 on mismatch)
+// Data is kept in a single JSON file (SYNC_FILE, default ./sync-data.json).
+import http from 'http';
+import fs from 'fs';
+import crypto from 'crypto';
+
+const port = Number(process.env.PORT || 8787);
+const dataFile = process.env.SYNC_FILE || 'sync-data.json';
+const token = process.env.SYNC_TOKEN || '';
+const maxBodyBytes = 5 * 1024 * 1024;
+
+function etagFor(body) {
+  return `"${crypto.createHash('sha1').update(body).digest('hex')}"`;
+}
+
+function readStored() {
+  try {
+    return fs.readFileSync(dataFile, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function send(res, status, body = '', headers = {}) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+    'Access-Control-Expose-Headers': 'ETag',
+    ...headers,
+  });
+  res.end(body);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (new URL(req.url, 'http://localhost').pathname !== '/save') return send(res, 404);
+  if (token && req.headers.authorization !== `Bearer ${token}`) return send(res, 401);
+
+  if (req.method === 'GET') {
+    const stored = readStored();
+    if (stored === null) return send(res, 404);
+    return send(res, 200, stored, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ETag: etagFor(stored),
+    });
+  }
+
+  if (req.method !== 'PUT') return send(res, 405);
+
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > maxBodyBytes) {
+      send(res, 413);
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (res.writableEnded) return;
+    const body = Buffer.concat(chunks).toString('utf8');
+    try {
+      JSON.parse(body);
+    } catch {
+      return send(res, 400);
+    }
+    // Checked against the file as it is now, right before writing (both synchronous, so no other
+    // request runs in between): two PUTs made from the same ETag can't both succeed.
+    const stored = readStored();
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifMatch && (stored === null || ifMatch !== etagFor(stored))) return send(res, 412);
+    if (ifNoneMatch === '*' && stored !== null) return send(res, 412);
+    fs.writeFileSync(dataFile, body);
+    send(res, 204, '', { ETag: etagFor(body) });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port}/save`);
+});
@@ -1,66 +1,306 @@
 import "./App.css";
-import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import {
   buildHistoryKeysInclusive,
-  clearStorage,
   coerceSave,
   compareISODate,
   computeBestStreak,
   computeCurrentStreak,
-  ensureStartDate,
+  canSpendFreeze,
+  clearSave,
+  computeFreezeBalance,
+  addSupply,
+  addTracker,
   formatHumanDate,
+  formatGrams,
   formatHumanTime,
+  getDailyTotalGrams,
+  getDayStatus,
+  getDoses,
+  getActiveTracker,
+  getFirstRecordedDay,
+  getFirstTimedDose,
+  getRestDay,
+  getPlannedDay,
+  getTargetGrams,
   getTodayKey,
   isTaken,
-  makeDefaultSave,
   makeLocalNoonDateFromISO,
-  saveToStorage,
+  markTaken,
+  removeSupply,
+  removeTargetChange,
+  removeTracker,
+  renameTracker,
+  setActiveTracker,
+  setBodyweight,
+  setDoses,
+  setRestDay,
+  setStartDate,
+  setTargetFrom,
+  updateTracker,
+  type DayStatus,
+  type HistoryView,
+  type DoseEntry,
   type ISODate,
+  HISTORY_VIEWS,
+  type RestDayKind,
+  type Settings,
   type SaveData,
+  type Tracker,
 } from "./lib/creatine";
+import {
+  buildReminderState,
+  SAVE_CHANGED_MESSAGE,
+  syncReminders,
+} from "./lib/reminders";
+import {
+  ACHIEVEMENT_IDS,
+  diffAchievements,
+  syncAchievements,
+} from "./lib/achievements";
+import {
+  exportSaveCsv,
+  importSaveCsv,
+  type CsvColumns,
+  type CsvRowError,
+} from "./lib/csv";
+import {
+  createTranslator,
+  getBrowserLanguages,
+  matchLocale,
+  resolveIntlLocale,
+  type MessageKey,
+} from "./lib/i18n";
+import { exportSaveIcs } from "./lib/ics";
+import { previewImport } from "./lib/importPreview";
+import { describePlannedDay } from "./lib/protocol";
+import {
+  applyUpdate,
+  isUpdateWaiting,
+  subscribeToUpdates,
+} from "./lib/serviceWorker";
+import {
+  consumeUrlAction,
+  onLaunchFile,
+  takeSharedFile,
+  type UrlAction,
+} from "./lib/urlActions";
+import { formatWeight } from "./lib/weight";
+import {
+  CorruptBackupError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+  UnsupportedBackupError,
+  WrongPassphraseError,
+} from "./lib/backup";
+import { computeInventory } from "./lib/inventory";
+import { mergeSaves } from "./lib/merge";
+import {
+  renderShareCardPng,
+  renderShareCardSvg,
+  shareOrDownloadImage,
+} from "./lib/shareCard";
+import { monthFilterToRange } from "./lib/stats";
+import {
+  createSaveChangeNotifier,
+  readStoredSave,
+  writeSave,
+  type StorageAdapter,
+  type StoredVersion,
+} from "./lib/storage";
+import {
+  canRedo,
+  canUndo,
+  commitEdit,
+  createUndoState,
+  peekRedoLabel,
+  peekUndoLabel,
+  rebaseOnto,
+  redo,
+  replacePresent,
+  undo,
+} from "./lib/undo";
+import {
+  createHttpSyncTransport,
+  InvalidRemoteSaveError,
+  loadSyncConfig,
+  saveSyncConfig,
+  SyncConflictError,
+  SyncServerError,
+  syncSave,
+  type HttpSyncConfig,
+} from "./lib/sync";
+import { AchievementsPanel } from "./components/AchievementsPanel";
+import { DayBoundaryPanel } from "./components/DayBoundaryPanel";
+import { DoseEditor } from "./components/DoseEditor";
+import { MonthGrid } from "./components/MonthGrid";
+import { ImportPreviewPanel } from "./components/ImportPreviewPanel";
+import { PassphrasePanel } from "./components/PassphrasePanel";
+import { ProtocolPanel } from "./components/ProtocolPanel";
+import { RemindersPanel } from "./components/RemindersPanel";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { StatsCard } from "./components/StatsCard";
+import { SupplyPanel } from "./components/SupplyPanel";
+import { SyncPanel } from "./components/SyncPanel";
+import { TargetPanel } from "./components/TargetPanel";
+import { WeightCard } from "./components/WeightCard";
+import { TrackerOverview } from "./components/TrackerOverview";
+import { YearHeatmap } from "./components/YearHeatmap";
+import { I18nContext } from "./i18n";
 
-function App() {
-  const [save, setSave] = useState<SaveData>(() => {
-    // Lazily load to avoid blocking initial paint more than needed.
-    return (() => {
-      try {
-        const raw = localStorage.getItem("creatine-tracker:v1");
-        if (!raw) return makeDefaultSave();
-        const parsed: unknown = JSON.parse(raw);
-        return coerceSave(parsed) ?? makeDefaultSave();
-      } catch {
-        return makeDefaultSave();
-      }
-    })();
+type ImportMode = "replace" | "merge";
+
+// Open while asking for a backup passphrase: a new one to encrypt an export, or the one an
+// encrypted file being imported was made with.
+type PassphrasePrompt =
+  { mode: "export" } | { mode: "import"; envelope: unknown; fileName: string };
+
+// A file that has been read but not applied yet; it's previewed until the user picks replace,
+// merge or cancel.
+type PendingImport = {
+  // Null while the chosen CSV columns give no usable rows; the mapping can still be changed.
+  save: SaveData | null;
+  fileName: string;
+  // CSV files keep their text, so the preview can be rebuilt when the user remaps the columns.
+  csv: { text: string; columns: CsvColumns } | null;
+};
+
+type Toast = {
+  message: string;
+  // Whether the toast announces an edit that "Undo" reverts.
+  canUndo: boolean;
+};
+
+const STATUS_PILL_STATE: Record<DayStatus, string> = {
+  met: "yes",
+  partial: "partial",
+  missed: "no",
+};
+
+const STATUS_LABEL: Record<DayStatus, MessageKey> = {
+  met: "status.met",
+  partial: "status.partial",
+  missed: "status.missed",
+};
+
+const HISTORY_VIEW_LABEL: Record<HistoryView, MessageKey> = {
+  list: "history.view.list",
+  month: "history.view.month",
+  year: "history.view.year",
+};
+
+const REST_DAY_LABEL: Record<RestDayKind, MessageKey> = {
+  excused: "restDay.excused",
+  freeze: "restDay.freeze",
+};
+
+const TOGGLE_LABEL: Record<DayStatus, MessageKey> = {
+  met: "toggle.met",
+  partial: "toggle.partial",
+  missed: "toggle.missed",
+};
+
+type Props = {
+  storage: StorageAdapter;
+  // Loaded before the first render (see main.tsx), so the UI never flashes an empty save.
+  initialSave: SaveData;
+};
+
+function App({ storage, initialSave }: Props) {
+  const [undoState, setUndoState] = useState(() =>
+    createUndoState(initialSave)
+  );
+  const save = undoState.present;
+  // What this instance last read from or wrote to storage, and how it hears about writes made by
+  // other tabs and windows.
+  const storedVersionRef = useRef<StoredVersion>({
+    updatedAt: initialSave.updatedAt,
   });
+  const [saveNotifier] = useState(createSaveChangeNotifier);
 
-  const [toast, setToast] = useState<string | null>(null);
+  const [toast, setToast] = useState<Toast | null>(null);
+  const updateWaiting = useSyncExternalStore(
+    subscribeToUpdates,
+    isUpdateWaiting
+  );
   const [importError, setImportError] = useState<string | null>(null);
+  const [importRowErrors, setImportRowErrors] = useState<CsvRowError[]>([]);
   const [showInitialDate, setShowInitialDate] = useState(false);
-  const [startDateDraft, setStartDateDraft] = useState<string>(() => {
-    try {
-      const raw = localStorage.getItem("creatine-tracker:v1");
-      if (!raw) return getTodayKey();
-      const parsed: unknown = JSON.parse(raw);
-      const coerced = coerceSave(parsed);
-      return coerced?.startDate ?? getTodayKey();
-    } catch {
-      return getTodayKey();
-    }
-  });
+  // Null until the start date input is edited; it shows the tracker's start date until then.
+  const [editedStartDate, setEditedStartDate] = useState<string | null>(null);
   const [startDateError, setStartDateError] = useState<string | null>(null);
+  const [editingDosesKey, setEditingDosesKey] = useState<ISODate | null>(null);
+  const [showTarget, setShowTarget] = useState(false);
+  const [showProtocol, setShowProtocol] = useState(false);
+  const [showReminders, setShowReminders] = useState(false);
+  const [showDayBoundary, setShowDayBoundary] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSupply, setShowSupply] = useState(false);
+  const [showAchievements, setShowAchievements] = useState(false);
   const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [passphrasePrompt, setPassphrasePrompt] =
+    useState<PassphrasePrompt | null>(null);
+  const [passphraseBusy, setPassphraseBusy] = useState(false);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [showSync, setShowSync] = useState(false);
+  const [syncConfig, setSyncConfig] = useState<HttpSyncConfig | null>(
+    loadSyncConfig
+  );
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  // Track the clock as state so "today" updates when the app is reopened on a new day. Which day
+  // that is follows the save's day boundary (home time zone and rollover hour).
+  const [now, setNow] = useState(Date.now);
+  const today = useMemo(
+    () => getTodayKey(save.dayBoundary, now),
+    [save.dayBoundary, now]
+  );
 
-  // Track today as state so it updates when the app is reopened on a new day
-  const [today, setToday] = useState(getTodayKey);
+  const { settings } = save;
+
+  // UI language: the one picked in Settings, else the browser's (if we have a catalog for it).
+  const locale = settings.locale ?? matchLocale(getBrowserLanguages());
+  // Dates, times and amounts follow the picked language and formats.
+  const intlLocale = resolveIntlLocale(settings.locale);
+  const i18n = useMemo(
+    () => ({
+      locale,
+      t: createTranslator(locale),
+      display: {
+        locale: intlLocale,
+        timeFormat: settings.timeFormat,
+        dateFormat: settings.dateFormat,
+      },
+    }),
+    [locale, intlLocale, settings.timeFormat, settings.dateFormat]
+  );
+  const { t, display } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = settings.theme;
+  }, [settings.theme]);
 
   // Update "today" when the page becomes visible again (e.g., PWA reopened)
   useEffect(() => {
     function handleVisibilityChange() {
-      if (document.visibilityState === "visible") {
-        const currentToday = getTodayKey();
-        setToday((prev) => (prev !== currentToday ? currentToday : prev));
-      }
+      if (document.visibilityState === "visible") setNow(Date.now());
     }
 
     document.addEventListener("visibilitychange", handleVisibilityChange);
@@ -68,35 +308,172 @@ function App() {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
   }, []);
-  const todayTaken = isTaken(save, today);
-  const todayTakenAt = todayTaken ? save.taken[today] : undefined;
-  const currentMonthKey = `${new Date().getFullYear()}-${String(
-    new Date().getMonth() + 1
-  ).padStart(2, "0")}`;
-  const [monthFilter, setMonthFilter] = useState<string>(currentMonthKey);
+  const tracker = useMemo(() => getActiveTracker(save), [save]);
+  // Recomputed against the current data, so edits made while it's open are accounted for.
+  const importPreview = useMemo(
+    () =>
+      pendingImport?.save ? previewImport(save, pendingImport.save) : null,
+    [save, pendingImport]
+  );
+  const todayTaken = isTaken(tracker, today);
+  const todayFirstDose = getFirstTimedDose(tracker, today);
+  const todayTotal = getDailyTotalGrams(tracker, today);
+  const todayTarget = getTargetGrams(tracker, today);
+  const todayStatus = getDayStatus(tracker, today);
+  const todayPlanned = getPlannedDay(tracker, today);
+  const currentMonthKey = today.slice(0, 7);
+  const [pickedMonth, setMonthFilter] = useState<string>(() =>
+    settings.historyFilter === "all" ? "all" : currentMonthKey
+  );
+
+  function showToast(message: string, canUndo = false) {
+    setToast({ message, canUndo });
+  }
+
+  // Every user edit goes through here: it snapshots the save for undo and announces the edit.
+  function applyEdit(update: (prev: SaveData) => SaveData, label: string) {
+    setUndoState((prev) => commitEdit(prev, update(prev.present), label));
+    showToast(label, true);
+  }
+
+  // Changes that don't get an undo step (view preferences).
+  function setSave(update: (prev: SaveData) => SaveData) {
+    setUndoState((prev) => replacePresent(prev, update(prev.present)));
+  }
+
+  // Saves written by other contexts (tabs, the service worker). Their edits are carried into the
+  // undo history, so undoing a local edit afterwards doesn't take them back out.
+  function pickUpSave(update: (prev: SaveData) => SaveData) {
+    setUndoState((prev) => rebaseOnto(prev, update(prev.present)));
+  }
 
+  function onUndo() {
+    const label = peekUndoLabel(undoState);
+    if (label === null) return;
+    setUndoState(undo);
+    showToast(t("toast.undone", { label }));
+  }
+
+  function onRedo() {
+    const label = peekRedoLabel(undoState);
+    if (label === null) return;
+    setUndoState(redo);
+    showToast(t("toast.redone", { label }));
+  }
+
+  // A write that had to merge in another instance's changes hands the merge back to this one.
+  useEffect(() => {
+    void writeSave(storage, save, storedVersionRef.current).then((written) => {
+      if (!written) return;
+      saveNotifier.notify();
+      if (written !== save) {
+        pickUpSave((prev) => (prev === save ? written : mergeSaves(prev, written)));
+      }
+    });
+  }, [storage, save, saveNotifier]);
+
+  // Only re-sync the service worker when something it cares about changed.
+  const reminderStateJson = JSON.stringify(buildReminderState(save, today, t));
   useEffect(() => {
-    saveToStorage(save);
-  }, [save]);
+    void syncReminders(JSON.parse(reminderStateJson));
+  }, [reminderStateJson]);
+
+  // Pick up writes made elsewhere: other tabs and windows, and the service worker (e.g. "Mark as
+  // taken" on a notification). The stored save replaces this one unless this one has edits of its
+  // own since it last saw storage; then the two are merged per day. Either way the write effect
+  // above records it as seen (only writeSave moves that, under its lock).
+  useEffect(() => {
+    async function pickUpStored() {
+      const stored = await readStoredSave(storage);
+      const seenAt = storedVersionRef.current.updatedAt;
+      if (!stored || stored.updatedAt === seenAt) return;
+      pickUpSave((prev) =>
+        prev.updatedAt > (seenAt ?? 0) ? mergeSaves(prev, stored) : stored
+      );
+    }
+    function handleMessage(e: MessageEvent) {
+      if (e.data?.type === SAVE_CHANGED_MESSAGE) void pickUpStored();
+    }
+    function handleVisibilityChange() {
+      if (document.visibilityState === "visible") void pickUpStored();
+    }
+
+    const unsubscribe = saveNotifier.subscribe(() => void pickUpStored());
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      unsubscribe();
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [storage, saveNotifier]);
 
   useEffect(() => {
     if (!toast) return;
-    const t = window.setTimeout(() => setToast(null), 2400);
-    return () => window.clearTimeout(t);
+    // Leave a bit more time when there's an Undo button to reach for.
+    const timer = window.setTimeout(
+      () => setToast(null),
+      toast.canUndo ? 6000 : 2400
+    );
+    return () => window.clearTimeout(timer);
   }, [toast]);
 
-  const startDate = save.startDate ?? today;
+  // Achievements are derived from the history: keep the stored unlocks current (revoking any
+  // whose days were unchecked) and announce new ones.
+  const refreshAchievements = useEffectEvent(() => {
+    const next = syncAchievements(save, today);
+    if (next === save) return;
+    setSave((prev) => syncAchievements(prev, today));
+    const unlocked = next.trackers.flatMap((tr) => {
+      const before =
+        save.trackers.find((p) => p.id === tr.id)?.achievements ?? {};
+      return diffAchievements(before, tr.achievements).unlocked;
+    });
+    if (unlocked.length === 0) return;
+    // Keep the Undo button of the edit that unlocked it.
+    showToast(
+      unlocked.length === 1
+        ? t("toast.achievementUnlocked", {
+            title: t(`achievement.${unlocked[0]}.title`),
+          })
+        : t("toast.achievementsUnlocked", { count: unlocked.length }),
+      toast?.canUndo ?? false
+    );
+  });
 
   useEffect(() => {
-    setStartDateDraft(save.startDate ?? today);
-  }, [save.startDate, today]);
+    refreshAchievements();
+  }, [save, today]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo. Text fields keep their own undo.
+  const handleUndoShortcut = useEffectEvent((e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest("input, textarea, select, [contenteditable]")) return;
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      onUndo();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      onRedo();
+    }
+  });
+
+  useEffect(() => {
+    window.addEventListener("keydown", handleUndoShortcut);
+    return () => window.removeEventListener("keydown", handleUndoShortcut);
+  }, []);
+
+  const startDate = tracker.startDate ?? today;
+  const startDateDraft = editedStartDate ?? startDate;
 
   const historyKeys = useMemo(() => {
     return buildHistoryKeysInclusive(startDate, today);
   }, [startDate, today]);
 
   const monthOptions = useMemo(() => {
-    const fmt = new Intl.DateTimeFormat(undefined, {
+    const fmt = new Intl.DateTimeFormat(intlLocale, {
       month: "short",
       year: "numeric",
     });
@@ -122,7 +499,7 @@ function App() {
     );
 
     const opts: Array<{ value: string; label: string }> = [
-      { value: "all", label: "All" },
+      { value: "all", label: t("history.filter.all") },
     ];
 
     // Most recent -> least recent
@@ -135,120 +512,426 @@ function App() {
       cursor.setMonth(cursor.getMonth() - 1, 1);
     }
     return opts;
-  }, [startDate, today]);
+  }, [startDate, today, intlLocale, t]);
 
-  useEffect(() => {
-    // Keep default selection as current month when possible.
-    if (monthFilter === "all") return;
-    if (monthOptions.some((o) => o.value === monthFilter)) return;
-    setMonthFilter(currentMonthKey);
-  }, [monthFilter, monthOptions, currentMonthKey]);
+  // A picked month that's no longer listed (e.g. after the start date moved) shows the current one.
+  const monthFilter =
+    pickedMonth === "all" || monthOptions.some((o) => o.value === pickedMonth)
+      ? pickedMonth
+      : currentMonthKey;
 
   const filteredHistoryKeys = useMemo(() => {
     if (monthFilter === "all") return historyKeys;
     return historyKeys.filter((k) => k.slice(0, 7) === monthFilter);
   }, [historyKeys, monthFilter]);
 
+  const statsRange = useMemo(
+    () => monthFilterToRange(monthFilter, startDate, today),
+    [monthFilter, startDate, today]
+  );
+  const statsRangeLabel =
+    monthFilter === "all"
+      ? t("history.filter.allLabel")
+      : (monthOptions.find((o) => o.value === monthFilter)?.label ??
+        monthFilter);
+
   const currentStreak = useMemo(
-    () => computeCurrentStreak(save, today),
-    [save, today]
+    () => computeCurrentStreak(tracker, today),
+    [tracker, today]
   );
   const bestStreak = useMemo(
-    () => computeBestStreak(save, startDate, today),
-    [save, startDate, today]
+    () => computeBestStreak(tracker, startDate, today),
+    [tracker, startDate, today]
   );
 
-  const statusIcon = todayTaken ? (
-    <svg
-      width="26"
-      height="26"
-      viewBox="0 0 24 24"
-      aria-hidden="true"
-      className="statusIcon ok"
-    >
-      <path
-        fill="currentColor"
-        d="M9.0 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4z"
-      />
-    </svg>
-  ) : (
-    <svg
-      width="26"
-      height="26"
-      viewBox="0 0 24 24"
-      aria-hidden="true"
-      className="statusIcon no"
-    >
-      <path
-        fill="currentColor"
-        d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm4.7 13.3-1.4 1.4L12 13.4l-3.3 3.3-1.4-1.4L10.6 12 7.3 8.7l1.4-1.4L12 10.6l3.3-3.3 1.4 1.4L13.4 12l3.3 3.3z"
-      />
-    </svg>
-  );
+  const statusIcon =
+    todayStatus === "met" ? (
+      <svg
+        width="26"
+        height="26"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+        className="statusIcon ok"
+      >
+        <path
+          fill="currentColor"
+          d="M9.0 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4z"
+        />
+      </svg>
+    ) : todayStatus === "partial" ? (
+      <svg
+        width="26"
+        height="26"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+        className="statusIcon partial"
+      >
+        <path
+          fill="currentColor"
+          d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm0 18V4c4.4 0 8 3.6 8 8s-3.6 8-8 8z"
+        />
+      </svg>
+    ) : (
+      <svg
+        width="26"
+        height="26"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+        className="statusIcon no"
+      >
+        <path
+          fill="currentColor"
+          d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10 10-4.5 10-10S17.5 2 12 2zm4.7 13.3-1.4 1.4L12 13.4l-3.3 3.3-1.4-1.4L10.6 12 7.3 8.7l1.4-1.4L12 10.6l3.3-3.3 1.4 1.4L13.4 12l3.3 3.3z"
+        />
+      </svg>
+    );
 
-  function updateDate(key: ISODate, nextTaken: boolean) {
-    setSave((prev) => {
-      const taken = { ...prev.taken };
-      if (nextTaken) {
-        // Only today's check stores a precise time; historical edits keep "no time".
-        taken[key] = key === today ? Date.now() : null;
-      } else {
-        delete taken[key];
-      }
+  // All day/target edits apply to the tracker that is active when the update runs.
+  function updateActiveTracker(
+    update: (tracker: Tracker) => Tracker,
+    label: string
+  ) {
+    applyEdit(
+      (prev) => updateTracker(prev, prev.activeTrackerId, update),
+      label
+    );
+  }
 
-      const next: SaveData = {
+  function updateSettings(patch: Partial<Settings>) {
+    applyEdit(
+      (prev) => ({
         ...prev,
-        taken,
+        settings: { ...prev.settings, ...patch },
         updatedAt: Date.now(),
-      };
-      return nextTaken ? ensureStartDate(next, key) : next;
-    });
+      }),
+      t("edit.settings")
+    );
+  }
+
+  function updateDate(key: ISODate, nextTaken: boolean) {
+    // Only today's check stores a precise time; historical edits keep "no time".
+    // A check records the full target for that day (unknown amount if there's no target).
+    const date = formatHumanDate(makeLocalNoonDateFromISO(key), display);
+    updateActiveTracker(
+      (prev) =>
+        nextTaken
+          ? markTaken(prev, key, key === today ? Date.now() : null)
+          : setDoses(prev, key, []),
+      t(nextTaken ? "edit.markedTaken" : "edit.markedNotTaken", { date })
+    );
+  }
+
+  function updateRestDay(key: ISODate, kind: RestDayKind | null) {
+    const date = formatHumanDate(makeLocalNoonDateFromISO(key), display);
+    updateActiveTracker(
+      (prev) => setRestDay(prev, key, kind),
+      t(
+        kind === "excused"
+          ? "edit.excused"
+          : kind === "freeze"
+            ? "edit.usedFreeze"
+            : "edit.clearedRest",
+        { date }
+      )
+    );
+  }
+
+  function updateDoses(key: ISODate, doses: DoseEntry[]) {
+    updateActiveTracker(
+      (prev) => setDoses(prev, key, doses),
+      t("edit.doses", {
+        date: formatHumanDate(makeLocalNoonDateFromISO(key), display),
+      })
+    );
   }
 
   function toggleToday() {
     updateDate(today, !todayTaken);
   }
 
-  function exportData() {
-    const payload = JSON.stringify(save, null, 2);
-    const blob = new Blob([payload], { type: "application/json" });
+  function downloadFile(contents: string, type: string, filename: string) {
+    const blob = new Blob([contents], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `creatine-tracker-${today}.json`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     a.remove();
     URL.revokeObjectURL(url);
-    setToast("Exported JSON");
   }
 
-  async function importFromFile(file: File) {
-    setImportError(null);
+  function exportData() {
+    downloadFile(
+      JSON.stringify(save, null, 2),
+      "application/json",
+      `creatine-tracker-${today}.json`
+    );
+    showToast(t("toast.exportedJson"));
+  }
+
+  function openPassphrasePrompt(prompt: PassphrasePrompt | null) {
+    setPassphrasePrompt(prompt);
+    setPassphraseError(null);
+  }
+
+  async function exportEncrypted(passphrase: string) {
+    setPassphraseBusy(true);
     try {
-      const text = await file.text();
-      const parsed: unknown = JSON.parse(text);
-      const coerced = coerceSave(parsed);
-      if (!coerced) {
-        setImportError("Invalid save file.");
+      downloadFile(
+        await encryptBackup(save, passphrase),
+        "application/json",
+        `creatine-tracker-${today}-encrypted.json`
+      );
+      openPassphrasePrompt(null);
+      showToast(t("toast.exportedEncrypted"));
+    } catch {
+      setPassphraseError(t("backup.failed"));
+    }
+    setPassphraseBusy(false);
+  }
+
+  async function importEncrypted(
+    envelope: unknown,
+    passphrase: string,
+    fileName: string
+  ) {
+    setPassphraseBusy(true);
+    let decrypted: unknown;
+    try {
+      decrypted = await decryptBackup(envelope, passphrase);
+    } catch (err) {
+      setPassphraseBusy(false);
+      // A wrong passphrase can be retried; a damaged or unknown file can't.
+      if (err instanceof WrongPassphraseError) {
+        setPassphraseError(t("backup.wrongPassphrase"));
         return;
       }
-      setSave(coerced);
-      setToast("Imported save data");
+      openPassphrasePrompt(null);
+      setImportError(
+        err instanceof UnsupportedBackupError
+          ? t("backup.unsupported")
+          : err instanceof CorruptBackupError
+            ? t("backup.corrupted")
+            : t("import.unreadable")
+      );
+      return;
+    }
+    setPassphraseBusy(false);
+    openPassphrasePrompt(null);
+    const coerced = coerceSave(decrypted);
+    if (!coerced) {
+      setImportError(t("import.invalid"));
+      return;
+    }
+    setPendingImport({ save: coerced, fileName, csv: null });
+  }
+
+  function exportCsv() {
+    downloadFile(
+      exportSaveCsv(save, today),
+      "text/csv",
+      `creatine-tracker-${today}.csv`
+    );
+    showToast(t("toast.exportedCsv"));
+  }
+
+  function exportIcs() {
+    downloadFile(
+      exportSaveIcs(save, t),
+      "text/calendar",
+      `creatine-tracker-${today}.ics`
+    );
+    showToast(t("toast.exportedCalendar"));
+  }
+
+  async function shareCard() {
+    try {
+      const res = await fetch(`${import.meta.env.BASE_URL}creatine.svg`);
+      const logoSvg = res.ok ? await res.text() : "";
+      const png = await renderShareCardPng(
+        renderShareCardSvg({
+          tracker,
+          today,
+          logoSvg,
+          t,
+          display,
+          weekStart: settings.weekStart,
+        })
+      );
+      const outcome = await shareOrDownloadImage(
+        png,
+        `creatine-streak-${today}.png`,
+        t("share.title", { tracker: tracker.name })
+      );
+      if (outcome === "downloaded") showToast(t("toast.savedShareImage"));
     } catch {
-      setImportError("Could not read that file as JSON.");
+      showToast(t("toast.shareFailed"));
+    }
+  }
+
+  function applyImport(imported: SaveData, mode: ImportMode) {
+    if (mode === "merge") {
+      applyEdit((prev) => mergeSaves(prev, imported), t("edit.merged"));
+      return;
+    }
+    applyEdit(
+      () => imported,
+      imported.trackers.length > 1
+        ? t("edit.importedTrackers", { count: imported.trackers.length })
+        : t("edit.imported")
+    );
+  }
+
+  // Reads the file into a save and previews it; nothing is written until the user picks.
+  async function importFromFile(file: File) {
+    setImportError(null);
+    setImportRowErrors([]);
+    setPendingImport(null);
+    openPassphrasePrompt(null);
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setImportError(t("import.unreadable"));
+      return;
+    }
+
+    if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+      previewCsv(text, file.name);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      setImportError(t("import.notJson"));
+      return;
+    }
+    if (isEncryptedBackup(parsed)) {
+      openPassphrasePrompt({
+        mode: "import",
+        envelope: parsed,
+        fileName: file.name,
+      });
+      return;
+    }
+    const coerced = coerceSave(parsed);
+    if (!coerced) {
+      setImportError(t("import.invalid"));
+      return;
+    }
+    setPendingImport({ save: coerced, fileName: file.name, csv: null });
+  }
+
+  // Rows that can't be read are skipped and listed; the rest still import (and can be undone).
+  // Without `columns` they are detected from the file.
+  function previewCsv(text: string, fileName: string, columns?: CsvColumns) {
+    const result = importSaveCsv(text, save, columns);
+    setImportRowErrors(result.errors);
+    if (!result.save) {
+      setImportError(t("import.noCsvRows"));
+    } else if (result.errors.length > 0) {
+      setImportError(
+        t("import.skippedRows", {
+          skipped: result.errors.length,
+          total: result.rows + result.errors.length,
+        })
+      );
+    } else {
+      setImportError(null);
+    }
+    setPendingImport(
+      result.columns
+        ? {
+            save: result.save,
+            fileName,
+            csv: { text, columns: result.columns },
+          }
+        : null
+    );
+  }
+
+  // Launch actions: the manifest's shortcuts, opening a backup file with the app, and sharing one
+  // to it. Each runs once per launch, and marking a day that's already taken changes nothing.
+  const runUrlAction = useEffectEvent((action: UrlAction) => {
+    if (action.type === "take") {
+      const target =
+        save.trackers.find((tr) => tr.id === action.trackerId) ?? tracker;
+      const key = action.date ?? today;
+      const date = formatHumanDate(makeLocalNoonDateFromISO(key), display);
+      if (compareISODate(key, today) > 0) {
+        showToast(t("launch.futureDate", { date }));
+      } else if (isTaken(target, key)) {
+        showToast(t("launch.alreadyTaken", { tracker: target.name, date }));
+      } else {
+        applyEdit(
+          (prev) =>
+            updateTracker(prev, target.id, (tr) =>
+              markTaken(tr, key, key === today ? Date.now() : null)
+            ),
+          t("launch.markedTaken", { tracker: target.name, date })
+        );
+      }
+    } else if (action.type === "stats") {
+      document.getElementById("stats")?.scrollIntoView({ behavior: "smooth" });
+    } else if (action.type === "import-shared") {
+      void takeSharedFile()
+        .then((file) => {
+          if (file) void importFromFile(file);
+          else showToast(t("launch.noSharedFile"));
+        })
+        .catch(() => showToast(t("launch.noSharedFile")));
     }
+    // 'open-file' only marks the launch; the file arrives through onLaunchFile.
+  });
+  const importLaunchedFile = useEffectEvent((file: File) => {
+    void importFromFile(file);
+  });
+  useEffect(() => {
+    const action = consumeUrlAction();
+    if (action) runUrlAction(action);
+    onLaunchFile((file) => importLaunchedFile(file));
+  }, []);
+
+  function resolveImport(mode: ImportMode | null) {
+    if (pendingImport?.save && mode) applyImport(pendingImport.save, mode);
+    setPendingImport(null);
+    setImportRowErrors([]);
+    setImportError(null);
   }
 
   function onPickImport() {
     importInputRef.current?.click();
   }
 
+  async function runSync() {
+    if (!syncConfig) return;
+    setSyncing(true);
+    setSyncError(null);
+    try {
+      const merged = await syncSave(save, createHttpSyncTransport(syncConfig));
+      // Merge again so edits made while the request was in flight survive.
+      applyEdit((prev) => mergeSaves(prev, merged), t("edit.synced"));
+      setLastSyncedAt(Date.now());
+    } catch (err) {
+      setSyncError(
+        err instanceof SyncServerError
+          ? t("sync.serverError", { status: err.status })
+          : err instanceof InvalidRemoteSaveError
+            ? t("sync.invalidSave")
+            : err instanceof SyncConflictError
+              ? t("sync.conflict")
+              : t("sync.failed")
+      );
+    }
+    setSyncing(false);
+  }
+
   function onClear() {
-    if (!confirm("Clear all local data? This cannot be undone.")) return;
-    clearStorage();
-    setSave(makeDefaultSave());
-    setToast("Cleared data");
+    // Undoable from the toast, so no confirmation step. The save effect persists the empty save.
+    applyEdit((prev) => clearSave(prev, today), t("edit.cleared"));
   }
 
   function applyStartDate() {
@@ -256,262 +939,890 @@ function App() {
     const candidate = startDateDraft as ISODate;
     // `input[type=date]` should already format as YYYY-MM-DD, but validate constraints.
     if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateDraft)) {
-      setStartDateError("Please pick a valid date.");
+      setStartDateError(t("common.invalidDate"));
       return;
     }
     if (compareISODate(candidate, today) > 0) {
-      setStartDateError("Start date cannot be in the future.");
+      setStartDateError(t("history.startInFuture"));
       return;
     }
-    if (compareISODate(candidate, startDate) > 0) {
-      setStartDateError(
-        "Pick a date on or before your current first tracked day."
-      );
+    const firstRecorded = getFirstRecordedDay(tracker);
+    if (firstRecorded && compareISODate(candidate, firstRecorded) > 0) {
+      setStartDateError(t("history.startAfterFirst"));
       return;
     }
 
-    setSave((prev) => ensureStartDate(prev, candidate));
-    setToast("Updated first tracked day");
+    updateActiveTracker(
+      (prev) => setStartDate(prev, candidate),
+      t("edit.startDate")
+    );
+    setEditedStartDate(null);
     setShowInitialDate(false);
   }
 
-  const subtitleDate = formatHumanDate(new Date());
+  const subtitleDate = formatHumanDate(
+    makeLocalNoonDateFromISO(today),
+    display
+  );
 
   const currentRange =
     currentStreak.length > 0 && currentStreak.start && currentStreak.end
-      ? `${formatHumanDate(
-          makeLocalNoonDateFromISO(currentStreak.start)
-        )} - ${formatHumanDate(makeLocalNoonDateFromISO(currentStreak.end))}`
-      : "—";
+      ? t("common.range", {
+          start: formatHumanDate(
+            makeLocalNoonDateFromISO(currentStreak.start),
+            display
+          ),
+          end: formatHumanDate(
+            makeLocalNoonDateFromISO(currentStreak.end),
+            display
+          ),
+        })
+      : t("common.none");
+
+  const freezeBalance = computeFreezeBalance(tracker);
+  const inventory = computeInventory(tracker, today);
 
   const bestRange =
     bestStreak.length > 0 && bestStreak.start && bestStreak.end
-      ? `${formatHumanDate(
-          makeLocalNoonDateFromISO(bestStreak.start)
-        )} - ${formatHumanDate(makeLocalNoonDateFromISO(bestStreak.end))}`
-      : "—";
+      ? t("common.range", {
+          start: formatHumanDate(
+            makeLocalNoonDateFromISO(bestStreak.start),
+            display
+          ),
+          end: formatHumanDate(
+            makeLocalNoonDateFromISO(bestStreak.end),
+            display
+          ),
+        })
+      : t("common.none");
 
   return (
-    <div className="page">
-      <header className="hero">
-        <div className="brandRow">
-          <img
-            className="brandIcon"
-            src={`${import.meta.env.BASE_URL}creatine.svg`}
-            alt=""
-            aria-hidden="true"
-          />
-          <div className="brandText">
-            <h1 className="title">Did You Take Your Creatine Today?</h1>
-            <p className="subtitle">
-              {subtitleDate} · Local-only storage · Export/Import supported
-            </p>
+    <I18nContext.Provider value={i18n}>
+      <div className="page">
+        <header className="hero">
+          <div className="brandRow">
+            <img
+              className="brandIcon"
+              src={`${import.meta.env.BASE_URL}creatine.svg`}
+              alt=""
+              aria-hidden="true"
+            />
+            <div className="brandText">
+              <h1 className="title">{t("app.title")}</h1>
+              <p className="subtitle">
+                {t("app.subtitle", { date: subtitleDate })}
+              </p>
+            </div>
           </div>
-        </div>
-      </header>
-
-      <main className="content">
-        <section className="topGrid" aria-label="Today">
-          <div className="card statusCard">
-            <div className="statusTop">
-              <div
-                className="statusPill"
-                data-state={todayTaken ? "yes" : "no"}
+        </header>
+
+        <main className="content">
+          <TrackerOverview
+            trackers={save.trackers}
+            activeTrackerId={save.activeTrackerId}
+            today={today}
+            onSelect={(id) => {
+              setEditingDosesKey(null);
+              setSave((prev) => setActiveTracker(prev, id));
+            }}
+            onAdd={(name) =>
+              applyEdit(
+                (prev) => addTracker(prev, name, today),
+                t("edit.addedTracker", { name })
+              )
+            }
+            onRename={(id, name) =>
+              applyEdit(
+                (prev) => renameTracker(prev, id, name),
+                t("edit.renamedTracker", { name })
+              )
+            }
+            onRemove={(id) => {
+              const removed = save.trackers.find((t) => t.id === id);
+              if (!removed) return;
+              applyEdit(
+                (prev) => removeTracker(prev, id),
+                t("edit.deletedTracker", { name: removed.name })
+              );
+            }}
+          />
+
+          <section className="topGrid" aria-label={t("today.section")}>
+            <div className="card statusCard">
+              <div className="statusTop">
+                <div
+                  className="statusPill"
+                  data-state={STATUS_PILL_STATE[todayStatus]}
+                >
+                  {statusIcon}
+                  <span className="statusText">
+                    {t(STATUS_LABEL[todayStatus])}
+                  </span>
+                </div>
+                <div className="statusMeta">
+                  <div className="metaLabel">
+                    {t("today.meta", { tracker: tracker.name })}
+                  </div>
+                  <div className="metaValue">{subtitleDate}</div>
+                  {todayPlanned ? (
+                    <div className="metaSubValue">
+                      {describePlannedDay(todayPlanned, t)}
+                    </div>
+                  ) : null}
+                  {todayTaken && todayFirstDose?.at != null ? (
+                    <div className="metaSubValue">
+                      {t("today.takenAt", {
+                        time: formatHumanTime(
+                          new Date(todayFirstDose.at),
+                          display,
+                          todayFirstDose.tz
+                        ),
+                      })}
+                    </div>
+                  ) : null}
+                  {todayTotal !== null ? (
+                    <div className="metaSubValue">
+                      {todayTarget !== null
+                        ? t("today.totalOfTarget", {
+                            total: formatGrams(todayTotal),
+                            target: formatGrams(todayTarget),
+                          })
+                        : t("today.total", { total: formatGrams(todayTotal) })}
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+
+              {inventory?.low ? (
+                <div className="supplyWarning" role="alert">
+                  {inventory.daysLeft === null || inventory.daysLeft === 0
+                    ? t("today.supplyUsedUp", { tracker: tracker.name })
+                    : t("today.supplyLow", {
+                        days: inventory.daysLeft,
+                        tracker: tracker.name,
+                      })}
+                  {inventory.runOutDate && inventory.daysLeft
+                    ? t("today.supplyRunsOut", {
+                        date: formatHumanDate(
+                          makeLocalNoonDateFromISO(inventory.runOutDate),
+                          display
+                        ),
+                      })
+                    : ""}
+                </div>
+              ) : null}
+
+              <button
+                className={todayTaken ? "primary danger" : "primary"}
+                onClick={toggleToday}
+                aria-pressed={todayTaken}
               >
-                {statusIcon}
-                <span className="statusText">{todayTaken ? "Yes" : "No"}</span>
+                {todayTaken ? t("today.uncheck") : t("today.check")}
+              </button>
+
+              <p className="hint">{t("today.hint")}</p>
+
+              <div className="targetToggleRow">
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowTarget((v) => !v)}
+                  aria-expanded={showTarget}
+                >
+                  {todayTarget !== null
+                    ? t("toggles.target", { grams: formatGrams(todayTarget) })
+                    : t("toggles.setTarget")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowProtocol((v) => !v)}
+                  aria-expanded={showProtocol}
+                >
+                  {tracker.protocol
+                    ? t("toggles.protocol")
+                    : t("toggles.setProtocol")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowReminders((v) => !v)}
+                  aria-expanded={showReminders}
+                >
+                  {settings.reminders.enabled &&
+                  settings.reminders.times.length > 0
+                    ? t("toggles.remindersCount", {
+                        count: settings.reminders.times.length,
+                      })
+                    : t("toggles.reminders")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowSupply((v) => !v)}
+                  aria-expanded={showSupply}
+                >
+                  {inventory
+                    ? t("toggles.supplyServings", {
+                        count: inventory.remainingServings,
+                      })
+                    : t("toggles.supply")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowDayBoundary((v) => !v)}
+                  aria-expanded={showDayBoundary}
+                >
+                  {t("toggles.dayBoundary")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowSettings((v) => !v)}
+                  aria-expanded={showSettings}
+                >
+                  {t("toggles.settings")}
+                </button>
               </div>
-              <div className="statusMeta">
-                <div className="metaLabel">Today</div>
-                <div className="metaValue">{subtitleDate}</div>
-                {todayTaken && typeof todayTakenAt === "number" ? (
-                  <div className="metaSubValue">
-                    Taken at {formatHumanTime(new Date(todayTakenAt))}
+
+              {showReminders ? (
+                <RemindersPanel
+                  reminders={settings.reminders}
+                  trackerName={tracker.name}
+                  onChange={(reminders) =>
+                    applyEdit(
+                      (prev) => ({
+                        ...prev,
+                        settings: { ...prev.settings, reminders },
+                        updatedAt: Date.now(),
+                      }),
+                      t("edit.reminders")
+                    )
+                  }
+                />
+              ) : null}
+
+              {showSupply ? (
+                <SupplyPanel
+                  today={today}
+                  supplies={tracker.supplies}
+                  inventory={inventory}
+                  lowSupplyDays={tracker.lowSupplyDays}
+                  onAddSupply={(supply) =>
+                    updateActiveTracker(
+                      (prev) => addSupply(prev, supply),
+                      t("edit.addedSupply", {
+                        grams: formatGrams(supply.grams),
+                      })
+                    )
+                  }
+                  onRemoveSupply={(id) =>
+                    updateActiveTracker(
+                      (prev) => removeSupply(prev, id),
+                      t("edit.removedSupply")
+                    )
+                  }
+                  onLowSupplyDaysChange={(lowSupplyDays) =>
+                    updateActiveTracker(
+                      (prev) => ({ ...prev, lowSupplyDays }),
+                      t("edit.lowSupply")
+                    )
+                  }
+                />
+              ) : null}
+
+              {showDayBoundary ? (
+                <DayBoundaryPanel
+                  boundary={save.dayBoundary}
+                  onChange={(dayBoundary) =>
+                    applyEdit(
+                      (prev) => ({
+                        ...prev,
+                        dayBoundary,
+                        updatedAt: Date.now(),
+                      }),
+                      t("edit.dayBoundary")
+                    )
+                  }
+                />
+              ) : null}
+
+              {showSettings ? (
+                <SettingsPanel settings={settings} onChange={updateSettings} />
+              ) : null}
+
+              {showTarget ? (
+                <TargetPanel
+                  today={today}
+                  targets={tracker.targets}
+                  partialDays={tracker.partialDays}
+                  onSetTarget={(from, grams) => {
+                    updateActiveTracker(
+                      (prev) => setTargetFrom(prev, from, grams),
+                      t("edit.target")
+                    );
+                  }}
+                  onRemoveTarget={(from) =>
+                    updateActiveTracker(
+                      (prev) => removeTargetChange(prev, from),
+                      t("edit.removedTarget")
+                    )
+                  }
+                  onPartialDaysChange={(partialDays) =>
+                    updateActiveTracker(
+                      (prev) => ({ ...prev, partialDays }),
+                      t("edit.partialDays")
+                    )
+                  }
+                />
+              ) : null}
+
+              {showProtocol ? (
+                <ProtocolPanel
+                  key={tracker.id}
+                  today={today}
+                  protocol={tracker.protocol}
+                  onChange={(protocol) =>
+                    updateActiveTracker(
+                      (prev) => ({ ...prev, protocol }),
+                      protocol ? t("edit.protocol") : t("edit.removedProtocol")
+                    )
+                  }
+                />
+              ) : null}
+            </div>
+
+            <div className="card streakCard" aria-label={t("streaks.section")}>
+              <div className="streakGrid">
+                <div className="streakBox">
+                  <div className="streakLabel">{t("streaks.current")}</div>
+                  <div className="streakValue">
+                    {t("common.days", { count: currentStreak.length })}
                   </div>
-                ) : null}
+                  <div className="streakRange">
+                    {currentRange}
+                    {currentStreak.bridged > 0
+                      ? t("streaks.rest", { count: currentStreak.bridged })
+                      : ""}
+                  </div>
+                </div>
+                <div className="streakBox">
+                  <div className="streakLabel">{t("streaks.best")}</div>
+                  <div className="streakValue">
+                    {t("common.days", { count: bestStreak.length })}
+                  </div>
+                  <div className="streakRange">
+                    {bestRange}
+                    {bestStreak.bridged > 0
+                      ? t("streaks.rest", { count: bestStreak.bridged })
+                      : ""}
+                  </div>
+                </div>
               </div>
+
+              <div className="targetToggleRow">
+                <button
+                  className="secondary subtle"
+                  onClick={() => setShowAchievements((v) => !v)}
+                  aria-expanded={showAchievements}
+                >
+                  {t("toggles.achievements", {
+                    unlocked: Object.keys(tracker.achievements).length,
+                    total: ACHIEVEMENT_IDS.length,
+                  })}
+                </button>
+              </div>
+
+              {showAchievements ? (
+                <AchievementsPanel achievements={tracker.achievements} />
+              ) : null}
+
+              <div className="actionsRow">
+                <button className="secondary" onClick={shareCard}>
+                  {t("actions.share")}
+                </button>
+                <button className="secondary" onClick={exportData}>
+                  {t("actions.export")}
+                </button>
+                <button
+                  className="secondary"
+                  onClick={() =>
+                    openPassphrasePrompt(
+                      passphrasePrompt?.mode === "export"
+                        ? null
+                        : { mode: "export" }
+                    )
+                  }
+                  aria-expanded={passphrasePrompt?.mode === "export"}
+                >
+                  {t("actions.exportEncrypted")}
+                </button>
+                <button className="secondary" onClick={exportCsv}>
+                  {t("actions.exportCsv")}
+                </button>
+                <button className="secondary" onClick={exportIcs}>
+                  {t("actions.exportCalendar")}
+                </button>
+                <button className="secondary" onClick={onPickImport}>
+                  {t("actions.import")}
+                </button>
+                <button
+                  className="secondary"
+                  onClick={() => setShowSync((v) => !v)}
+                  aria-expanded={showSync}
+                >
+                  {t("actions.sync")}
+                </button>
+                <button className="secondary subtle" onClick={onClear}>
+                  {t("actions.clear")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={onUndo}
+                  disabled={!canUndo(undoState)}
+                  title={t("actions.undoTitle")}
+                >
+                  {t("common.undo")}
+                </button>
+                <button
+                  className="secondary subtle"
+                  onClick={onRedo}
+                  disabled={!canRedo(undoState)}
+                  title={t("actions.redoTitle")}
+                >
+                  {t("common.redo")}
+                </button>
+                <input
+                  ref={importInputRef}
+                  className="srOnly"
+                  type="file"
+                  accept="application/json,.json,text/csv,.csv"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.currentTarget.value = "";
+                    if (file) void importFromFile(file);
+                  }}
+                />
+              </div>
+
+              {passphrasePrompt ? (
+                <PassphrasePanel
+                  key={
+                    passphrasePrompt.mode === "import"
+                      ? `import:${passphrasePrompt.fileName}`
+                      : "export"
+                  }
+                  mode={passphrasePrompt.mode}
+                  fileName={
+                    passphrasePrompt.mode === "import"
+                      ? passphrasePrompt.fileName
+                      : undefined
+                  }
+                  busy={passphraseBusy}
+                  error={passphraseError}
+                  onSubmit={(passphrase) =>
+                    void (passphrasePrompt.mode === "export"
+                      ? exportEncrypted(passphrase)
+                      : importEncrypted(
+                          passphrasePrompt.envelope,
+                          passphrase,
+                          passphrasePrompt.fileName
+                        ))
+                  }
+                  onCancel={() => openPassphrasePrompt(null)}
+                />
+              ) : null}
+
+              {pendingImport ? (
+                <ImportPreviewPanel
+                  fileName={pendingImport.fileName}
+                  preview={importPreview}
+                  csvColumns={pendingImport.csv?.columns ?? null}
+                  onCsvColumnsChange={(columns) => {
+                    if (!pendingImport.csv) return;
+                    previewCsv(
+                      pendingImport.csv.text,
+                      pendingImport.fileName,
+                      columns
+                    );
+                  }}
+                  onReplace={() => resolveImport("replace")}
+                  onMerge={() => resolveImport("merge")}
+                  onCancel={() => resolveImport(null)}
+                />
+              ) : null}
+
+              {importError ? (
+                <div className="inlineError">
+                  {t("import.error", { message: importError })}
+                  {importRowErrors.length > 0 ? (
+                    <ul className="importErrors">
+                      {importRowErrors.slice(0, 20).map((err) => (
+                        <li key={err.line}>
+                          {t("import.line", {
+                            line: err.line,
+                            message: t(`csv.error.${err.code}`, err.params),
+                          })}
+                        </li>
+                      ))}
+                      {importRowErrors.length > 20 ? (
+                        <li>
+                          {t("import.more", {
+                            count: importRowErrors.length - 20,
+                          })}
+                        </li>
+                      ) : null}
+                    </ul>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {showSync ? (
+                <SyncPanel
+                  config={syncConfig}
+                  syncing={syncing}
+                  lastSyncedAt={lastSyncedAt}
+                  error={syncError}
+                  onSaveConfig={(config) => {
+                    saveSyncConfig(config);
+                    setSyncConfig(config);
+                    setSyncError(null);
+                    showToast(
+                      config ? t("toast.savedSyncEndpoint") : t("toast.syncOff")
+                    );
+                  }}
+                  onSync={() => void runSync()}
+                />
+              ) : null}
             </div>
+          </section>
 
-            <button
-              className={todayTaken ? "primary danger" : "primary"}
-              onClick={toggleToday}
-              aria-pressed={todayTaken}
-            >
-              {todayTaken ? "Uncheck today" : "Check today"}
-            </button>
+          <StatsCard
+            tracker={tracker}
+            today={today}
+            range={statsRange}
+            rangeLabel={t("stats.monthFilter", { label: statsRangeLabel })}
+            weekStart={settings.weekStart}
+            homeZone={save.dayBoundary.timeZone}
+          />
 
-            <p className="hint">
-              Tip: you can also edit any day below to correct missed entries.
-            </p>
-          </div>
+          <WeightCard
+            save={save}
+            today={today}
+            since={tracker.startDate}
+            unit={settings.weightUnit}
+            onSetWeight={(date, kg) =>
+              applyEdit(
+                (prev) => setBodyweight(prev, date, kg),
+                kg !== null
+                  ? t("edit.weight", {
+                      weight: formatWeight(
+                        kg,
+                        settings.weightUnit,
+                        display.locale
+                      ),
+                      date: formatHumanDate(
+                        makeLocalNoonDateFromISO(date),
+                        display
+                      ),
+                    })
+                  : t("edit.removedWeight", {
+                      date: formatHumanDate(
+                        makeLocalNoonDateFromISO(date),
+                        display
+                      ),
+                    })
+              )
+            }
+          />
 
-          <div className="card streakCard" aria-label="Streaks">
-            <div className="streakGrid">
-              <div className="streakBox">
-                <div className="streakLabel">Current streak</div>
-                <div className="streakValue">{currentStreak.length} days</div>
-                <div className="streakRange">{currentRange}</div>
+          <section
+            className="card historyCard"
+            aria-label={t("history.section")}
+          >
+            <div className="historyHeader">
+              <div className="historyHeaderTop">
+                <h2 className="h2">{t("history.section")}</h2>
+                <div
+                  className="segmented"
+                  role="group"
+                  aria-label={t("history.view")}
+                >
+                  {HISTORY_VIEWS.map((view) => (
+                    <button
+                      key={view}
+                      className={
+                        settings.historyView === view ? "segment on" : "segment"
+                      }
+                      onClick={() =>
+                        setSave((prev) => ({
+                          ...prev,
+                          settings: { ...prev.settings, historyView: view },
+                        }))
+                      }
+                      aria-pressed={settings.historyView === view}
+                    >
+                      {t(HISTORY_VIEW_LABEL[view])}
+                    </button>
+                  ))}
+                </div>
+                {settings.historyView !== "year" ? (
+                  <select
+                    id="month-filter"
+                    className="selectInput"
+                    value={monthFilter}
+                    onChange={(e) => setMonthFilter(e.target.value)}
+                    aria-label={t("history.filter")}
+                  >
+                    {monthOptions.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
               </div>
-              <div className="streakBox">
-                <div className="streakLabel">Best streak</div>
-                <div className="streakValue">{bestStreak.length} days</div>
-                <div className="streakRange">{bestRange}</div>
+              <div className="historyNote">
+                {settings.historyView === "list"
+                  ? t("history.note.list")
+                  : settings.historyView === "month"
+                    ? t("history.note.month")
+                    : t("history.note.year")}
               </div>
             </div>
 
-            <div className="actionsRow">
-              <button className="secondary" onClick={exportData}>
-                Export
-              </button>
-              <button className="secondary" onClick={onPickImport}>
-                Import
-              </button>
-              <button className="secondary subtle" onClick={onClear}>
-                Clear
-              </button>
-              <input
-                ref={importInputRef}
-                className="srOnly"
-                type="file"
-                accept="application/json"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  e.currentTarget.value = "";
-                  if (file) void importFromFile(file);
-                }}
+            {settings.historyView === "month" ? (
+              <MonthGrid
+                tracker={tracker}
+                monthKey={monthFilter === "all" ? currentMonthKey : monthFilter}
+                today={today}
+                weekStart={settings.weekStart}
+                onToggle={(key) => updateDate(key, !isTaken(tracker, key))}
               />
-            </div>
+            ) : null}
 
-            {importError ? (
-              <div className="inlineError">Import error: {importError}</div>
+            {settings.historyView === "year" ? (
+              <YearHeatmap
+                tracker={tracker}
+                today={today}
+                weekStart={settings.weekStart}
+                onToggle={(key) => updateDate(key, !isTaken(tracker, key))}
+              />
             ) : null}
-          </div>
-        </section>
-
-        <section className="card historyCard" aria-label="History">
-          <div className="historyHeader">
-            <div className="historyHeaderTop">
-              <h2 className="h2">History</h2>
-              <select
-                id="month-filter"
-                className="selectInput"
-                value={monthFilter}
-                onChange={(e) => setMonthFilter(e.target.value)}
-                aria-label="Filter history by month"
+
+            {settings.historyView === "list" ? (
+              <ul className="historyList">
+                {filteredHistoryKeys.map((key) => {
+                  const d = makeLocalNoonDateFromISO(key);
+                  const label = formatHumanDate(d, display);
+                  const checked = isTaken(tracker, key);
+                  const firstDose = getFirstTimedDose(tracker, key);
+                  const doses = getDoses(tracker, key);
+                  const total = getDailyTotalGrams(tracker, key);
+                  const status = getDayStatus(tracker, key);
+                  const target = getTargetGrams(tracker, key);
+                  const editing = editingDosesKey === key;
+                  const rest = getRestDay(tracker, key);
+                  const planned = getPlannedDay(tracker, key);
+                  const weight = save.bodyweight[key];
+                  return (
+                    <li key={key} className="historyRow">
+                      <div className="historyLeft">
+                        <div className="historyDate">{label}</div>
+                        {firstDose?.at != null ? (
+                          <div className="historyTime">
+                            {t("today.takenAt", {
+                              time: formatHumanTime(
+                                new Date(firstDose.at),
+                                display,
+                                firstDose.tz
+                              ),
+                            })}
+                          </div>
+                        ) : null}
+                        {checked ? (
+                          <div className="historyTime">
+                            {total !== null
+                              ? formatGrams(total)
+                              : t("history.amountNotSet")}
+                            {total !== null && target !== null
+                              ? ` / ${formatGrams(target)}`
+                              : ""}
+                            {doses.length > 1
+                              ? ` · ${t("history.doseCount", { count: doses.length })}`
+                              : ""}
+                          </div>
+                        ) : null}
+                        {rest ? (
+                          <div className="historyTime">
+                            {t(REST_DAY_LABEL[rest])}
+                          </div>
+                        ) : null}
+                        {planned ? (
+                          <div className="historyTime">
+                            {describePlannedDay(planned, t)}
+                          </div>
+                        ) : null}
+                        {weight !== undefined ? (
+                          <div className="historyTime">
+                            {t("history.weight", {
+                              weight: formatWeight(
+                                weight,
+                                settings.weightUnit,
+                                display.locale
+                              ),
+                            })}
+                          </div>
+                        ) : null}
+                      </div>
+                      <div className="historyActions">
+                        {!checked ? (
+                          <select
+                            className="restSelect"
+                            value={rest ?? ""}
+                            onChange={(e) =>
+                              updateRestDay(
+                                key,
+                                (e.target.value || null) as RestDayKind | null
+                              )
+                            }
+                            aria-label={t("history.restFor", { date: label })}
+                          >
+                            <option value="">{t("history.noRest")}</option>
+                            <option value="excused">
+                              {t("history.excused")}
+                            </option>
+                            <option
+                              value="freeze"
+                              disabled={
+                                rest !== "freeze" &&
+                                !canSpendFreeze(tracker, key)
+                              }
+                            >
+                              {t("history.freeze", { count: freezeBalance })}
+                            </option>
+                          </select>
+                        ) : null}
+                        <button
+                          className="secondary subtle"
+                          onClick={() =>
+                            setEditingDosesKey(editing ? null : key)
+                          }
+                          aria-expanded={editing}
+                        >
+                          {editing ? t("common.done") : t("history.doses")}
+                        </button>
+                        <button
+                          className={
+                            status === "met"
+                              ? "toggle on"
+                              : status === "partial"
+                                ? "toggle partial"
+                                : "toggle"
+                          }
+                          onClick={() => updateDate(key, !checked)}
+                          aria-pressed={checked}
+                          aria-label={t(
+                            checked
+                              ? "common.markNotTaken"
+                              : "common.markTaken",
+                            { date: label }
+                          )}
+                        >
+                          <span className="toggleDot" aria-hidden="true" />
+                          <span className="toggleText">
+                            {t(TOGGLE_LABEL[status])}
+                          </span>
+                        </button>
+                      </div>
+                      {editing ? (
+                        <DoseEditor
+                          label={label}
+                          dayKey={key}
+                          boundary={save.dayBoundary}
+                          doses={doses}
+                          onChange={(next) => updateDoses(key, next)}
+                          newDoseAt={() => (key === today ? Date.now() : null)}
+                        />
+                      ) : null}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : null}
+
+            <div className="historyFooter">
+              <button
+                className="secondary"
+                onClick={() => {
+                  setStartDateError(null);
+                  setEditedStartDate(null);
+                  setShowInitialDate((v) => !v);
+                }}
+                aria-expanded={showInitialDate}
               >
-                {monthOptions.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
+                {showInitialDate
+                  ? t("history.hideInitialDate")
+                  : t("history.showInitialDate")}
+              </button>
+
+              {showInitialDate ? (
+                <div
+                  className="initialDatePanel"
+                  aria-label={t("history.initialDatePanel")}
+                >
+                  <label className="historyLabel">
+                    {t("history.initialDate")}
+                    <input
+                      className="dateInput"
+                      type="date"
+                      value={startDateDraft}
+                      max={getFirstRecordedDay(tracker) ?? today}
+                      onChange={(e) => {
+                        setStartDateError(null);
+                        setEditedStartDate(e.target.value);
+                      }}
+                    />
+                  </label>
+                  <div className="initialDateActions">
+                    <button className="secondary" onClick={applyStartDate}>
+                      {t("common.apply")}
+                    </button>
+                  </div>
+                  {startDateError ? (
+                    <div className="inlineError">{startDateError}</div>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
-            <div className="historyNote">
-              From your first tracked day to today · Most recent first
+          </section>
+
+          <footer className="footer">
+            <div className="footerInner">
+              <span>{t("app.footer.local")}</span>
+              <span className="footerSep">·</span>
+              <span>{t("app.footer.tip")}</span>
             </div>
-          </div>
+            <div className="footerDisclaimer">{t("app.footer.disclaimer")}</div>
+          </footer>
+        </main>
 
-          <ul className="historyList">
-            {filteredHistoryKeys.map((key) => {
-              const d = makeLocalNoonDateFromISO(key);
-              const label = formatHumanDate(d);
-              const checked = isTaken(save, key);
-              const takenAt = checked ? save.taken[key] : undefined;
-              return (
-                <li key={key} className="historyRow">
-                  <div className="historyLeft">
-                    <div className="historyDate">{label}</div>
-                    {typeof takenAt === "number" ? (
-                      <div className="historyTime">
-                        Taken at {formatHumanTime(new Date(takenAt))}
-                      </div>
-                    ) : null}
-                  </div>
-                  <button
-                    className={checked ? "toggle on" : "toggle"}
-                    onClick={() => updateDate(key, !checked)}
-                    aria-pressed={checked}
-                    aria-label={
-                      checked
-                        ? `Mark ${label} as not taken`
-                        : `Mark ${label} as taken`
-                    }
-                  >
-                    <span className="toggleDot" aria-hidden="true" />
-                    <span className="toggleText">
-                      {checked ? "Taken" : "Not taken"}
-                    </span>
-                  </button>
-                </li>
-              );
-            })}
-          </ul>
-
-          <div className="historyFooter">
-            <button
-              className="secondary"
-              onClick={() => {
-                setStartDateError(null);
-                setShowInitialDate((v) => !v);
-              }}
-              aria-expanded={showInitialDate}
-            >
-              {showInitialDate ? "Hide initial date" : "Set initial date"}
+        {updateWaiting ? (
+          <div className="toast updateToast" role="status">
+            <span>{t("update.available")}</span>
+            <button className="toastAction" onClick={applyUpdate}>
+              {t("update.reload")}
             </button>
+          </div>
+        ) : null}
 
-            {showInitialDate ? (
-              <div
-                className="initialDatePanel"
-                aria-label="Set initial tracked date"
-              >
-                <label className="historyLabel">
-                  Initial date to show
-                  <input
-                    className="dateInput"
-                    type="date"
-                    value={startDateDraft}
-                    max={today}
-                    onChange={(e) => {
-                      setStartDateError(null);
-                      setStartDateDraft(e.target.value);
-                    }}
-                  />
-                </label>
-                <div className="initialDateActions">
-                  <button className="secondary" onClick={applyStartDate}>
-                    Apply
-                  </button>
-                </div>
-                {startDateError ? (
-                  <div className="inlineError">{startDateError}</div>
-                ) : null}
-              </div>
+        {toast ? (
+          <div className="toast" role="status">
+            <span>{toast.message}</span>
+            {toast.canUndo && canUndo(undoState) ? (
+              <button className="toastAction" onClick={onUndo}>
+                {t("common.undo")}
+              </button>
             ) : null}
           </div>
-        </section>
-
-        <footer className="footer">
-          <div className="footerInner">
-            <span>Data stays on your device.</span>
-            <span className="footerSep">·</span>
-            <span>
-              Pro tip: "Add to Home Screen" for an app-like experience.
-            </span>
-          </div>
-          <div className="footerDisclaimer">
-            This app is a personal tracking tool only and does not provide
-            medical advice. Consult a healthcare professional before starting
-            any supplement.
-          </div>
-        </footer>
-      </main>
-
-      {toast ? (
-        <div className="toast" role="status">
-          {toast}
-        </div>
-      ) : null}
-    </div>
+        ) : null}
+      </div>
+    </I18nContext.Provider>
   );
 }
 
@@ -0,0 +1,49 @@
+import {
+  formatHumanDate,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+} from "../lib/creatine";
+import { ACHIEVEMENT_IDS, COMEBACK_GAP_DAYS } from "../lib/achievements";
+import { useI18n } from "../i18n";
+
+type Props = {
+  achievements: Record<string, ISODate>;
+};
+
+export function AchievementsPanel({ achievements }: Props) {
+  const { t, display } = useI18n();
+  return (
+    <div className="targetPanel" aria-label={t("achievements.panel")}>
+      <ul className="targetList">
+        {ACHIEVEMENT_IDS.map((id) => {
+          const on = achievements[id];
+          return (
+            <li
+              key={id}
+              className={
+                on
+                  ? "targetRow achievementRow"
+                  : "targetRow achievementRow locked"
+              }
+            >
+              <span>
+                <strong>{t(`achievement.${id}.title`)}</strong>
+                <span className="achievementDescription">
+                  {t(`achievement.${id}.description`, {
+                    days: COMEBACK_GAP_DAYS,
+                  })}
+                </span>
+              </span>
+              <span className="achievementDate">
+                {on
+                  ? formatHumanDate(makeLocalNoonDateFromISO(on), display)
+                  : t("achievements.locked")}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="historyNote">{t("achievements.note")}</div>
+    </div>
+  );
+}
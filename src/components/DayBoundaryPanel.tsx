@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import {
+  formatHumanTime,
+  getDeviceTimeZone,
+  type DayBoundary,
+  type DisplaySettings,
+} from "../lib/creatine";
+import { useI18n } from "../i18n";
+import type { Translator } from "../lib/i18n";
+
+type Props = {
+  boundary: DayBoundary;
+  onChange: (boundary: DayBoundary) => void;
+};
+
+const ROLLOVER_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
+function formatRolloverHour(
+  hour: number,
+  t: Translator,
+  display: DisplaySettings
+) {
+  if (hour === 0) return t("dayBoundary.midnight");
+  return formatHumanTime(new Date(2000, 0, 1, hour), display);
+}
+
+export function DayBoundaryPanel({ boundary, onChange }: Props) {
+  const { t, display } = useI18n();
+  const deviceZone = getDeviceTimeZone();
+  const zones = useMemo(() => Intl.supportedValuesOf("timeZone"), []);
+
+  return (
+    <div className="targetPanel" aria-label={t("dayBoundary.panel")}>
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("dayBoundary.timeZone")}
+          <select
+            className="dateInput"
+            value={boundary.timeZone ?? ""}
+            onChange={(e) =>
+              onChange({ ...boundary, timeZone: e.target.value || null })
+            }
+          >
+            <option value="">
+              {t("dayBoundary.device", { zone: deviceZone })}
+            </option>
+            {zones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("dayBoundary.rollover")}
+          <select
+            className="dateInput"
+            value={boundary.rolloverHour}
+            onChange={(e) =>
+              onChange({ ...boundary, rolloverHour: Number(e.target.value) })
+            }
+          >
+            {ROLLOVER_HOURS.map((hour) => (
+              <option key={hour} value={hour}>
+                {formatRolloverHour(hour, t, display)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="historyNote">{t("dayBoundary.note")}</div>
+    </div>
+  );
+}
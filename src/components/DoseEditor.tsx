@@ -0,0 +1,184 @@
+import { useState, type ChangeEvent, type KeyboardEvent } from "react";
+import {
+  getDeviceTimeZone,
+  makeLocalTimestamp,
+  resolveTimeZone,
+  toLocalTimeValue,
+  type DayBoundary,
+  type DoseEntry,
+  type ISODate,
+} from "../lib/creatine";
+import { useI18n } from "../i18n";
+
+type Props = {
+  label: string;
+  // Day being edited; taken times are wall-clock times on this day (in each dose's own zone).
+  dayKey: ISODate;
+  boundary: DayBoundary;
+  doses: DoseEntry[];
+  // Called with the full replacement list; an empty list means "not taken".
+  onChange: (doses: DoseEntry[]) => void;
+  // Timestamp to store on newly added doses (null for historical days).
+  newDoseAt: () => number | null;
+};
+
+// Text typed into one of the dose fields, not committed yet.
+type FieldDraft = { field: string; value: string };
+
+function parseGrams(raw: string): number | null {
+  if (raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function DoseEditor({
+  label,
+  dayKey,
+  boundary,
+  doses,
+  onChange,
+  newDoseAt,
+}: Props) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState("");
+  // What's being typed into a dose field. It's committed when the field is left or on Enter, so
+  // typing "12.5" is one edit (one undo step, one write) rather than one per keystroke.
+  const [editing, setEditing] = useState<FieldDraft | null>(null);
+
+  function editableField(
+    field: string,
+    stored: string,
+    commit: (value: string) => void
+  ) {
+    const finish = () => {
+      if (editing?.field !== field) return;
+      setEditing(null);
+      if (editing.value !== stored) commit(editing.value);
+    };
+    return {
+      value: editing?.field === field ? editing.value : stored,
+      onChange: (e: ChangeEvent<HTMLInputElement>) =>
+        setEditing({ field, value: e.target.value }),
+      onBlur: finish,
+      onKeyDown: (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") finish();
+      },
+    };
+  }
+
+  function updateDose(index: number, grams: number | null) {
+    if (doses[index].grams === grams) return;
+    onChange(doses.map((d, i) => (i === index ? { ...d, grams } : d)));
+  }
+
+  // An empty value (the field was cleared) means the time is unknown. Doses without a zone yet
+  // get the home zone.
+  function updateTime(index: number, value: string) {
+    onChange(
+      doses.map((d, i) => {
+        if (i !== index) return d;
+        if (!value) return { ...d, at: null };
+        const tz = d.tz ?? resolveTimeZone(boundary);
+        return {
+          ...d,
+          at: makeLocalTimestamp(dayKey, value, boundary, tz),
+          tz,
+        };
+      })
+    );
+  }
+
+  function removeDose(index: number) {
+    onChange(doses.filter((_, i) => i !== index));
+  }
+
+  function addDose() {
+    const grams = parseGrams(draft);
+    const at = newDoseAt();
+    onChange([
+      ...doses,
+      { grams, at, tz: at === null ? null : getDeviceTimeZone() },
+    ]);
+    setDraft("");
+  }
+
+  return (
+    <div className="doseEditor" aria-label={t("doses.panel", { date: label })}>
+      {doses.length === 0 ? (
+        <div className="doseEmpty">{t("doses.empty")}</div>
+      ) : (
+        <ul className="doseList">
+          {doses.map((dose, i) => (
+            <li key={i} className="doseRow">
+              <label className="doseLabel">
+                {t("doses.dose", { n: i + 1 })}
+                <input
+                  className="gramsInput"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={0.5}
+                  placeholder="g"
+                  {...editableField(
+                    `${i}:grams`,
+                    dose.grams === null ? "" : String(dose.grams),
+                    (value) => updateDose(i, parseGrams(value))
+                  )}
+                />
+                <span className="doseUnit">g</span>
+              </label>
+              <label className="doseLabel">
+                {t("doses.at")}
+                <input
+                  className="timeInput"
+                  type="time"
+                  {...editableField(
+                    `${i}:time`,
+                    dose.at === null ? "" : toLocalTimeValue(dose.at, dose.tz),
+                    (value) => updateTime(i, value)
+                  )}
+                  aria-label={t("doses.timeFor", { n: i + 1, date: label })}
+                />
+              </label>
+              {dose.at !== null ? (
+                <button
+                  className="secondary subtle"
+                  onClick={() => updateTime(i, "")}
+                  aria-label={t("doses.clearTimeFor", {
+                    n: i + 1,
+                    date: label,
+                  })}
+                >
+                  {t("doses.clearTime")}
+                </button>
+              ) : null}
+              <button
+                className="secondary subtle"
+                onClick={() => removeDose(i)}
+                aria-label={t("doses.removeFor", { n: i + 1, date: label })}
+              >
+                {t("common.remove")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="doseAdd">
+        <input
+          className="gramsInput"
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step={0.5}
+          placeholder="g"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          aria-label={t("doses.gramsFor", { date: label })}
+        />
+        <button className="secondary" onClick={addDose}>
+          {t("doses.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import {
+  formatHumanDate,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type DisplaySettings,
+} from "../lib/creatine";
+import {
+  CSV_FIELDS,
+  setCsvColumn,
+  type CsvColumns,
+} from "../lib/csv";
+import type { ImportPreview, SaveDiff } from "../lib/importPreview";
+import { useI18n } from "../i18n";
+
+type Props = {
+  fileName: string;
+  // Null when a CSV mapping gives no usable rows.
+  preview: ImportPreview | null;
+  // How a CSV file's columns are read, editable here; null for other files.
+  csvColumns: CsvColumns | null;
+  onCsvColumnsChange: (columns: CsvColumns) => void;
+  onReplace: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+};
+
+function formatDay(key: ISODate, display: DisplaySettings) {
+  return formatHumanDate(makeLocalNoonDateFromISO(key), display);
+}
+
+function DiffSummary({ diff }: { diff: SaveDiff }) {
+  const { t, display } = useI18n();
+  if (diff.unchanged) {
+    return <div className="doseEmpty">{t("importPreview.noChanges")}</div>;
+  }
+  return (
+    <ul className="targetList">
+      {diff.trackers.map((d) => {
+        const parts = [
+          d.presence === "added" ? t("importPreview.trackerAdded") : null,
+          d.presence === "removed" ? t("importPreview.trackerRemoved") : null,
+          d.added.length > 0
+            ? t("importPreview.added", { count: d.added.length })
+            : null,
+          d.removed.length > 0
+            ? t("importPreview.removed", { count: d.removed.length })
+            : null,
+          d.changed.length > 0
+            ? t("importPreview.changed", { count: d.changed.length })
+            : null,
+          d.presence === "both" &&
+          d.startDateBefore &&
+          d.startDateAfter &&
+          d.startDateBefore !== d.startDateAfter
+            ? t("importPreview.startDate", {
+                before: formatDay(d.startDateBefore, display),
+                after: formatDay(d.startDateAfter, display),
+              })
+            : null,
+        ].filter((p): p is string => p !== null);
+        return (
+          <li
+            key={d.id}
+            className={
+              d.removed.length > 0 || d.presence === "removed"
+                ? "targetRow previewRow lossy"
+                : "targetRow previewRow"
+            }
+          >
+            <strong>{d.name}</strong>
+            <span>{parts.join(" · ")}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function CsvColumnsForm({
+  columns,
+  onChange,
+}: {
+  columns: CsvColumns;
+  onChange: (columns: CsvColumns) => void;
+}) {
+  const { t } = useI18n();
+  const options = Array.from({ length: columns.columnCount }, (_, idx) => ({
+    idx,
+    label:
+      columns.header?.[idx]?.trim() ||
+      t("importPreview.columnNumber", { number: idx + 1 }),
+  }));
+  const trackerColumns = Object.keys(columns.mapping.trackerColumns ?? {});
+
+  return (
+    <>
+      <div className="streakLabel">{t("importPreview.columns")}</div>
+      <div className="targetForm">
+        {CSV_FIELDS.map((field) => (
+          <label key={field} className="historyLabel">
+            {t(`importPreview.column.${field}`)}
+            <select
+              className="selectInput"
+              value={columns.mapping[field] ?? ""}
+              onChange={(e) =>
+                onChange(
+                  setCsvColumn(
+                    columns,
+                    field,
+                    e.target.value === "" ? undefined : Number(e.target.value)
+                  )
+                )
+              }
+            >
+              {field === "date" ? null : (
+                <option value="">{t("common.none")}</option>
+              )}
+              {options.map((o) => (
+                <option key={o.idx} value={o.idx}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="historyNote">
+        {trackerColumns.length > 0
+          ? t("importPreview.trackerColumns", { count: trackerColumns.length })
+          : t("importPreview.columnsNote")}
+      </div>
+    </>
+  );
+}
+
+export function ImportPreviewPanel({
+  fileName,
+  preview,
+  csvColumns,
+  onCsvColumnsChange,
+  onReplace,
+  onMerge,
+  onCancel,
+}: Props) {
+  const { t, display } = useI18n();
+
+  return (
+    <div className="targetPanel" aria-label={t("importPreview.panel")}>
+      {csvColumns ? (
+        <CsvColumnsForm columns={csvColumns} onChange={onCsvColumnsChange} />
+      ) : null}
+
+      {preview ? (
+        <>
+          <div className="historyNote">
+            {t("importPreview.file", {
+              file: fileName,
+              trackers: preview.file.trackers,
+              days: preview.file.takenDays,
+            })}
+            {preview.file.firstDay ? (
+              <>
+                <br />
+                {preview.file.lastDay
+                  ? t("importPreview.range", {
+                      start: formatDay(preview.file.firstDay, display),
+                      end: formatDay(preview.file.lastDay, display),
+                    })
+                  : t("importPreview.since", {
+                      start: formatDay(preview.file.firstDay, display),
+                    })}
+              </>
+            ) : null}
+          </div>
+
+          <div className="previewGrid">
+            <div className="previewColumn">
+              <div className="streakLabel">{t("importPreview.replace")}</div>
+              <DiffSummary diff={preview.replace} />
+            </div>
+            <div className="previewColumn">
+              <div className="streakLabel">{t("importPreview.merge")}</div>
+              <DiffSummary diff={preview.merge} />
+            </div>
+          </div>
+        </>
+      ) : null}
+
+      <div className="doseAdd">
+        <button className="secondary" onClick={onReplace} disabled={!preview}>
+          {t("importPreview.replaceButton")}
+        </button>
+        <button className="secondary" onClick={onMerge} disabled={!preview}>
+          {t("importPreview.mergeButton")}
+        </button>
+        <button className="secondary subtle" onClick={onCancel}>
+          {t("common.cancel")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo } from "react";
+import { buildMonthGrid, computeHeatLevels } from "../lib/calendar";
+import {
+  compareISODate,
+  formatHumanDate,
+  getDayStatus,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type Tracker,
+  type Weekday,
+} from "../lib/creatine";
+import { useI18n } from "../i18n";
+
+type Props = {
+  tracker: Tracker;
+  monthKey: string;
+  today: ISODate;
+  weekStart: Weekday;
+  onToggle: (key: ISODate) => void;
+};
+
+function weekdayLabels(locale: string | undefined, weekStart: Weekday) {
+  const fmt = new Intl.DateTimeFormat(locale, { weekday: "narrow" });
+  // Jan 4, 2026 is a Sunday; walk one week from the first day of the week.
+  return Array.from({ length: 7 }, (_, i) =>
+    fmt.format(new Date(2026, 0, 4 + weekStart + i, 12))
+  );
+}
+
+export function MonthGrid({
+  tracker,
+  monthKey,
+  today,
+  weekStart,
+  onToggle,
+}: Props) {
+  const { t, display } = useI18n();
+  const intlLocale = display.locale;
+  const weeks = useMemo(
+    () => buildMonthGrid(monthKey, weekStart),
+    [monthKey, weekStart]
+  );
+  const levels = useMemo(
+    () =>
+      computeHeatLevels(
+        tracker,
+        weeks.flat().filter((k): k is ISODate => k !== null)
+      ),
+    [tracker, weeks]
+  );
+  const labels = useMemo(
+    () => weekdayLabels(intlLocale, weekStart),
+    [intlLocale, weekStart]
+  );
+
+  return (
+    <div className="monthGrid" role="grid" aria-label={t("month.calendar")}>
+      <div className="monthGridRow" role="row">
+        {labels.map((l, i) => (
+          <div key={i} className="monthGridHead" role="columnheader">
+            {l}
+          </div>
+        ))}
+      </div>
+      {weeks.map((week, wi) => (
+        <div key={wi} className="monthGridRow" role="row">
+          {week.map((key, di) => {
+            if (!key) {
+              return (
+                <div key={di} className="monthCell empty" role="gridcell" />
+              );
+            }
+            const future = compareISODate(key, today) > 0;
+            const status = getDayStatus(tracker, key);
+            const label = formatHumanDate(
+              makeLocalNoonDateFromISO(key),
+              display
+            );
+            return (
+              <button
+                key={key}
+                className={key === today ? "monthCell today" : "monthCell"}
+                role="gridcell"
+                data-level={levels.get(key) ?? 0}
+                data-state={status}
+                disabled={future}
+                onClick={() => onToggle(key)}
+                aria-pressed={status !== "missed"}
+                aria-label={t(
+                  status !== "missed"
+                    ? "common.markNotTaken"
+                    : "common.markTaken",
+                  { date: label }
+                )}
+              >
+                {Number(key.slice(8))}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useI18n } from "../i18n";
+
+// Asked for new exports only; imports take whatever the file was made with.
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type Props = {
+  // "export" asks for a new passphrase twice; "import" asks once for an existing one.
+  mode: "export" | "import";
+  // Name of the encrypted file being imported.
+  fileName?: string;
+  busy: boolean;
+  error: string | null;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+};
+
+export function PassphrasePanel({
+  mode,
+  fileName,
+  busy,
+  error,
+  onSubmit,
+  onCancel,
+}: Props) {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  function submit() {
+    setFormError(null);
+    if (mode === "export") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setFormError(t("backup.tooShort", { count: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirm) {
+        setFormError(t("backup.mismatch"));
+        return;
+      }
+    }
+    if (!passphrase) return;
+    onSubmit(passphrase);
+  }
+
+  return (
+    <form
+      className="targetPanel"
+      aria-label={
+        mode === "export" ? t("backup.exportPanel") : t("backup.importPanel")
+      }
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <div className="historyNote">
+        {mode === "export"
+          ? t("backup.exportNote")
+          : t("backup.importNote", { file: fileName ?? "" })}
+      </div>
+      <label className="historyLabel">
+        {t("backup.passphrase")}
+        <input
+          className="textInput"
+          type="password"
+          autoComplete={mode === "export" ? "new-password" : "current-password"}
+          autoFocus
+          value={passphrase}
+          onChange={(e) => {
+            setFormError(null);
+            setPassphrase(e.target.value);
+          }}
+        />
+      </label>
+      {mode === "export" ? (
+        <label className="historyLabel">
+          {t("backup.confirm")}
+          <input
+            className="textInput"
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e) => {
+              setFormError(null);
+              setConfirm(e.target.value);
+            }}
+          />
+        </label>
+      ) : null}
+      <div className="doseAdd">
+        <button className="secondary" type="submit" disabled={busy}>
+          {busy
+            ? t("backup.working")
+            : mode === "export"
+              ? t("backup.encrypt")
+              : t("backup.unlock")}
+        </button>
+        <button
+          className="secondary subtle"
+          type="button"
+          onClick={onCancel}
+          disabled={busy}
+        >
+          {t("common.cancel")}
+        </button>
+      </div>
+      {formError || error ? (
+        <div className="inlineError">{formError ?? error}</div>
+      ) : null}
+    </form>
+  );
+}
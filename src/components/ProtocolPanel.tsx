@@ -0,0 +1,255 @@
+import { useState } from "react";
+import {
+  isISODateKey,
+  PROTOCOL_PHASE_KINDS,
+  type ISODate,
+  type Protocol,
+  type ProtocolPhase,
+  type ProtocolPhaseKind,
+} from "../lib/creatine";
+import {
+  DEFAULT_PROTOCOL_PHASES,
+  PROTOCOL_PHASE_DEFAULTS,
+  PROTOCOL_PHASE_LABEL,
+} from "../lib/protocol";
+import { useI18n } from "../i18n";
+
+type Props = {
+  today: ISODate;
+  protocol: Protocol | null;
+  onChange: (protocol: Protocol | null) => void;
+};
+
+// Phase fields as typed; they're only parsed when the plan is saved.
+type PhaseDraft = {
+  kind: ProtocolPhaseKind;
+  days: string;
+  dosesPerDay: string;
+  gramsPerDose: string;
+};
+
+function toDraft(phase: ProtocolPhase): PhaseDraft {
+  return {
+    kind: phase.kind,
+    days: phase.days === null ? "" : String(phase.days),
+    dosesPerDay: String(phase.dosesPerDay),
+    gramsPerDose: phase.gramsPerDose === null ? "" : String(phase.gramsPerDose),
+  };
+}
+
+export function ProtocolPanel({ today, protocol, onChange }: Props) {
+  const { t } = useI18n();
+  const [startDraft, setStartDraft] = useState<string>(
+    protocol?.startDate ?? today
+  );
+  const [phases, setPhases] = useState<PhaseDraft[]>(() =>
+    (protocol?.phases ?? DEFAULT_PROTOCOL_PHASES).map(toDraft)
+  );
+  const [repeatFrom, setRepeatFrom] = useState<number | null>(
+    protocol?.repeatFrom ?? null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  function updatePhase(index: number, patch: Partial<PhaseDraft>) {
+    setError(null);
+    setPhases((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...patch } : p))
+    );
+  }
+
+  function addPhase(kind: ProtocolPhaseKind) {
+    setError(null);
+    setPhases((prev) => [...prev, toDraft(PROTOCOL_PHASE_DEFAULTS[kind])]);
+  }
+
+  function removePhase(index: number) {
+    setError(null);
+    setPhases((prev) => prev.filter((_, i) => i !== index));
+    setRepeatFrom((prev) =>
+      prev === null || prev === index ? null : prev > index ? prev - 1 : prev
+    );
+  }
+
+  function save() {
+    setError(null);
+    if (!isISODateKey(startDraft)) {
+      setError(t("common.invalidDate"));
+      return;
+    }
+    if (phases.length === 0) {
+      setError(t("protocol.noPhases"));
+      return;
+    }
+    const parsed: ProtocolPhase[] = [];
+    for (const [i, draft] of phases.entries()) {
+      const off = draft.kind === "off";
+      // Only the last phase of a plan that doesn't repeat may run on indefinitely.
+      let days: number | null = null;
+      if (draft.days.trim() !== "" || i < phases.length - 1 || repeatFrom !== null) {
+        const n = Number(draft.days);
+        if (!Number.isInteger(n) || n <= 0) {
+          setError(t("protocol.invalidDays", { phase: i + 1 }));
+          return;
+        }
+        days = n;
+      }
+      const dosesPerDay = off ? 0 : Number(draft.dosesPerDay);
+      if (!off && (!Number.isInteger(dosesPerDay) || dosesPerDay <= 0)) {
+        setError(t("protocol.invalidDoses", { phase: i + 1 }));
+        return;
+      }
+      let gramsPerDose: number | null = null;
+      if (!off && draft.gramsPerDose.trim() !== "") {
+        const n = Number(draft.gramsPerDose);
+        if (!Number.isFinite(n) || n <= 0) {
+          setError(t("protocol.invalidGrams", { phase: i + 1 }));
+          return;
+        }
+        gramsPerDose = n;
+      }
+      parsed.push({ kind: draft.kind, days, dosesPerDay, gramsPerDose });
+    }
+    onChange({ startDate: startDraft, phases: parsed, repeatFrom });
+  }
+
+  return (
+    <div className="targetPanel" aria-label={t("protocol.panel")}>
+      <div className="historyNote">
+        {protocol ? t("protocol.note") : t("protocol.empty")}
+      </div>
+
+      <label className="historyLabel">
+        {t("protocol.starting")}
+        <input
+          className="dateInput"
+          type="date"
+          value={startDraft}
+          onChange={(e) => {
+            setError(null);
+            setStartDraft(e.target.value);
+          }}
+        />
+      </label>
+
+      <ul className="targetList">
+        {phases.map((phase, i) => (
+          <li key={i} className="targetRow protocolRow">
+            <select
+              className="selectInput"
+              value={phase.kind}
+              onChange={(e) =>
+                updatePhase(i, { kind: e.target.value as ProtocolPhaseKind })
+              }
+              aria-label={t("protocol.kindFor", { phase: i + 1 })}
+            >
+              {PROTOCOL_PHASE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {t(PROTOCOL_PHASE_LABEL[kind])}
+                </option>
+              ))}
+            </select>
+            <label className="historyLabel">
+              {t("protocol.days")}
+              <input
+                className="gramsInput"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                step={1}
+                placeholder={t("protocol.ongoing")}
+                value={phase.days}
+                onChange={(e) => updatePhase(i, { days: e.target.value })}
+              />
+            </label>
+            {phase.kind !== "off" ? (
+              <>
+                <label className="historyLabel">
+                  {t("protocol.dosesPerDay")}
+                  <input
+                    className="gramsInput"
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    step={1}
+                    value={phase.dosesPerDay}
+                    onChange={(e) =>
+                      updatePhase(i, { dosesPerDay: e.target.value })
+                    }
+                  />
+                </label>
+                <label className="historyLabel">
+                  {t("protocol.gramsPerDose")}
+                  <input
+                    className="gramsInput"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step={0.5}
+                    placeholder={t("target.placeholder")}
+                    value={phase.gramsPerDose}
+                    onChange={(e) =>
+                      updatePhase(i, { gramsPerDose: e.target.value })
+                    }
+                  />
+                </label>
+              </>
+            ) : null}
+            <button
+              className="secondary subtle"
+              onClick={() => removePhase(i)}
+            >
+              {t("common.remove")}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="doseAdd">
+        {PROTOCOL_PHASE_KINDS.map((kind) => (
+          <button
+            key={kind}
+            className="secondary subtle"
+            onClick={() => addPhase(kind)}
+          >
+            {t("protocol.addPhase", { phase: t(PROTOCOL_PHASE_LABEL[kind]) })}
+          </button>
+        ))}
+      </div>
+
+      <label className="historyLabel">
+        {t("protocol.repeat")}
+        <select
+          className="selectInput"
+          value={repeatFrom ?? ""}
+          onChange={(e) => {
+            setError(null);
+            setRepeatFrom(e.target.value === "" ? null : Number(e.target.value));
+          }}
+        >
+          <option value="">{t("protocol.noRepeat")}</option>
+          {phases.map((phase, i) => (
+            <option key={i} value={i}>
+              {t("protocol.repeatFrom", {
+                index: i + 1,
+                phase: t(PROTOCOL_PHASE_LABEL[phase.kind]),
+              })}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="doseAdd">
+        <button className="secondary" onClick={save}>
+          {t("protocol.save")}
+        </button>
+        {protocol ? (
+          <button className="secondary subtle" onClick={() => onChange(null)}>
+            {t("protocol.remove")}
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div className="inlineError">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import {
+  formatHumanTime,
+  isReminderTime,
+  type ReminderSettings,
+  type DisplaySettings,
+} from "../lib/creatine";
+import {
+  getReminderDelivery,
+  requestNotificationPermission,
+  type ReminderDelivery,
+} from "../lib/reminders";
+import type { MessageKey } from "../lib/i18n";
+import { useI18n } from "../i18n";
+
+type Props = {
+  reminders: ReminderSettings;
+  trackerName: string;
+  onChange: (reminders: ReminderSettings) => void;
+};
+
+const DELIVERY_NOTE: Record<ReminderDelivery, MessageKey> = {
+  triggers: "reminders.delivery.triggers",
+  "periodic-sync": "reminders.delivery.periodic-sync",
+  "on-open": "reminders.delivery.on-open",
+  unsupported: "reminders.delivery.unsupported",
+};
+
+function formatReminderTime(time: string, display: DisplaySettings) {
+  const [h, m] = time.split(":").map(Number);
+  return formatHumanTime(new Date(2000, 0, 1, h, m), display);
+}
+
+export function RemindersPanel({ reminders, trackerName, onChange }: Props) {
+  const { t, display } = useI18n();
+  const [draft, setDraft] = useState("09:00");
+  const [error, setError] = useState<string | null>(null);
+  const delivery = getReminderDelivery();
+
+  async function toggleEnabled(enabled: boolean) {
+    setError(null);
+    if (enabled && !(await requestNotificationPermission())) {
+      setError(t("reminders.blocked"));
+      return;
+    }
+    onChange({ ...reminders, enabled });
+  }
+
+  function addTime() {
+    setError(null);
+    if (!isReminderTime(draft)) {
+      setError(t("reminders.invalidTime"));
+      return;
+    }
+    if (reminders.times.includes(draft)) return;
+    onChange({ ...reminders, times: [...reminders.times, draft].sort() });
+  }
+
+  function removeTime(time: string) {
+    onChange({
+      ...reminders,
+      times: reminders.times.filter((x) => x !== time),
+    });
+  }
+
+  return (
+    <div className="targetPanel" aria-label={t("reminders.panel")}>
+      <label className="checkboxLabel">
+        <input
+          type="checkbox"
+          checked={reminders.enabled}
+          disabled={delivery === "unsupported"}
+          onChange={(e) => void toggleEnabled(e.target.checked)}
+        />
+        {t("reminders.enable", { tracker: trackerName })}
+      </label>
+
+      {reminders.times.length > 0 ? (
+        <ul className="targetList">
+          {reminders.times.map((time) => (
+            <li key={time} className="targetRow">
+              <strong>{formatReminderTime(time, display)}</strong>
+              <button
+                className="secondary subtle"
+                onClick={() => removeTime(time)}
+              >
+                {t("common.remove")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="doseEmpty">{t("reminders.empty")}</div>
+      )}
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("reminders.time")}
+          <input
+            className="dateInput"
+            type="time"
+            value={draft}
+            onChange={(e) => {
+              setError(null);
+              setDraft(e.target.value);
+            }}
+          />
+        </label>
+        <button className="secondary" onClick={addTime}>
+          {t("reminders.addTime")}
+        </button>
+      </div>
+
+      <div className="historyNote">{t(DELIVERY_NOTE[delivery])}</div>
+
+      {error ? <div className="inlineError">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useMemo } from "react";
+import {
+  DATE_FORMATS,
+  formatHumanDate,
+  formatHumanTime,
+  HISTORY_FILTER_DEFAULTS,
+  HISTORY_VIEWS,
+  isWeekday,
+  THEMES,
+  TIME_FORMATS,
+  WEIGHT_UNITS,
+  type Settings,
+} from "../lib/creatine";
+import {
+  getBrowserLanguages,
+  isLocale,
+  LOCALE_NAMES,
+  LOCALES,
+  matchLocale,
+} from "../lib/i18n";
+import { useI18n } from "../i18n";
+
+type Props = {
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+};
+
+// Sample shown next to each date/time format: 5 Jan 2026, 16:30.
+const SAMPLE = new Date(2026, 0, 5, 16, 30);
+
+function weekdayNames(locale: string | undefined) {
+  const fmt = new Intl.DateTimeFormat(locale, { weekday: "long" });
+  // Jan 4, 2026 is a Sunday, matching Date#getDay index 0.
+  return Array.from({ length: 7 }, (_, i) =>
+    fmt.format(new Date(2026, 0, 4 + i, 12))
+  );
+}
+
+export function SettingsPanel({ settings, onChange }: Props) {
+  const { t, display } = useI18n();
+  const intlLocale = display.locale;
+  const weekdays = useMemo(() => weekdayNames(intlLocale), [intlLocale]);
+
+  return (
+    <div className="targetPanel" aria-label={t("settings.panel")}>
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("settings.theme")}
+          <select
+            className="selectInput"
+            value={settings.theme}
+            onChange={(e) =>
+              onChange({
+                theme:
+                  THEMES.find((v) => v === e.target.value) ?? settings.theme,
+              })
+            }
+          >
+            {THEMES.map((theme) => (
+              <option key={theme} value={theme}>
+                {t(`settings.theme.${theme}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("app.language")}
+          <select
+            className="selectInput"
+            value={settings.locale ?? ""}
+            onChange={(e) => {
+              const value = e.target.value;
+              onChange({ locale: isLocale(value) ? value : null });
+            }}
+          >
+            <option value="">
+              {t("app.language.auto", {
+                name: LOCALE_NAMES[matchLocale(getBrowserLanguages())],
+              })}
+            </option>
+            {LOCALES.map((l) => (
+              <option key={l} value={l} lang={l}>
+                {LOCALE_NAMES[l]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("settings.weekStart")}
+          <select
+            className="selectInput"
+            value={settings.weekStart}
+            onChange={(e) => {
+              const day = Number(e.target.value);
+              if (isWeekday(day)) onChange({ weekStart: day });
+            }}
+          >
+            {weekdays.map((name, day) => (
+              <option key={day} value={day}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("settings.timeFormat")}
+          <select
+            className="selectInput"
+            value={settings.timeFormat}
+            onChange={(e) =>
+              onChange({
+                timeFormat:
+                  TIME_FORMATS.find((v) => v === e.target.value) ??
+                  settings.timeFormat,
+              })
+            }
+          >
+            {TIME_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {t(`settings.timeFormat.${format}`, {
+                  example: formatHumanTime(SAMPLE, {
+                    ...display,
+                    timeFormat: format,
+                  }),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("settings.dateFormat")}
+          <select
+            className="selectInput"
+            value={settings.dateFormat}
+            onChange={(e) =>
+              onChange({
+                dateFormat:
+                  DATE_FORMATS.find((v) => v === e.target.value) ??
+                  settings.dateFormat,
+              })
+            }
+          >
+            {DATE_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {t(`settings.dateFormat.${format}`, {
+                  example: formatHumanDate(SAMPLE, {
+                    ...display,
+                    dateFormat: format,
+                  }),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("settings.historyView")}
+          <select
+            className="selectInput"
+            value={settings.historyView}
+            onChange={(e) =>
+              onChange({
+                historyView:
+                  HISTORY_VIEWS.find((v) => v === e.target.value) ??
+                  settings.historyView,
+              })
+            }
+          >
+            {HISTORY_VIEWS.map((view) => (
+              <option key={view} value={view}>
+                {t(`history.view.${view}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("settings.historyFilter")}
+          <select
+            className="selectInput"
+            value={settings.historyFilter}
+            onChange={(e) =>
+              onChange({
+                historyFilter:
+                  HISTORY_FILTER_DEFAULTS.find((v) => v === e.target.value) ??
+                  settings.historyFilter,
+              })
+            }
+          >
+            {HISTORY_FILTER_DEFAULTS.map((filter) => (
+              <option key={filter} value={filter}>
+                {t(`settings.historyFilter.${filter}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="historyLabel">
+          {t("settings.weightUnit")}
+          <select
+            className="selectInput"
+            value={settings.weightUnit}
+            onChange={(e) =>
+              onChange({
+                weightUnit:
+                  WEIGHT_UNITS.find((v) => v === e.target.value) ??
+                  settings.weightUnit,
+              })
+            }
+          >
+            {WEIGHT_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {t(`settings.weightUnit.${unit}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="historyNote">{t("settings.note")}</div>
+    </div>
+  );
+}
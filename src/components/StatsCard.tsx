@@ -0,0 +1,189 @@
+import { useMemo } from "react";
+import {
+  formatHumanTime,
+  type DisplaySettings,
+  type ISODate,
+  type Tracker,
+  type Weekday,
+} from "../lib/creatine";
+import {
+  ADHERENCE_WINDOWS,
+  computeAdherence,
+  computeRangeStats,
+  type DateRange,
+} from "../lib/stats";
+import { computeSpend, formatMoney } from "../lib/inventory";
+import { useI18n } from "../i18n";
+
+type Props = {
+  tracker: Tracker;
+  today: ISODate;
+  // Range selected by the History month filter (applies to everything but rolling adherence).
+  range: DateRange;
+  rangeLabel: string;
+  // The weekday bars start on this day.
+  weekStart: Weekday;
+  // Home zone of the day boundary (null: the device's), for dose times recorded without a zone.
+  homeZone: string | null;
+};
+
+function formatPercent(p: number | null) {
+  return p === null ? "—" : `${Math.round(p)}%`;
+}
+
+function formatMinutesOfDay(minutes: number, display: DisplaySettings) {
+  return formatHumanTime(
+    new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60),
+    display
+  );
+}
+
+function weekdayNames(locale: string | undefined) {
+  const fmt = new Intl.DateTimeFormat(locale, { weekday: "short" });
+  // Jan 4, 2026 is a Sunday, matching Date#getDay index 0.
+  return Array.from({ length: 7 }, (_, i) =>
+    fmt.format(new Date(2026, 0, 4 + i, 12))
+  );
+}
+
+export function StatsCard({
+  tracker,
+  today,
+  range,
+  rangeLabel,
+  weekStart,
+  homeZone,
+}: Props) {
+  const { t, display } = useI18n();
+  const intlLocale = display.locale;
+  const rolling = useMemo(
+    () => [
+      ...ADHERENCE_WINDOWS.map((w) => computeAdherence(tracker, today, w)),
+      computeAdherence(tracker, today, null),
+    ],
+    [tracker, today]
+  );
+  const stats = useMemo(
+    () => computeRangeStats(tracker, today, range, homeZone),
+    [tracker, today, range, homeZone]
+  );
+  const spend = useMemo(
+    () => computeSpend(tracker, today, range),
+    [tracker, today, range]
+  );
+  const weekdays = useMemo(() => weekdayNames(intlLocale), [intlLocale]);
+  const maxMisses = Math.max(...stats.missesByWeekday);
+
+  return (
+    <section
+      id="stats"
+      className="card statsCard"
+      aria-label={t("stats.section")}
+    >
+      <div className="historyHeaderTop">
+        <h2 className="h2">{t("stats.heading")}</h2>
+      </div>
+
+      <div className="statsGrid">
+        {rolling.map((a) => (
+          <div key={a.windowDays ?? "all"} className="streakBox">
+            <div className="streakLabel">
+              {a.windowDays === null
+                ? t("stats.allTime")
+                : t("stats.lastDays", { count: a.windowDays })}
+            </div>
+            <div className="streakValue">{formatPercent(a.percent)}</div>
+            <div className="streakRange">
+              {t("stats.takenOfTotal", { taken: a.taken, total: a.total })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="historyNote">{rangeLabel}</div>
+
+      <div className="statsGrid">
+        <div className="streakBox">
+          <div className="streakLabel">{t("stats.daysTaken")}</div>
+          <div className="streakValue">{stats.takenDays}</div>
+          <div className="streakRange">
+            {t("stats.ofTracked", { count: stats.trackedDays })}
+            {stats.restDays > 0
+              ? t("stats.restDays", { count: stats.restDays })
+              : ""}
+          </div>
+        </div>
+        <div className="streakBox">
+          <div className="streakLabel">{t("stats.usualTime")}</div>
+          <div className="streakValue">
+            {stats.timeOfDay.meanMinutes !== null
+              ? formatMinutesOfDay(stats.timeOfDay.meanMinutes, display)
+              : t("common.none")}
+          </div>
+          <div className="streakRange">
+            {stats.timeOfDay.spreadMinutes !== null
+              ? t("stats.spread", {
+                  minutes: stats.timeOfDay.spreadMinutes,
+                  count: stats.timeOfDay.samples,
+                })
+              : t("stats.noTimes")}
+          </div>
+        </div>
+        <div className="streakBox">
+          <div className="streakLabel">{t("stats.gaps")}</div>
+          <div className="streakValue">{stats.gaps.count}</div>
+          <div className="streakRange">
+            {stats.gaps.count > 0
+              ? t("stats.longestGap", {
+                  days: stats.gaps.longest,
+                  lengths: stats.gaps.lengths.join(", "),
+                })
+              : t("stats.noGaps")}
+          </div>
+        </div>
+        {spend.costPerServing !== null ? (
+          <div className="streakBox">
+            <div className="streakLabel">{t("stats.costPerServing")}</div>
+            <div className="streakValue">
+              {formatMoney(spend.costPerServing, intlLocale)}
+            </div>
+            <div className="streakRange">
+              {spend.monthlySpend !== null
+                ? t("stats.perMonth", {
+                    amount: formatMoney(spend.monthlySpend, intlLocale),
+                  })
+                : ""}
+              {spend.rangeSpend !== null
+                ? t("stats.inRange", {
+                    amount: formatMoney(spend.rangeSpend, intlLocale),
+                  })
+                : ""}
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="weekdayBars" aria-label={t("stats.missesByWeekday")}>
+        {stats.missesByWeekday.map((_, offset) => {
+          const i = (weekStart + offset) % 7;
+          const misses = stats.missesByWeekday[i];
+          return (
+            <div key={i} className="weekdayBar">
+              <div className="weekdayTrack">
+                <div
+                  className="weekdayFill"
+                  style={{
+                    height:
+                      maxMisses > 0 ? `${(misses / maxMisses) * 100}%` : 0,
+                  }}
+                />
+              </div>
+              <div className="weekdayCount">{misses}</div>
+              <div className="weekdayName">{weekdays[i]}</div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import {
+  formatGrams,
+  formatHumanDate,
+  isISODateKey,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type Supply,
+} from "../lib/creatine";
+import { formatMoney, type InventoryStatus } from "../lib/inventory";
+import { useI18n } from "../i18n";
+
+type Props = {
+  today: ISODate;
+  supplies: Supply[];
+  inventory: InventoryStatus | null;
+  lowSupplyDays: number;
+  onAddSupply: (supply: Omit<Supply, "id">) => void;
+  onRemoveSupply: (id: string) => void;
+  onLowSupplyDaysChange: (days: number) => void;
+};
+
+export function SupplyPanel({
+  today,
+  supplies,
+  inventory,
+  lowSupplyDays,
+  onAddSupply,
+  onRemoveSupply,
+  onLowSupplyDaysChange,
+}: Props) {
+  const { t, display } = useI18n();
+  const [gramsDraft, setGramsDraft] = useState("");
+  const [dateDraft, setDateDraft] = useState<string>(today);
+  const [priceDraft, setPriceDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function add() {
+    setError(null);
+    const grams = Number(gramsDraft);
+    if (gramsDraft.trim() === "" || !Number.isFinite(grams) || grams <= 0) {
+      setError(t("supply.invalidSize"));
+      return;
+    }
+    if (!isISODateKey(dateDraft)) {
+      setError(t("supply.invalidDate"));
+      return;
+    }
+    let price: number | null = null;
+    if (priceDraft.trim() !== "") {
+      const n = Number(priceDraft.replace(",", "."));
+      if (!Number.isFinite(n) || n < 0) {
+        setError(t("supply.invalidPrice"));
+        return;
+      }
+      price = n;
+    }
+    onAddSupply({ grams, purchasedOn: dateDraft, price });
+    setGramsDraft("");
+    setPriceDraft("");
+  }
+
+  return (
+    <div className="targetPanel" aria-label={t("supply.panel")}>
+      {inventory ? (
+        <div className="historyNote">
+          {t("supply.left", {
+            grams: formatGrams(inventory.remainingGrams),
+            count: inventory.remainingServings,
+            serving: formatGrams(inventory.servingGrams),
+          })}
+          {inventory.runOutDate
+            ? t("supply.runsOut", {
+                date: formatHumanDate(
+                  makeLocalNoonDateFromISO(inventory.runOutDate),
+                  display
+                ),
+              })
+            : ""}
+        </div>
+      ) : null}
+
+      {supplies.length > 0 ? (
+        <ul className="targetList">
+          {supplies
+            .slice()
+            .reverse()
+            .map((s) => (
+              <li key={s.id} className="targetRow">
+                <span>
+                  {formatHumanDate(
+                    makeLocalNoonDateFromISO(s.purchasedOn),
+                    display
+                  )}
+                  :{" "}
+                  <strong>{formatGrams(s.grams)}</strong>
+                  {s.price !== null
+                    ? ` · ${formatMoney(s.price, display.locale)}`
+                    : ""}
+                </span>
+                <button
+                  className="secondary subtle"
+                  onClick={() => onRemoveSupply(s.id)}
+                >
+                  {t("common.remove")}
+                </button>
+              </li>
+            ))}
+        </ul>
+      ) : (
+        <div className="doseEmpty">{t("supply.empty")}</div>
+      )}
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("supply.size")}
+          <input
+            className="gramsInput"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={50}
+            placeholder="500"
+            value={gramsDraft}
+            onChange={(e) => {
+              setError(null);
+              setGramsDraft(e.target.value);
+            }}
+          />
+        </label>
+        <label className="historyLabel">
+          {t("supply.boughtOn")}
+          <input
+            className="dateInput"
+            type="date"
+            value={dateDraft}
+            onChange={(e) => {
+              setError(null);
+              setDateDraft(e.target.value);
+            }}
+          />
+        </label>
+        <label className="historyLabel">
+          {t("supply.price")}
+          <input
+            className="gramsInput"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={0.01}
+            placeholder={t("supply.pricePlaceholder")}
+            value={priceDraft}
+            onChange={(e) => {
+              setError(null);
+              setPriceDraft(e.target.value);
+            }}
+          />
+        </label>
+        <button className="secondary" onClick={add}>
+          {t("supply.add")}
+        </button>
+      </div>
+
+      <label className="historyLabel">
+        {t("supply.warnDays")}
+        <input
+          className="gramsInput"
+          type="number"
+          inputMode="numeric"
+          min={0}
+          step={1}
+          value={lowSupplyDays}
+          onChange={(e) => {
+            const n = Number(e.target.value);
+            if (Number.isInteger(n) && n >= 0) onLowSupplyDaysChange(n);
+          }}
+        />
+      </label>
+
+      {error ? <div className="inlineError">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import type { HttpSyncConfig } from "../lib/sync";
+import { useI18n } from "../i18n";
+
+type Props = {
+  config: HttpSyncConfig | null;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+  onSaveConfig: (config: HttpSyncConfig | null) => void;
+  onSync: () => void;
+};
+
+export function SyncPanel({
+  config,
+  syncing,
+  lastSyncedAt,
+  error,
+  onSaveConfig,
+  onSync,
+}: Props) {
+  const { t, display } = useI18n();
+  const [urlDraft, setUrlDraft] = useState(config?.url ?? "");
+  const [tokenDraft, setTokenDraft] = useState(config?.token ?? "");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  function save() {
+    setFormError(null);
+    const url = urlDraft.trim();
+    if (!url) {
+      onSaveConfig(null);
+      return;
+    }
+    try {
+      new URL(url);
+    } catch {
+      setFormError(t("sync.invalidUrl"));
+      return;
+    }
+    onSaveConfig({ url, token: tokenDraft.trim() || undefined });
+  }
+
+  return (
+    <div className="targetPanel" aria-label={t("sync.panel")}>
+      <label className="historyLabel">
+        {t("sync.endpoint")}
+        <input
+          className="textInput"
+          type="url"
+          placeholder="https://example.com/save"
+          value={urlDraft}
+          onChange={(e) => setUrlDraft(e.target.value)}
+        />
+      </label>
+      <label className="historyLabel">
+        {t("sync.token")}
+        <input
+          className="textInput"
+          type="password"
+          autoComplete="off"
+          value={tokenDraft}
+          onChange={(e) => setTokenDraft(e.target.value)}
+        />
+      </label>
+      <div className="doseAdd">
+        <button className="secondary" onClick={save}>
+          {t("sync.saveEndpoint")}
+        </button>
+        <button
+          className="secondary"
+          onClick={onSync}
+          disabled={!config || syncing}
+        >
+          {syncing ? t("sync.syncing") : t("sync.now")}
+        </button>
+      </div>
+      <div className="historyNote">
+        {lastSyncedAt !== null
+          ? t("sync.lastSynced", {
+              time: new Date(lastSyncedAt).toLocaleString(display.locale),
+            })
+          : t("sync.note")}
+      </div>
+      {formError || error ? (
+        <div className="inlineError">{formError ?? error}</div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import {
+  formatGrams,
+  formatHumanDate,
+  isISODateKey,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type PartialDayPolicy,
+  type TargetChange,
+} from "../lib/creatine";
+import { useI18n } from "../i18n";
+
+type Props = {
+  today: ISODate;
+  targets: TargetChange[];
+  partialDays: PartialDayPolicy;
+  onSetTarget: (from: ISODate, grams: number | null) => void;
+  onRemoveTarget: (from: ISODate) => void;
+  onPartialDaysChange: (policy: PartialDayPolicy) => void;
+};
+
+export function TargetPanel({
+  today,
+  targets,
+  partialDays,
+  onSetTarget,
+  onRemoveTarget,
+  onPartialDaysChange,
+}: Props) {
+  const { t, display } = useI18n();
+  const [gramsDraft, setGramsDraft] = useState("");
+  const [fromDraft, setFromDraft] = useState<string>(today);
+  const [error, setError] = useState<string | null>(null);
+
+  function apply() {
+    setError(null);
+    if (!isISODateKey(fromDraft)) {
+      setError(t("common.invalidDate"));
+      return;
+    }
+    // An empty amount clears the target from that day on.
+    let grams: number | null = null;
+    if (gramsDraft.trim() !== "") {
+      const n = Number(gramsDraft);
+      if (!Number.isFinite(n) || n <= 0) {
+        setError(t("target.invalidGrams"));
+        return;
+      }
+      grams = n;
+    }
+    onSetTarget(fromDraft, grams);
+    setGramsDraft("");
+  }
+
+  return (
+    <div className="targetPanel" aria-label={t("target.panel")}>
+      {targets.length > 0 ? (
+        <ul className="targetList">
+          {targets
+            .slice()
+            .reverse()
+            .map((target) => (
+              <li key={target.from} className="targetRow">
+                <span>
+                  {t("target.from", {
+                    date: formatHumanDate(
+                      makeLocalNoonDateFromISO(target.from),
+                      display
+                    ),
+                  })}{" "}
+                  <strong>
+                    {target.grams !== null
+                      ? formatGrams(target.grams)
+                      : t("target.none")}
+                  </strong>
+                </span>
+                <button
+                  className="secondary subtle"
+                  onClick={() => onRemoveTarget(target.from)}
+                >
+                  {t("common.remove")}
+                </button>
+              </li>
+            ))}
+        </ul>
+      ) : (
+        <div className="doseEmpty">{t("target.empty")}</div>
+      )}
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("target.grams")}
+          <input
+            className="gramsInput"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={0.5}
+            placeholder={t("target.placeholder")}
+            value={gramsDraft}
+            onChange={(e) => {
+              setError(null);
+              setGramsDraft(e.target.value);
+            }}
+          />
+        </label>
+        <label className="historyLabel">
+          {t("target.starting")}
+          <input
+            className="dateInput"
+            type="date"
+            value={fromDraft}
+            onChange={(e) => {
+              setError(null);
+              setFromDraft(e.target.value);
+            }}
+          />
+        </label>
+        <button className="secondary" onClick={apply}>
+          {t("target.set")}
+        </button>
+      </div>
+
+      <label className="checkboxLabel">
+        <input
+          type="checkbox"
+          checked={partialDays === "keep"}
+          onChange={(e) =>
+            onPartialDaysChange(e.target.checked ? "keep" : "break")
+          }
+        />
+        {t("target.partialKeeps")}
+      </label>
+
+      {error ? <div className="inlineError">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import {
+  computeCurrentStreak,
+  getDayStatus,
+  type DayStatus,
+  type ISODate,
+  type Tracker,
+} from "../lib/creatine";
+import type { MessageKey } from "../lib/i18n";
+import { useI18n } from "../i18n";
+
+type Props = {
+  trackers: Tracker[];
+  activeTrackerId: string;
+  today: ISODate;
+  onSelect: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+};
+
+const STATUS_TEXT: Record<DayStatus, MessageKey> = {
+  met: "trackers.status.met",
+  partial: "trackers.status.partial",
+  missed: "trackers.status.missed",
+};
+
+export function TrackerOverview({
+  trackers,
+  activeTrackerId,
+  today,
+  onSelect,
+  onAdd,
+  onRename,
+  onRemove,
+}: Props) {
+  const { t } = useI18n();
+  const [nameDraft, setNameDraft] = useState("");
+  const [renaming, setRenaming] = useState(false);
+  const [renameDraft, setRenameDraft] = useState("");
+  const active = trackers.find((tr) => tr.id === activeTrackerId);
+
+  function submitAdd() {
+    const name = nameDraft.trim();
+    if (!name) return;
+    onAdd(name);
+    setNameDraft("");
+  }
+
+  function submitRename() {
+    const name = renameDraft.trim();
+    if (active && name) onRename(active.id, name);
+    setRenaming(false);
+  }
+
+  return (
+    <section className="card trackerCard" aria-label={t("trackers.section")}>
+      <div className="historyHeaderTop">
+        <h2 className="h2">{t("trackers.heading")}</h2>
+      </div>
+
+      <ul className="trackerList">
+        {trackers.map((tr) => {
+          const status = getDayStatus(tr, today);
+          const streak = computeCurrentStreak(tr, today);
+          const selected = tr.id === activeTrackerId;
+          return (
+            <li key={tr.id}>
+              <button
+                className={selected ? "trackerItem selected" : "trackerItem"}
+                onClick={() => onSelect(tr.id)}
+                aria-pressed={selected}
+              >
+                <span className="trackerName">{tr.name}</span>
+                <span className="trackerStatus" data-state={status}>
+                  <span className="trackerDot" aria-hidden="true" />
+                  {t(STATUS_TEXT[status])}
+                </span>
+                <span className="trackerStreak">
+                  {t("trackers.streak", { count: streak.length })}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="trackerManage">
+        <div className="doseAdd">
+          <input
+            className="textInput"
+            type="text"
+            placeholder={t("trackers.namePlaceholder")}
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitAdd();
+            }}
+            aria-label={t("trackers.newName")}
+          />
+          <button className="secondary" onClick={submitAdd}>
+            {t("trackers.add")}
+          </button>
+        </div>
+
+        {active ? (
+          renaming ? (
+            <div className="doseAdd">
+              <input
+                className="textInput"
+                type="text"
+                value={renameDraft}
+                onChange={(e) => setRenameDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") submitRename();
+                }}
+                aria-label={t("trackers.rename", { name: active.name })}
+              />
+              <button className="secondary" onClick={submitRename}>
+                {t("common.save")}
+              </button>
+            </div>
+          ) : (
+            <div className="doseAdd">
+              <button
+                className="secondary subtle"
+                onClick={() => {
+                  setRenameDraft(active.name);
+                  setRenaming(true);
+                }}
+              >
+                {t("trackers.rename", { name: active.name })}
+              </button>
+              <button
+                className="secondary subtle"
+                onClick={() => onRemove(active.id)}
+                disabled={trackers.length <= 1}
+              >
+                {t("trackers.delete", { name: active.name })}
+              </button>
+            </div>
+          )
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,212 @@
+import { useMemo, useState } from "react";
+import {
+  daysBetween,
+  formatGrams,
+  formatHumanDate,
+  isISODateKey,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type SaveData,
+  type WeightUnit,
+  type DisplaySettings,
+} from "../lib/creatine";
+import {
+  computeWeightChange,
+  formatWeight,
+  getWeightEntries,
+  recommendDose,
+  toKg,
+  type WeightEntry,
+} from "../lib/weight";
+import { useI18n } from "../i18n";
+
+type Props = {
+  save: SaveData;
+  today: ISODate;
+  // Weight change is measured from this day (the active tracker's first tracked day).
+  since: ISODate;
+  unit: WeightUnit;
+  onSetWeight: (date: ISODate, kg: number | null) => void;
+};
+
+// Entries listed under the chart, newest first.
+const RECENT_ENTRIES = 5;
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+function formatDay(key: ISODate, display: DisplaySettings) {
+  return formatHumanDate(makeLocalNoonDateFromISO(key), display);
+}
+
+// Polyline points, x by date and y by weight, with the range padded so a flat line sits mid-chart.
+function chartPoints(entries: WeightEntry[]) {
+  const first = entries[0].date;
+  const span = Math.max(daysBetween(first, entries[entries.length - 1].date), 1);
+  const kgs = entries.map((e) => e.kg);
+  const min = Math.min(...kgs) - 0.5;
+  const max = Math.max(...kgs) + 0.5;
+  return entries
+    .map((e) => {
+      const x = (daysBetween(first, e.date) / span) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((e.kg - min) / (max - min)) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export function WeightCard({ save, today, since, unit, onSetWeight }: Props) {
+  const { t, display } = useI18n();
+  const [valueDraft, setValueDraft] = useState("");
+  const [dateDraft, setDateDraft] = useState<string>(today);
+  const [error, setError] = useState<string | null>(null);
+  const entries = useMemo(() => getWeightEntries(save, today), [save, today]);
+  const change = useMemo(
+    () => computeWeightChange(save, since, today),
+    [save, since, today]
+  );
+  const recommendation = useMemo(
+    () => recommendDose(save, today),
+    [save, today]
+  );
+  const latest = entries.at(-1) ?? null;
+
+  function log() {
+    setError(null);
+    const value = Number(valueDraft.replace(",", "."));
+    if (valueDraft.trim() === "" || !Number.isFinite(value) || value <= 0) {
+      setError(t("weight.invalid"));
+      return;
+    }
+    if (!isISODateKey(dateDraft)) {
+      setError(t("common.invalidDate"));
+      return;
+    }
+    onSetWeight(dateDraft, toKg(value, unit));
+    setValueDraft("");
+  }
+
+  return (
+    <section className="card statsCard" aria-label={t("weight.section")}>
+      <div className="historyHeaderTop">
+        <h2 className="h2">{t("weight.section")}</h2>
+      </div>
+
+      {latest ? (
+        <div className="statsGrid">
+          <div className="streakBox">
+            <div className="streakLabel">{t("weight.latest")}</div>
+            <div className="streakValue">
+              {formatWeight(latest.kg, unit, display.locale)}
+            </div>
+            <div className="streakRange">{formatDay(latest.date, display)}</div>
+          </div>
+          <div className="streakBox">
+            <div className="streakLabel">{t("weight.change")}</div>
+            <div className="streakValue">
+              {change ? formatWeight(change.kg, unit, display.locale, true) : "—"}
+            </div>
+            <div className="streakRange">
+              {change
+                ? t("weight.changeSince", {
+                    date: formatDay(change.from.date, display),
+                  })
+                : t("weight.changeEmpty")}
+            </div>
+          </div>
+          {recommendation ? (
+            <div className="streakBox">
+              <div className="streakLabel">{t("weight.recommended")}</div>
+              <div className="streakValue">
+                {t("weight.perDay", {
+                  grams: formatGrams(recommendation.maintenanceGrams),
+                })}
+              </div>
+              <div className="streakRange">
+                {t("weight.loading", {
+                  grams: formatGrams(recommendation.loadingGrams),
+                })}
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : (
+        <div className="doseEmpty">{t("weight.empty")}</div>
+      )}
+
+      {entries.length > 1 ? (
+        <svg
+          className="weightChart"
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={t("weight.chart", {
+            start: formatDay(entries[0].date, display),
+            end: formatDay(entries[entries.length - 1].date, display),
+          })}
+        >
+          <polyline points={chartPoints(entries)} />
+        </svg>
+      ) : null}
+
+      {entries.length > 0 ? (
+        <ul className="targetList">
+          {entries
+            .slice(-RECENT_ENTRIES)
+            .reverse()
+            .map((e) => (
+              <li key={e.date} className="targetRow">
+                <span>
+                  {formatDay(e.date, display)}:{" "}
+                  <strong>{formatWeight(e.kg, unit, display.locale)}</strong>
+                </span>
+                <button
+                  className="secondary subtle"
+                  onClick={() => onSetWeight(e.date, null)}
+                >
+                  {t("common.remove")}
+                </button>
+              </li>
+            ))}
+        </ul>
+      ) : null}
+
+      <div className="targetForm">
+        <label className="historyLabel">
+          {t("weight.value", { unit })}
+          <input
+            className="gramsInput"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={0.1}
+            value={valueDraft}
+            onChange={(e) => {
+              setError(null);
+              setValueDraft(e.target.value);
+            }}
+          />
+        </label>
+        <label className="historyLabel">
+          {t("weight.on")}
+          <input
+            className="dateInput"
+            type="date"
+            value={dateDraft}
+            onChange={(e) => {
+              setError(null);
+              setDateDraft(e.target.value);
+            }}
+          />
+        </label>
+        <button className="secondary" onClick={log}>
+          {t("weight.log")}
+        </button>
+      </div>
+
+      <div className="historyNote">{t("weight.note")}</div>
+
+      {error ? <div className="inlineError">{error}</div> : null}
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo } from "react";
+import { buildYearHeatmapWeeks, computeHeatLevels } from "../lib/calendar";
+import {
+  formatGrams,
+  formatHumanDate,
+  getDailyTotalGrams,
+  isTaken,
+  makeLocalNoonDateFromISO,
+  type ISODate,
+  type Tracker,
+  type Weekday,
+} from "../lib/creatine";
+import { useI18n } from "../i18n";
+
+type Props = {
+  tracker: Tracker;
+  today: ISODate;
+  weekStart: Weekday;
+  onToggle: (key: ISODate) => void;
+};
+
+export function YearHeatmap({ tracker, today, weekStart, onToggle }: Props) {
+  const { t, display } = useI18n();
+  const weeks = useMemo(
+    () => buildYearHeatmapWeeks(today, 53, weekStart),
+    [today, weekStart]
+  );
+  const levels = useMemo(
+    () =>
+      computeHeatLevels(
+        tracker,
+        weeks.flat().filter((k): k is ISODate => k !== null)
+      ),
+    [tracker, weeks]
+  );
+
+  return (
+    <div className="heatmapScroll">
+      <div className="heatmap" aria-label={t("heatmap.label")}>
+        {weeks.map((week, wi) => (
+          <div key={wi} className="heatmapWeek">
+            {week.map((key, di) => {
+              if (!key) return <div key={di} className="heatCell empty" />;
+              const taken = isTaken(tracker, key);
+              const total = getDailyTotalGrams(tracker, key);
+              const label = formatHumanDate(
+                makeLocalNoonDateFromISO(key),
+                display
+              );
+              const title =
+                taken && total !== null
+                  ? t("heatmap.grams", {
+                      date: label,
+                      grams: formatGrams(total),
+                    })
+                  : t("heatmap.status", {
+                      date: label,
+                      status: t(taken ? "toggle.met" : "toggle.missed"),
+                    });
+              return (
+                <button
+                  key={key}
+                  className="heatCell"
+                  data-level={levels.get(key) ?? 0}
+                  onClick={() => onToggle(key)}
+                  title={title}
+                  aria-pressed={taken}
+                  aria-label={t(
+                    taken ? "common.markNotTaken" : "common.markTaken",
+                    { date: label }
+                  )}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="heatmapLegend" aria-hidden="true">
+        <span>{t("heatmap.less")}</span>
+        {[0, 1, 2, 3, 4].map((l) => (
+          <span key={l} className="heatCell legend" data-level={l} />
+        ))}
+        <span>{t("heatmap.more")}</span>
+      </div>
+    </div>
+  );
+}
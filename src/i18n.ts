@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+import { DEFAULT_DISPLAY_SETTINGS, type DisplaySettings } from './lib/creatine'
+import { createTranslator, type Locale, type Translator } from './lib/i18n'
+
+export type I18n = {
+  locale: Locale
+  t: Translator
+  // Locale and formats for dates, times and numbers (pass to the lib's formatters).
+  display: DisplaySettings
+}
+
+// Provided by App from the save's language and format settings.
+export const I18nContext = createContext<I18n>({
+  locale: 'en',
+  t: createTranslator('en'),
+  display: DEFAULT_DISPLAY_SETTINGS,
+})
+
+export function useI18n() {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,130 @@
+import {
+  addDaysLocalNoon,
+  buildHistoryKeysInclusive,
+  classifyStreakDay,
+  compareISODate,
+  makeLocalNoonDateFromISO,
+  toISODateKeyLocal,
+  type ISODate,
+  type SaveData,
+  type Tracker,
+} from './creatine'
+
+export type AchievementId =
+  | 'streak-7'
+  | 'streak-30'
+  | 'streak-100'
+  | 'streak-365'
+  | 'first-full-month'
+  | 'total-100'
+  | 'comeback'
+  | 'perfect-quarter'
+
+// Missed days (not rest days) that have to pass before taking it again counts as a comeback.
+export const COMEBACK_GAP_DAYS = 7
+
+const STREAK_MILESTONES = [7, 30, 100, 365] as const
+const TOTAL_DAYS_MILESTONE = 100
+
+// In display order. Titles and descriptions live in the message catalogs
+// (`achievement.<id>.title` / `.description`).
+export const ACHIEVEMENT_IDS: AchievementId[] = [
+  'streak-7',
+  'streak-30',
+  'streak-100',
+  'streak-365',
+  'first-full-month',
+  'total-100',
+  'comeback',
+  'perfect-quarter',
+]
+
+export type Unlocks = Partial<Record<AchievementId, ISODate>>
+
+function isQuarterStartMonth(month: number) {
+  return month % 3 === 1
+}
+
+// Replays the history from the start date to today and records the day each achievement was
+// first earned. Only the days decide the result (never the time it runs), so recalculating after
+// edits or imports gives the same unlocks, and unchecking the days behind one revokes it.
+// Streaks follow the streak rules (rest days bridge, partial days per the tracker's policy);
+// full months and quarters need every day counted, so rest days don't fill them.
+export function computeAchievements(tracker: Tracker, today: ISODate): Unlocks {
+  const unlocks: Unlocks = {}
+  if (compareISODate(tracker.startDate, today) > 0) return unlocks
+  const unlock = (id: AchievementId, key: ISODate) => {
+    unlocks[id] ??= key
+  }
+
+  let run = 0
+  let total = 0
+  let gap = 0
+  // Whether every day of the current month/quarter so far counted; a period the start date cuts
+  // into can't be complete.
+  let monthOk = false
+  let quarterOk = false
+
+  const keys = buildHistoryKeysInclusive(tracker.startDate, today).reverse()
+  for (const key of keys) {
+    const month = Number(key.slice(5, 7))
+    if (key.endsWith('-01')) {
+      monthOk = true
+      if (isQuarterStartMonth(month)) quarterOk = true
+    }
+
+    const day = classifyStreakDay(tracker, key, tracker.partialDays)
+    if (day === 'counts') {
+      if (total > 0 && gap >= COMEBACK_GAP_DAYS) unlock('comeback', key)
+      gap = 0
+      run += 1
+      total += 1
+      for (const n of STREAK_MILESTONES) if (run === n) unlock(`streak-${n}`, key)
+      if (total === TOTAL_DAYS_MILESTONE) unlock('total-100', key)
+    } else {
+      monthOk = false
+      quarterOk = false
+      if (day === 'breaks') {
+        run = 0
+        gap += 1
+      }
+    }
+
+    const next = toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(key), 1))
+    if (next.endsWith('-01')) {
+      if (monthOk) unlock('first-full-month', key)
+      if (quarterOk && isQuarterStartMonth(Number(next.slice(5, 7)))) unlock('perfect-quarter', key)
+    }
+  }
+  return unlocks
+}
+
+export type AchievementChanges = {
+  unlocked: AchievementId[]
+  revoked: AchievementId[]
+}
+
+export function diffAchievements(before: Unlocks, after: Unlocks): AchievementChanges {
+  return {
+    unlocked: ACHIEVEMENT_IDS.filter((id) => !before[id] && after[id]),
+    revoked: ACHIEVEMENT_IDS.filter((id) => before[id] && !after[id]),
+  }
+}
+
+function sameUnlocks(a: Record<string, ISODate>, b: Record<string, ISODate>) {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+}
+
+// Brings every tracker's stored achievements in line with its history. Returns the same object
+// when nothing changed, and leaves `updatedAt` alone: the unlocks are derived, not an edit.
+export function syncAchievements(save: SaveData, today: ISODate): SaveData {
+  let changed = false
+  const trackers = save.trackers.map((t) => {
+    const achievements = computeAchievements(t, today) as Record<string, ISODate>
+    if (sameUnlocks(t.achievements, achievements)) return t
+    changed = true
+    return { ...t, achievements }
+  })
+  return changed ? { ...save, trackers } : save
+}
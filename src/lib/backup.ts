@@ -0,0 +1,180 @@
+import type { SaveData } from './creatine'
+
+// Encrypted exports: the save's JSON sealed with AES-GCM under a key derived from a passphrase
+// with PBKDF2, wrapped in a small self-describing JSON envelope:
+//
+//   { format, version: 1, kdf: { name, hash, iterations, salt }, cipher: { name, iv }, check, data }
+//
+// `check` is a second, independent half of the derived bits. It lets import tell a wrong
+// passphrase (check differs) apart from a damaged file (check matches but decryption fails),
+// which AES-GCM alone can't. Binary fields are base64.
+
+export const BACKUP_FORMAT = 'creatine-tracker-backup'
+export const BACKUP_VERSION = 1
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000
+// Files claiming more than this are treated as damaged rather than left to hang the page.
+const MAX_PBKDF2_ITERATIONS = 10_000_000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const KEY_BYTES = 32
+
+export type BackupEnvelope = {
+  format: typeof BACKUP_FORMAT
+  version: number
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; iv: string }
+  check: string
+  data: string
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase.')
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+export class CorruptBackupError extends Error {
+  constructor() {
+    super('The backup file is damaged.')
+    this.name = 'CorruptBackupError'
+  }
+}
+
+export class UnsupportedBackupError extends Error {
+  constructor(version: unknown) {
+    super(`Unsupported backup version: ${String(version)}.`)
+    this.name = 'UnsupportedBackupError'
+  }
+}
+
+// Whether a parsed JSON file is an encrypted backup (of any version), as opposed to a plain save.
+export function isEncryptedBackup(v: unknown): boolean {
+  return !!v && typeof v === 'object' && (v as Record<string, unknown>).format === BACKUP_FORMAT
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ''
+  // Chunked so large saves don't overflow the argument list.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(v: unknown): Uint8Array<ArrayBuffer> {
+  if (typeof v !== 'string') throw new CorruptBackupError()
+  let binary: string
+  try {
+    binary = atob(v)
+  } catch {
+    throw new CorruptBackupError()
+  }
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+function additionalData(version: number) {
+  return new TextEncoder().encode(`${BACKUP_FORMAT}:${version}`)
+}
+
+async function deriveKeyAndCheck(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+) {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase.normalize('NFC')),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      material,
+      KEY_BYTES * 2 * 8,
+    ),
+  )
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, KEY_BYTES), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ])
+  return { key, check: bits.slice(KEY_BYTES) }
+}
+
+export async function encryptBackup(save: SaveData, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const { key, check } = await deriveKeyAndCheck(passphrase, salt, PBKDF2_ITERATIONS)
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(BACKUP_VERSION) },
+    key,
+    new TextEncoder().encode(JSON.stringify(save)),
+  )
+  const envelope: BackupEnvelope = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    check: toBase64(check),
+    data: toBase64(new Uint8Array(data)),
+  }
+  return JSON.stringify(envelope, null, 2)
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array) {
+  return a.length === b.length && a.every((v, i) => v === b[i])
+}
+
+// Opens an envelope (already JSON-parsed) and returns the parsed save JSON inside, still to be
+// run through coerceSave. Rejects with WrongPassphraseError, CorruptBackupError or
+// UnsupportedBackupError.
+export async function decryptBackup(envelope: unknown, passphrase: string): Promise<unknown> {
+  if (!isEncryptedBackup(envelope)) throw new CorruptBackupError()
+  const obj = envelope as Record<string, unknown>
+  if (obj.version !== BACKUP_VERSION) throw new UnsupportedBackupError(obj.version)
+
+  const kdf = (obj.kdf ?? {}) as Record<string, unknown>
+  const cipher = (obj.cipher ?? {}) as Record<string, unknown>
+  if (kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || cipher.name !== 'AES-GCM') {
+    throw new CorruptBackupError()
+  }
+  const iterations = kdf.iterations
+  if (
+    typeof iterations !== 'number' ||
+    !Number.isInteger(iterations) ||
+    iterations < 1 ||
+    iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new CorruptBackupError()
+  }
+  const salt = fromBase64(kdf.salt)
+  const iv = fromBase64(cipher.iv)
+  const expectedCheck = fromBase64(obj.check)
+  const data = fromBase64(obj.data)
+  if (iv.length !== IV_BYTES || expectedCheck.length !== KEY_BYTES) throw new CorruptBackupError()
+
+  const { key, check } = await deriveKeyAndCheck(passphrase, salt, iterations)
+  if (!sameBytes(check, expectedCheck)) throw new WrongPassphraseError()
+
+  let plain: ArrayBuffer
+  try {
+    plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(BACKUP_VERSION) },
+      key,
+      data,
+    )
+  } catch {
+    throw new CorruptBackupError()
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(plain))
+  } catch {
+    throw new CorruptBackupError()
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  addDaysLocalNoon,
+  buildHistoryKeysInclusive,
+  compareISODate,
+  getDailyTotalGrams,
+  isTaken,
+  makeLocalNoonDateFromISO,
+  toISODateKeyLocal,
+  type ISODate,
+  type Tracker,
+} from './creatine'
+
+// 0 = not taken, 1-4 = increasingly strong shade.
+export type HeatLevel = 0 | 1 | 2 | 3 | 4
+
+// A week row/column of 7 cells; null pads days outside the month/range.
+export type CalendarWeek = Array<ISODate | null>
+
+function startOfWeek(d: Date, weekStartsOn: number) {
+  const diff = (d.getDay() - weekStartsOn + 7) % 7
+  return addDaysLocalNoon(d, -diff)
+}
+
+// Weeks of a `YYYY-MM` month, padded with nulls so each week is a full row.
+export function buildMonthGrid(monthKey: string, weekStartsOn = 0): CalendarWeek[] {
+  const [yStr, mStr] = monthKey.split('-')
+  const first = new Date(Number(yStr), Number(mStr) - 1, 1, 12, 0, 0, 0)
+  const last = new Date(Number(yStr), Number(mStr), 0, 12, 0, 0, 0)
+  const keys = buildHistoryKeysInclusive(
+    toISODateKeyLocal(first),
+    toISODateKeyLocal(last),
+  ).reverse()
+
+  const weeks: CalendarWeek[] = []
+  let week: CalendarWeek = new Array((first.getDay() - weekStartsOn + 7) % 7).fill(null)
+  for (const key of keys) {
+    week.push(key)
+    if (week.length === 7) {
+      weeks.push(week)
+      week = []
+    }
+  }
+  if (week.length > 0) weeks.push(week.concat(new Array(7 - week.length).fill(null)))
+  return weeks
+}
+
+// GitHub-style columns (one per week, oldest first) covering `weeks` weeks up to `end`.
+// Days after `end` are null so the last column can be partial.
+export function buildYearHeatmapWeeks(end: ISODate, weeks = 53, weekStartsOn = 0): CalendarWeek[] {
+  const endD = makeLocalNoonDateFromISO(end)
+  const firstD = addDaysLocalNoon(startOfWeek(endD, weekStartsOn), -7 * (weeks - 1))
+  const lastD = addDaysLocalNoon(firstD, 7 * weeks - 1)
+  const keys = buildHistoryKeysInclusive(toISODateKeyLocal(firstD), toISODateKeyLocal(lastD))
+    .reverse()
+    .map((k) => (compareISODate(k, end) > 0 ? null : k))
+
+  const out: CalendarWeek[] = []
+  for (let i = 0; i < keys.length; i += 7) out.push(keys.slice(i, i + 7))
+  return out
+}
+
+// Shade by amount relative to the largest daily total in `keys`. Taken days without any
+// recorded amount get the full shade, as there's nothing to compare them against.
+export function computeHeatLevels(tracker: Tracker, keys: ISODate[]): Map<ISODate, HeatLevel> {
+  let maxTotal = 0
+  for (const k of keys) {
+    const total = getDailyTotalGrams(tracker, k)
+    if (total !== null && total > maxTotal) maxTotal = total
+  }
+
+  const levels = new Map<ISODate, HeatLevel>()
+  for (const k of keys) {
+    if (!isTaken(tracker, k)) {
+      levels.set(k, 0)
+      continue
+    }
+    const total = getDailyTotalGrams(tracker, k)
+    if (total === null || maxTotal === 0) {
+      levels.set(k, 4)
+      continue
+    }
+    levels.set(k, Math.min(4, Math.max(1, Math.ceil((total / maxTotal) * 4))) as HeatLevel)
+  }
+  return levels
+}
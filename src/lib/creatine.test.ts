@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { mergeSaves } from './merge'
+import {
+  addTracker,
+  buildHistoryKeysInclusive,
+  canSpendFreeze,
+  clearSave,
+  computeCurrentStreak,
+  computeFreezeBalance,
+  getDayKeyAt,
+  getTodayKey,
+  makeDefaultSave,
+  makeLocalTimestamp,
+  makeTracker,
+  markTaken,
+  setBodyweight,
+  setRestDay,
+  updateTracker,
+  type DayBoundary,
+  type ISODate,
+  type Tracker,
+} from './creatine'
+
+// Tests run with TZ=America/New_York as the device zone (see vite.config.ts). New York springs
+// forward at 02:00 on 2026-03-08 and falls back at 02:00 on 2026-11-01.
+const NEW_YORK: DayBoundary = { timeZone: 'America/New_York', rolloverHour: 0 }
+const TOKYO: DayBoundary = { timeZone: 'Asia/Tokyo', rolloverHour: 0 }
+const SAO_PAULO: DayBoundary = { timeZone: 'America/Sao_Paulo', rolloverHour: 0 }
+const DEVICE: DayBoundary = { timeZone: null, rolloverHour: 0 }
+
+describe('makeLocalTimestamp', () => {
+  it('builds wall-clock times in the home zone', () => {
+    expect(makeLocalTimestamp('2026-03-10', '08:00', NEW_YORK)).toBe(Date.UTC(2026, 2, 10, 12, 0))
+    expect(makeLocalTimestamp('2026-03-10', '23:00', TOKYO)).toBe(Date.UTC(2026, 2, 10, 14, 0))
+    expect(makeLocalTimestamp('2026-03-10', '21:00', SAO_PAULO)).toBe(Date.UTC(2026, 2, 11, 0, 0))
+  })
+
+  it('pushes a time inside the DST gap forward', () => {
+    // 02:30 doesn't exist; it comes out as 03:30 EDT, in the home zone and the device zone alike.
+    expect(makeLocalTimestamp('2026-03-08', '02:30', NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 7, 30))
+    expect(makeLocalTimestamp('2026-03-08', '02:30', DEVICE)).toBe(Date.UTC(2026, 2, 8, 7, 30))
+  })
+
+  it('takes the first occurrence of a repeated hour', () => {
+    // 01:30 happens twice; the first one is still EDT (UTC-4).
+    expect(makeLocalTimestamp('2026-11-01', '01:30', NEW_YORK)).toBe(Date.UTC(2026, 10, 1, 5, 30))
+    expect(makeLocalTimestamp('2026-11-01', '01:30', DEVICE)).toBe(Date.UTC(2026, 10, 1, 5, 30))
+  })
+
+  it('puts times before the rollover hour the next morning', () => {
+    const boundary = { ...NEW_YORK, rolloverHour: 4 }
+    const at = makeLocalTimestamp('2026-03-10', '01:30', boundary)
+    expect(at).toBe(Date.UTC(2026, 2, 11, 5, 30))
+    expect(getDayKeyAt(at, boundary)).toBe('2026-03-10')
+    expect(makeLocalTimestamp('2026-03-10', '04:00', boundary)).toBe(Date.UTC(2026, 2, 10, 8, 0))
+  })
+
+  it('keeps a time in a gap right before the rollover on its own day', () => {
+    // The day of 03-07 runs until 03:00 on 03-08, but 02:30 that night doesn't exist; stepping
+    // forward would land on 03-08, so it's stepped back to 01:30 EST instead.
+    const boundary = { ...NEW_YORK, rolloverHour: 3 }
+    const at = makeLocalTimestamp('2026-03-07', '02:30', boundary)
+    expect(at).toBe(Date.UTC(2026, 2, 8, 6, 30))
+    expect(getDayKeyAt(at, boundary)).toBe('2026-03-07')
+  })
+
+  it('uses an explicit zone for entries made while travelling', () => {
+    expect(makeLocalTimestamp('2026-03-13', '20:00', NEW_YORK, 'Asia/Tokyo')).toBe(
+      Date.UTC(2026, 2, 13, 11, 0),
+    )
+  })
+})
+
+describe('getDayKeyAt', () => {
+  it('counts days in the home zone, not the device zone', () => {
+    // 23:30 on 03-10 in New York is already 03-11 in São Paulo and Tokyo.
+    const at = Date.UTC(2026, 2, 11, 3, 30)
+    expect(getDayKeyAt(at, DEVICE)).toBe('2026-03-10')
+    expect(getDayKeyAt(at, NEW_YORK)).toBe('2026-03-10')
+    expect(getDayKeyAt(at, SAO_PAULO)).toBe('2026-03-11')
+    expect(getDayKeyAt(at, TOKYO)).toBe('2026-03-11')
+  })
+
+  it('counts hours before the rollover as the previous day', () => {
+    const boundary = { ...TOKYO, rolloverHour: 4 }
+    // 03:59 and 04:00 in Tokyo on 03-11.
+    expect(getDayKeyAt(Date.UTC(2026, 2, 10, 18, 59), boundary)).toBe('2026-03-10')
+    expect(getDayKeyAt(Date.UTC(2026, 2, 10, 19, 0), boundary)).toBe('2026-03-11')
+  })
+
+  it('stays on the right day across both DST changes', () => {
+    // 23:59 on the short and the long day.
+    expect(getDayKeyAt(Date.UTC(2026, 2, 9, 3, 59), NEW_YORK)).toBe('2026-03-08')
+    expect(getDayKeyAt(Date.UTC(2026, 10, 2, 4, 59), NEW_YORK)).toBe('2026-11-01')
+    expect(getDayKeyAt(Date.UTC(2026, 10, 2, 4, 59), DEVICE)).toBe('2026-11-01')
+  })
+})
+
+describe('getTodayKey', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('follows the clock under each boundary', () => {
+    vi.useFakeTimers()
+    // 03:00 EDT on 03-11: still 03-10 with a 4 a.m. rollover, already afternoon in Tokyo.
+    vi.setSystemTime(Date.UTC(2026, 2, 11, 7, 0))
+    expect(getTodayKey()).toBe('2026-03-11')
+    expect(getTodayKey({ ...NEW_YORK, rolloverHour: 4 })).toBe('2026-03-10')
+    expect(getTodayKey(TOKYO)).toBe('2026-03-11')
+
+    // An hour later the rollover has passed.
+    vi.setSystemTime(Date.UTC(2026, 2, 11, 8, 0))
+    expect(getTodayKey({ ...NEW_YORK, rolloverHour: 4 })).toBe('2026-03-11')
+  })
+
+  it('rolls over at midnight in the home zone while the device zone lags', () => {
+    vi.useFakeTimers()
+    // Midnight in Tokyo on 03-11 is 11:00 on 03-10 in New York.
+    vi.setSystemTime(Date.UTC(2026, 2, 10, 15, 0))
+    expect(getTodayKey(TOKYO)).toBe('2026-03-11')
+    expect(getTodayKey(DEVICE)).toBe('2026-03-10')
+  })
+})
+
+describe('streak freezes', () => {
+  // Day 1 taken, then days 6-11: the seventh taken day (03-11) earns one freeze.
+  function earnedOnce(): Tracker {
+    const days: ISODate[] = ['2026-03-01', ...buildHistoryKeysInclusive('2026-03-06', '2026-03-11')]
+    return days.reduce((t, k) => markTaken(t, k, null), makeTracker('t', 'Test', '2026-03-01'))
+  }
+
+  it("can't be spent before one is earned", () => {
+    let tracker = earnedOnce()
+    expect(computeFreezeBalance(tracker)).toBe(1)
+    for (const k of ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05'] as ISODate[]) {
+      expect(canSpendFreeze(tracker, k)).toBe(false)
+      tracker = setRestDay(tracker, k, 'freeze')
+    }
+    expect(tracker.restDays).toEqual({})
+    expect(computeFreezeBalance(tracker)).toBe(1)
+    expect(computeCurrentStreak(tracker, '2026-03-11')).toMatchObject({ length: 6, bridged: 0 })
+  })
+
+  it('is spent once earned, and only once', () => {
+    let tracker = setRestDay(earnedOnce(), '2026-03-12', 'freeze')
+    expect(tracker.restDays).toEqual({ '2026-03-12': 'freeze' })
+    expect(computeFreezeBalance(tracker)).toBe(0)
+    expect(canSpendFreeze(tracker, '2026-03-13')).toBe(false)
+    tracker = markTaken(tracker, '2026-03-13', null)
+    expect(computeCurrentStreak(tracker, '2026-03-13')).toMatchObject({ length: 7, bridged: 1 })
+  })
+
+  it("can't be moved earlier than a later freeze allows", () => {
+    const tracker = setRestDay(earnedOnce(), '2026-03-12', 'freeze')
+    // The freeze earned on 03-11 is already spent on 03-12.
+    expect(canSpendFreeze(tracker, '2026-03-05')).toBe(false)
+    expect(canSpendFreeze(setRestDay(tracker, '2026-03-12', null), '2026-03-12')).toBe(true)
+  })
+
+  it('carries the debt of freezes spent before they were earned', () => {
+    const tracker: Tracker = {
+      ...earnedOnce(),
+      restDays: { '2026-03-02': 'freeze', '2026-03-03': 'freeze' },
+    }
+    expect(computeFreezeBalance(tracker)).toBe(0)
+    expect(canSpendFreeze(tracker, '2026-03-12')).toBe(false)
+  })
+})
+
+describe('clearSave', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps settings and the day boundary, and stays cleared through a merge', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.UTC(2026, 2, 10, 12, 0))
+    let save = addTracker(makeDefaultSave('2026-03-01'), 'Vitamin D', '2026-03-01')
+    save = updateTracker(save, 'creatine', (t) => markTaken(t, '2026-03-09', null))
+    save = setBodyweight(save, '2026-03-09', 80)
+    save = {
+      ...save,
+      settings: { ...save.settings, theme: 'dark' },
+      dayBoundary: { ...TOKYO, rolloverHour: 4 },
+    }
+    vi.setSystemTime(Date.UTC(2026, 2, 10, 12, 1))
+    const cleared = clearSave(save, '2026-03-10')
+
+    expect(cleared.trackers).toHaveLength(1)
+    expect(cleared.trackers[0]).toMatchObject({ name: 'Creatine', startDate: '2026-03-10' })
+    expect(cleared.settings.theme).toBe('dark')
+    expect(cleared.dayBoundary).toEqual({ ...TOKYO, rolloverHour: 4 })
+
+    // Another device still has the old data.
+    for (const merged of [mergeSaves(cleared, save), mergeSaves(save, cleared)]) {
+      expect(merged.trackers.map((t) => t.id)).toEqual([cleared.trackers[0].id])
+      expect(merged.trackers[0].taken).toEqual({})
+      expect(merged.bodyweight).toEqual({})
+    }
+  })
+})
@@ -1,3 +1,5 @@
+import { isLocale, type Locale } from './i18n'
+
 export type ISODate = `${number}-${number}-${number}` // YYYY-MM-DD (local)
 
 export type SaveDataV1 = {
@@ -17,11 +19,204 @@ export type SaveDataV2 = {
   updatedAt: number
 }
 
-export type SaveData = SaveDataV2
+export type DoseEntry = {
+  // Amount in grams, or null if the amount wasn't recorded (e.g. migrated/quick checks).
+  grams: number | null
+  // ms timestamp (local entry time) or null if unknown.
+  at: TakenAt
+  // IANA time zone the dose was taken in (its "Taken at" is shown in that zone), or null if
+  // unknown (older entries).
+  tz: string | null
+}
+
+export type TargetChange = {
+  // First day this target applies to; it stays in effect until the next change.
+  from: ISODate
+  // Daily target in grams, or null for "no target" (any dose counts as a full day).
+  grams: number | null
+}
+
+// Whether a day below its target keeps a streak alive ('keep') or ends it ('break').
+export type PartialDayPolicy = 'keep' | 'break'
+
+// An untaken day that bridges a streak without counting as taken: a planned, excused break
+// ('excused', unlimited) or a spent streak freeze ('freeze', earned by taking it regularly).
+export type RestDayKind = 'excused' | 'freeze'
+
+export type SaveDataV3 = {
+  version: 3
+  startDate: ISODate
+  // Presence of key means "taken". Each day holds one or more doses (never an empty list).
+  taken: Record<ISODate, DoseEntry[]>
+  // Sorted by `from` ascending. Empty means no target has ever been set.
+  targets: TargetChange[]
+  partialDays: PartialDayPolicy
+  updatedAt: number
+}
+
+// A purchased tub/pack. What's left is derived from the taken days (see src/lib/inventory.ts).
+export type Supply = {
+  id: string
+  grams: number
+  purchasedOn: ISODate
+  // Total price paid, in the user's currency, or null if not recorded.
+  price: number | null
+}
+
+// A high-dose start, the usual daily dose, or a planned break from taking it.
+export type ProtocolPhaseKind = 'loading' | 'maintenance' | 'off'
+
+export const PROTOCOL_PHASE_KINDS: ProtocolPhaseKind[] = ['loading', 'maintenance', 'off']
+
+export type ProtocolPhase = {
+  kind: ProtocolPhaseKind
+  // Length in days, or null for open-ended (only the last phase, and only without a cycle).
+  days: number | null
+  // Expected doses per day (0 for 'off') and the amount of each, or null if not planned.
+  dosesPerDay: number
+  gramsPerDose: number | null
+}
+
+// A dosing plan: phases run back to back from `startDate`. Days outside it are plain days.
+export type Protocol = {
+  startDate: ISODate
+  phases: ProtocolPhase[]
+  // After the last phase, start over from this phase (e.g. maintenance/off cycling after a
+  // single loading phase), or null to end the plan there.
+  repeatFrom: number | null
+}
+
+// One habit (creatine, vitamin D, ...). Saved inside v4 using the v3 per-habit shape.
+export type Tracker = {
+  id: string
+  name: string
+  startDate: ISODate
+  taken: Record<ISODate, DoseEntry[]>
+  targets: TargetChange[]
+  partialDays: PartialDayPolicy
+  // Untaken days marked as rest days. Never overlaps `taken`.
+  restDays: Record<ISODate, RestDayKind>
+  // Sorted by `purchasedOn` ascending.
+  supplies: Supply[]
+  // Warn once fewer than this many days of supply are left.
+  lowSupplyDays: number
+  protocol: Protocol | null
+  // Unlocked achievements by id, with the day each was earned. Derived from the history and kept
+  // in sync by src/lib/achievements.ts; stored so new unlocks and revocations can be told apart.
+  achievements: Record<string, ISODate>
+  // ms timestamp of the last edit per day, kept after a day is unchecked (a tombstone) so merging
+  // with another device can tell "unchecked later" from "never checked".
+  dayEditedAt: Record<ISODate, number>
+  // Likewise per target change (by `from`) and per supply (by `id`), kept after they're removed.
+  targetEditedAt: Record<ISODate, number>
+  supplyEditedAt: Record<string, number>
+  // ms timestamp of the last time `startDate` was set by hand, or 0 if it never was (it then only
+  // moves earlier, to the first day taken).
+  startDateEditedAt: number
+}
+
+// When a day starts and ends. Entries are filed under the day this rule gives at entry time, so
+// travelling doesn't move them around afterwards.
+export type DayBoundary = {
+  // Home IANA time zone, or null to follow the device's current zone.
+  timeZone: string | null
+  // Hour (0-11) at which a new day starts; e.g. 4 means a day runs until 4 a.m.
+  rolloverHour: number
+}
+
+export const DEVICE_DAY_BOUNDARY: DayBoundary = { timeZone: null, rolloverHour: 0 }
+
+export type HistoryView = 'list' | 'month' | 'year'
+
+export const HISTORY_VIEWS: HistoryView[] = ['list', 'month', 'year']
+
+export type ReminderSettings = {
+  enabled: boolean
+  // Local wall-clock times, `HH:MM` (24h), sorted ascending.
+  times: string[]
+}
+
+export type Theme = 'system' | 'light' | 'dark'
+
+export const THEMES: Theme[] = ['system', 'light', 'dark']
+
+// 0 = Sunday … 6 = Saturday, as in Date#getDay.
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+// 'auto' uses the language's convention.
+export type TimeFormat = 'auto' | '12h' | '24h'
+
+export const TIME_FORMATS: TimeFormat[] = ['auto', '12h', '24h']
+
+// 'auto' is the language's medium date ("Jan 5, 2026"), 'numeric' its short one ("1/5/2026").
+export type DateFormat = 'auto' | 'numeric' | 'iso'
+
+export const DATE_FORMATS: DateFormat[] = ['auto', 'numeric', 'iso']
+
+// Month filter History opens with.
+export type HistoryFilterDefault = 'current-month' | 'all'
+
+export const HISTORY_FILTER_DEFAULTS: HistoryFilterDefault[] = ['current-month', 'all']
+
+// Unit bodyweight is entered and shown in; it's always stored in kg.
+export type WeightUnit = 'kg' | 'lb'
+
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lb']
+
+export type Settings = {
+  theme: Theme
+  // First column of the month grid and the year heatmap.
+  weekStart: Weekday
+  timeFormat: TimeFormat
+  dateFormat: DateFormat
+  // Last History layout picked by the user.
+  historyView: HistoryView
+  historyFilter: HistoryFilterDefault
+  // Reminders apply to the active tracker.
+  reminders: ReminderSettings
+  // UI language picked by the user, or null to follow the browser.
+  locale: Locale | null
+  weightUnit: WeightUnit
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  theme: 'system',
+  weekStart: 0,
+  timeFormat: 'auto',
+  dateFormat: 'auto',
+  historyView: 'list',
+  historyFilter: 'current-month',
+  reminders: { enabled: false, times: [] },
+  locale: null,
+  weightUnit: 'kg',
+}
+
+export type SaveDataV4 = {
+  version: 4
+  // Never empty; v1-v3 saves migrate into a single default "Creatine" tracker.
+  trackers: Tracker[]
+  activeTrackerId: string
+  settings: Settings
+  dayBoundary: DayBoundary
+  // Bodyweight in kg by day, at most one entry per day (logged as often as the user likes). It
+  // belongs to the person, so it's shared by all trackers.
+  bodyweight: Record<ISODate, number>
+  // ms timestamp of the last bodyweight edit per day, kept after an entry is removed (a tombstone),
+  // like `Tracker.dayEditedAt`.
+  bodyweightEditedAt: Record<ISODate, number>
+  // ms timestamp each removed tracker was removed at, so a merge with a copy made before the
+  // removal doesn't bring it back.
+  removedTrackers: Record<string, number>
+  updatedAt: number
+}
+
+export type SaveData = SaveDataV4
 
-export const STORAGE_KEY = 'creatine-tracker:v1'
+export const DEFAULT_TRACKER_ID = 'creatine'
+export const DEFAULT_TRACKER_NAME = 'Creatine'
+export const DEFAULT_LOW_SUPPLY_DAYS = 7
 
-function pad2(n: number) {
+export function pad2(n: number) {
   return String(n).padStart(2, '0')
 }
 
@@ -54,108 +249,669 @@ export function addDaysLocalNoon(d: Date, deltaDays: number): Date {
   return copy
 }
 
-export function formatHumanDate(d: Date) {
-  return new Intl.DateTimeFormat(undefined, {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric',
-  }).format(d)
+export type DisplaySettings = {
+  // Locale for dates, times and numbers; undefined means the browser default (see
+  // resolveIntlLocale in src/lib/i18n.ts).
+  locale: string | undefined
+  timeFormat: TimeFormat
+  dateFormat: DateFormat
 }
 
-export function formatHumanTime(d: Date) {
-  return new Intl.DateTimeFormat(undefined, {
+// How dates, times and numbers are shown to this user, from the save's settings.
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  locale: undefined,
+  timeFormat: 'auto',
+  dateFormat: 'auto',
+}
+
+const HOUR_CYCLE: Record<TimeFormat, Intl.DateTimeFormatOptions['hourCycle']> = {
+  auto: undefined,
+  '12h': 'h12',
+  '24h': 'h23',
+}
+
+export function formatHumanDate(d: Date, display: DisplaySettings) {
+  if (display.dateFormat === 'iso') return toISODateKeyLocal(d)
+  return new Intl.DateTimeFormat(
+    display.locale,
+    display.dateFormat === 'numeric'
+      ? { year: 'numeric', month: 'numeric', day: 'numeric' }
+      : { month: 'short', day: 'numeric', year: 'numeric' },
+  ).format(d)
+}
+
+// Shows the time in `timeZone` when given (where a dose was taken), with the zone name appended
+// if that differs from the device's current zone.
+export function formatHumanTime(
+  d: Date,
+  display: DisplaySettings,
+  timeZone: string | null = null,
+) {
+  const foreign = timeZone !== null && timeZone !== getDeviceTimeZone()
+  return new Intl.DateTimeFormat(display.locale, {
     hour: 'numeric',
     minute: '2-digit',
+    hourCycle: HOUR_CYCLE[display.timeFormat],
+    ...(foreign ? { timeZone, timeZoneName: 'short' } : {}),
   }).format(d)
 }
 
-export function compareISODate(a: ISODate, b: ISODate) {
-  return a < b ? -1 : a > b ? 1 : 0
+// IANA name of the device's current time zone, e.g. "America/Sao_Paulo".
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
 }
 
-export function getTodayKey(): ISODate {
-  return toISODateKeyLocal(new Date())
+export function isTimeZone(v: unknown): v is string {
+  if (typeof v !== 'string' || !v) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: v })
+    return true
+  } catch {
+    return false
+  }
 }
 
-export function getHumanToday() {
-  return formatHumanDate(new Date())
+// The zone a boundary's days are counted in.
+export function resolveTimeZone(boundary: DayBoundary): string {
+  return boundary.timeZone ?? getDeviceTimeZone()
 }
 
-export function makeDefaultSave(today: ISODate = getTodayKey()): SaveDataV2 {
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number }
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>()
+
+// Calendar date and clock time of `at` in `timeZone` (null: the device's zone).
+export function getWallClock(at: number, timeZone: string | null): WallClock {
+  if (timeZone === null) {
+    const d = new Date(at)
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: d.getHours(),
+      minute: d.getMinutes(),
+    }
+  }
+  let format = wallClockFormats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    wallClockFormats.set(timeZone, format)
+  }
+  const parts = format.formatToParts(at)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value)
   return {
-    version: 2,
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  }
+}
+
+function wallClockKey(c: WallClock): ISODate {
+  return `${c.year}-${pad2(c.month)}-${pad2(c.day)}` as ISODate
+}
+
+// `HH:MM` (24h) in `timeZone` (null: device zone), the format used by `<input type="time">` and
+// exports.
+export function toLocalTimeValue(at: number, timeZone: string | null = null): string {
+  const c = getWallClock(at, timeZone)
+  return `${pad2(c.hour)}:${pad2(c.minute)}`
+}
+
+// Epoch ms for a wall-clock time in `timeZone` (null: device zone).
+export function wallClockToTimestamp(c: WallClock, timeZone: string | null): number {
+  if (timeZone === null) {
+    return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, 0, 0).getTime()
+  }
+  // Try the zone's offsets from half a day before and after (DST changes are months apart, so
+  // that covers both sides of any change near this time).
+  const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute)
+  const offsetAt = (t: number) => {
+    const w = getWallClock(t, timeZone)
+    return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute) - Math.floor(t / 60000) * 60000
+  }
+  const halfDay = 12 * 60 * 60 * 1000
+  const candidates = [asUtc - offsetAt(asUtc - halfDay), asUtc - offsetAt(asUtc + halfDay)]
+  const matches = candidates.filter((t) => {
+    const w = getWallClock(t, timeZone)
+    return w.day === c.day && w.hour === c.hour && w.minute === c.minute
+  })
+  // Repeated hour: both match, take the first occurrence. Gap: neither does, and the later
+  // candidate is the time pushed forward past the gap.
+  return matches.length > 0 ? Math.min(...matches) : Math.max(...candidates)
+}
+
+// Timestamp for wall-clock `time` (`HH:MM`) on day `key` under `boundary`: times before the
+// rollover hour are the early hours after the calendar date (a day running until 4 a.m. ends at
+// 04:00 the next morning). `timeZone` defaults to the boundary's zone. Times inside a DST gap
+// don't exist and come out shifted forward (02:30 -> 03:30); a repeated hour resolves to its
+// first occurrence. The result always stays on `key`.
+export function makeLocalTimestamp(
+  key: ISODate,
+  time: string,
+  boundary: DayBoundary = DEVICE_DAY_BOUNDARY,
+  timeZone: string | null = boundary.timeZone,
+): number {
+  const [h, min] = time.split(':').map(Number)
+  const calendarDate =
+    h < boundary.rolloverHour
+      ? toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(key), 1))
+      : key
+  const [year, month, day] = calendarDate.split('-').map(Number)
+  const at = wallClockToTimestamp({ year, month, day, hour: h, minute: min }, timeZone)
+  // A gap right before the day ends pushes the time into the next day; step back over it.
+  if (getDayKeyAt(at, { ...boundary, timeZone }) !== key) return at - 60 * 60 * 1000
+  return at
+}
+
+// Day that `at` belongs to under `boundary` (its zone, then shifted back by the rollover hour).
+export function getDayKeyAt(at: number, boundary: DayBoundary): ISODate {
+  const c = getWallClock(at, boundary.timeZone)
+  const key = wallClockKey(c)
+  if (c.hour >= boundary.rolloverHour) return key
+  return toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(key), -1))
+}
+
+export function compareISODate(a: ISODate, b: ISODate) {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+export function getTodayKey(
+  boundary: DayBoundary = DEVICE_DAY_BOUNDARY,
+  now: number = Date.now(),
+): ISODate {
+  return getDayKeyAt(now, boundary)
+}
+
+export function makeTracker(id: string, name: string, today: ISODate = getTodayKey()): Tracker {
+  return {
+    id,
+    name,
     startDate: today,
     taken: {},
+    targets: [],
+    partialDays: 'keep',
+    restDays: {},
+    supplies: [],
+    lowSupplyDays: DEFAULT_LOW_SUPPLY_DAYS,
+    protocol: null,
+    achievements: {},
+    dayEditedAt: {},
+    targetEditedAt: {},
+    supplyEditedAt: {},
+    startDateEditedAt: 0,
+  }
+}
+
+export function makeDefaultSave(today: ISODate = getTodayKey()): SaveDataV4 {
+  return {
+    version: 4,
+    trackers: [makeTracker(DEFAULT_TRACKER_ID, DEFAULT_TRACKER_NAME, today)],
+    activeTrackerId: DEFAULT_TRACKER_ID,
+    settings: DEFAULT_SETTINGS,
+    dayBoundary: DEVICE_DAY_BOUNDARY,
+    bodyweight: {},
+    bodyweightEditedAt: {},
+    removedTrackers: {},
     updatedAt: Date.now(),
   }
 }
 
-export function loadSave(): SaveDataV2 {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY)
-    if (!raw) return makeDefaultSave()
-    const parsed: unknown = JSON.parse(raw)
-    const coerced = coerceSave(parsed)
-    return coerced ?? makeDefaultSave()
-  } catch {
-    return makeDefaultSave()
+function coerceDoseEntry(v: unknown): DoseEntry | null {
+  if (!v || typeof v !== 'object') return null
+  const obj = v as Record<string, unknown>
+  const grams =
+    typeof obj.grams === 'number' && Number.isFinite(obj.grams) && obj.grams >= 0 ? obj.grams : null
+  const at = typeof obj.at === 'number' && Number.isFinite(obj.at) ? obj.at : null
+  const tz = isTimeZone(obj.tz) ? obj.tz : null
+  return { grams, at, tz }
+}
+
+function coerceTargets(v: unknown): TargetChange[] {
+  if (!Array.isArray(v)) return []
+  const byFrom = new Map<ISODate, TargetChange>()
+  for (const item of v) {
+    if (!item || typeof item !== 'object') continue
+    const obj = item as Record<string, unknown>
+    if (!isISODateKey(obj.from)) continue
+    const grams =
+      typeof obj.grams === 'number' && Number.isFinite(obj.grams) && obj.grams > 0
+        ? obj.grams
+        : null
+    byFrom.set(obj.from, { from: obj.from, grams })
   }
+  return [...byFrom.values()].sort((a, b) => compareISODate(a.from, b.from))
 }
 
-export function saveToStorage(data: SaveDataV2) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, updatedAt: Date.now() }))
+function coerceDayEditedAt(v: unknown): Record<ISODate, number> {
+  const out: Record<ISODate, number> = {}
+  if (!v || typeof v !== 'object') return out
+  for (const [k, at] of Object.entries(v as Record<string, unknown>)) {
+    if (isISODateKey(k) && typeof at === 'number' && Number.isFinite(at)) out[k] = at
+  }
+  return out
 }
 
-export function clearStorage() {
-  localStorage.removeItem(STORAGE_KEY)
+function coerceAchievements(v: unknown): Record<string, ISODate> {
+  const out: Record<string, ISODate> = {}
+  if (!v || typeof v !== 'object') return out
+  for (const [id, on] of Object.entries(v as Record<string, unknown>)) {
+    if (id && isISODateKey(on)) out[id] = on
+  }
+  return out
 }
 
-export function coerceSave(input: unknown): SaveDataV2 | null {
-  if (!input || typeof input !== 'object') return null
-  const obj = input as Record<string, unknown>
+function coerceRestDays(
+  v: unknown,
+  taken: Record<ISODate, DoseEntry[]>,
+): Record<ISODate, RestDayKind> {
+  const out: Record<ISODate, RestDayKind> = {}
+  if (!v || typeof v !== 'object') return out
+  for (const [k, kind] of Object.entries(v as Record<string, unknown>)) {
+    if (!isISODateKey(k) || k in taken) continue
+    if (kind === 'excused' || kind === 'freeze') out[k] = kind
+  }
+  return out
+}
+
+function coerceSupplies(v: unknown): Supply[] {
+  if (!Array.isArray(v)) return []
+  const out: Supply[] = []
+  for (const item of v) {
+    if (!item || typeof item !== 'object') continue
+    const obj = item as Record<string, unknown>
+    if (typeof obj.id !== 'string' || !obj.id || !isISODateKey(obj.purchasedOn)) continue
+    if (typeof obj.grams !== 'number' || !Number.isFinite(obj.grams) || obj.grams <= 0) continue
+    if (out.some((s) => s.id === obj.id)) continue
+    const price =
+      typeof obj.price === 'number' && Number.isFinite(obj.price) && obj.price >= 0
+        ? obj.price
+        : null
+    out.push({ id: obj.id, grams: obj.grams, purchasedOn: obj.purchasedOn, price })
+  }
+  return out.sort((a, b) => compareISODate(a.purchasedOn, b.purchasedOn))
+}
+
+function isPositiveInteger(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v > 0
+}
+
+function coerceProtocolPhase(v: unknown): ProtocolPhase | null {
+  if (!v || typeof v !== 'object') return null
+  const obj = v as Record<string, unknown>
+  if (!PROTOCOL_PHASE_KINDS.includes(obj.kind as ProtocolPhaseKind)) return null
+  const kind = obj.kind as ProtocolPhaseKind
+  const off = kind === 'off'
+  const gramsPerDose =
+    !off &&
+    typeof obj.gramsPerDose === 'number' &&
+    Number.isFinite(obj.gramsPerDose) &&
+    obj.gramsPerDose > 0
+      ? obj.gramsPerDose
+      : null
+  return {
+    kind,
+    days: isPositiveInteger(obj.days) ? obj.days : null,
+    dosesPerDay: off ? 0 : isPositiveInteger(obj.dosesPerDay) ? obj.dosesPerDay : 1,
+    gramsPerDose,
+  }
+}
+
+// Phases after an open-ended one could never be reached, so they're dropped, and a plan that
+// ends open-ended can't cycle.
+function coerceProtocol(v: unknown): Protocol | null {
+  if (!v || typeof v !== 'object') return null
+  const obj = v as Record<string, unknown>
+  if (!isISODateKey(obj.startDate) || !Array.isArray(obj.phases)) return null
+  const phases: ProtocolPhase[] = []
+  for (const item of obj.phases) {
+    const phase = coerceProtocolPhase(item)
+    if (!phase) continue
+    phases.push(phase)
+    if (phase.days === null) break
+  }
+  if (phases.length === 0) return null
+  const repeatFrom =
+    typeof obj.repeatFrom === 'number' &&
+    Number.isInteger(obj.repeatFrom) &&
+    obj.repeatFrom >= 0 &&
+    obj.repeatFrom < phases.length &&
+    phases.at(-1)?.days !== null
+      ? obj.repeatFrom
+      : null
+  return { startDate: obj.startDate, phases, repeatFrom }
+}
+
+type TrackerData = Omit<Tracker, 'id' | 'name'>
+
+// Per-habit body of a v1-v3 save (v4 trackers use the v3 shape).
+function coerceTrackerData(obj: Record<string, unknown>, version: unknown): TrackerData | null {
   if (!isISODateKey(obj.startDate)) return null
   const takenRaw = obj.taken
   if (!takenRaw || typeof takenRaw !== 'object') return null
 
-  // v2 (preferred)
-  if (obj.version === 2) {
-    const taken: Record<ISODate, TakenAt> = {}
+  // v3 (also the shape of each v4 tracker)
+  if (version === 3) {
+    const taken: Record<ISODate, DoseEntry[]> = {}
+    for (const [k, v] of Object.entries(takenRaw as Record<string, unknown>)) {
+      if (!isISODateKey(k) || !Array.isArray(v)) continue
+      const doses = v.map(coerceDoseEntry).filter((d): d is DoseEntry => d !== null)
+      // An empty list would read as "taken" without any dose; drop it instead.
+      if (doses.length > 0) taken[k as ISODate] = doses
+    }
+    return {
+      startDate: obj.startDate as ISODate,
+      taken,
+      targets: coerceTargets(obj.targets),
+      partialDays: obj.partialDays === 'break' ? 'break' : 'keep',
+      restDays: coerceRestDays(obj.restDays, taken),
+      supplies: coerceSupplies(obj.supplies),
+      lowSupplyDays:
+        typeof obj.lowSupplyDays === 'number' &&
+        Number.isInteger(obj.lowSupplyDays) &&
+        obj.lowSupplyDays >= 0
+          ? obj.lowSupplyDays
+          : DEFAULT_LOW_SUPPLY_DAYS,
+      protocol: coerceProtocol(obj.protocol),
+      achievements: coerceAchievements(obj.achievements),
+      dayEditedAt: coerceDayEditedAt(obj.dayEditedAt),
+      targetEditedAt: coerceDayEditedAt(obj.targetEditedAt),
+      supplyEditedAt: coerceTimestamps(obj.supplyEditedAt),
+      startDateEditedAt:
+        typeof obj.startDateEditedAt === 'number' && Number.isFinite(obj.startDateEditedAt)
+          ? obj.startDateEditedAt
+          : 0,
+    }
+  }
+
+  // v2 -> migrate (one dose of unknown amount, keeping the stored time)
+  if (version === 2) {
+    const taken: Record<ISODate, DoseEntry[]> = {}
     for (const [k, v] of Object.entries(takenRaw as Record<string, unknown>)) {
       if (!isISODateKey(k)) continue
-      if (typeof v === 'number') taken[k as ISODate] = v
-      else if (v === null) taken[k as ISODate] = null
+      if (typeof v === 'number') taken[k as ISODate] = [{ grams: null, at: v, tz: null }]
+      else if (v === null) taken[k as ISODate] = [{ grams: null, at: null, tz: null }]
       // ignore booleans/other unexpected values
     }
     return {
-      version: 2,
       startDate: obj.startDate as ISODate,
       taken,
-      updatedAt: typeof obj.updatedAt === 'number' ? obj.updatedAt : Date.now(),
+      targets: [],
+      partialDays: 'keep',
+      restDays: {},
+      supplies: [],
+      lowSupplyDays: DEFAULT_LOW_SUPPLY_DAYS,
+      protocol: null,
+      achievements: {},
+      dayEditedAt: {},
+      targetEditedAt: {},
+      supplyEditedAt: {},
+      startDateEditedAt: 0,
     }
   }
 
-  // v1 -> migrate (true => taken with unknown time)
-  if (obj.version === 1) {
-    const taken: Record<ISODate, TakenAt> = {}
+  // v1 -> migrate (true => taken with unknown amount and time)
+  if (version === 1) {
+    const taken: Record<ISODate, DoseEntry[]> = {}
     for (const [k, v] of Object.entries(takenRaw as Record<string, unknown>)) {
       if (!isISODateKey(k)) continue
-      if (v === true) taken[k as ISODate] = null
+      if (v === true) taken[k as ISODate] = [{ grams: null, at: null, tz: null }]
     }
     return {
-      version: 2,
       startDate: obj.startDate as ISODate,
       taken,
-      updatedAt: typeof obj.updatedAt === 'number' ? obj.updatedAt : Date.now(),
+      targets: [],
+      partialDays: 'keep',
+      restDays: {},
+      supplies: [],
+      lowSupplyDays: DEFAULT_LOW_SUPPLY_DAYS,
+      protocol: null,
+      achievements: {},
+      dayEditedAt: {},
+      targetEditedAt: {},
+      supplyEditedAt: {},
+      startDateEditedAt: 0,
     }
   }
 
   return null
 }
 
-export function ensureStartDate(save: SaveDataV2, candidate: ISODate) {
-  if (!save.startDate) return { ...save, startDate: candidate }
-  if (compareISODate(candidate, save.startDate) < 0) return { ...save, startDate: candidate }
-  return save
+export function isReminderTime(v: unknown): v is string {
+  return typeof v === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(v)
+}
+
+function coerceReminders(v: unknown): ReminderSettings {
+  if (!v || typeof v !== 'object') return { enabled: false, times: [] }
+  const obj = v as Record<string, unknown>
+  const times = Array.isArray(obj.times)
+    ? [...new Set(obj.times.filter(isReminderTime))].sort()
+    : []
+  return { enabled: obj.enabled === true, times }
+}
+
+function pick<T>(options: readonly T[], v: unknown, fallback: T): T {
+  return options.find((o) => o === v) ?? fallback
+}
+
+export function isWeekday(v: unknown): v is Weekday {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 6
+}
+
+// Before settings existed, the history view, reminders and language sat at the top level of the
+// save; those are read from there when `settings` is missing.
+function coerceSettings(v: unknown, legacy: Record<string, unknown>): Settings {
+  const obj = v && typeof v === 'object' ? (v as Record<string, unknown>) : legacy
+  return {
+    theme: pick(THEMES, obj.theme, DEFAULT_SETTINGS.theme),
+    weekStart: isWeekday(obj.weekStart) ? obj.weekStart : DEFAULT_SETTINGS.weekStart,
+    timeFormat: pick(TIME_FORMATS, obj.timeFormat, DEFAULT_SETTINGS.timeFormat),
+    dateFormat: pick(DATE_FORMATS, obj.dateFormat, DEFAULT_SETTINGS.dateFormat),
+    historyView: pick(HISTORY_VIEWS, obj.historyView, DEFAULT_SETTINGS.historyView),
+    historyFilter: pick(HISTORY_FILTER_DEFAULTS, obj.historyFilter, DEFAULT_SETTINGS.historyFilter),
+    reminders: coerceReminders(obj.reminders),
+    locale: isLocale(obj.locale) ? obj.locale : null,
+    weightUnit: pick(WEIGHT_UNITS, obj.weightUnit, DEFAULT_SETTINGS.weightUnit),
+  }
+}
+
+function coerceDayBoundary(v: unknown): DayBoundary {
+  if (!v || typeof v !== 'object') return DEVICE_DAY_BOUNDARY
+  const obj = v as Record<string, unknown>
+  const rolloverHour =
+    typeof obj.rolloverHour === 'number' &&
+    Number.isInteger(obj.rolloverHour) &&
+    obj.rolloverHour >= 0 &&
+    obj.rolloverHour <= 11
+      ? obj.rolloverHour
+      : 0
+  return { timeZone: isTimeZone(obj.timeZone) ? obj.timeZone : null, rolloverHour }
+}
+
+function coerceBodyweight(v: unknown): Record<ISODate, number> {
+  const out: Record<ISODate, number> = {}
+  if (!v || typeof v !== 'object') return out
+  for (const [k, kg] of Object.entries(v as Record<string, unknown>)) {
+    if (isISODateKey(k) && typeof kg === 'number' && Number.isFinite(kg) && kg > 0) out[k] = kg
+  }
+  return out
+}
+
+// Edit timestamps keyed by id (removed trackers, supplies).
+function coerceTimestamps(v: unknown): Record<string, number> {
+  const out: Record<string, number> = {}
+  if (!v || typeof v !== 'object') return out
+  for (const [id, at] of Object.entries(v as Record<string, unknown>)) {
+    if (id && typeof at === 'number' && Number.isFinite(at)) out[id] = at
+  }
+  return out
+}
+
+function coerceTracker(v: unknown): Tracker | null {
+  if (!v || typeof v !== 'object') return null
+  const obj = v as Record<string, unknown>
+  if (typeof obj.id !== 'string' || !obj.id) return null
+  const data = coerceTrackerData(obj, 3)
+  if (!data) return null
+  const name = typeof obj.name === 'string' && obj.name.trim() ? obj.name.trim() : 'Untitled'
+  return { id: obj.id, name, ...data }
+}
+
+export function coerceSave(input: unknown): SaveDataV4 | null {
+  if (!input || typeof input !== 'object') return null
+  const obj = input as Record<string, unknown>
+  const updatedAt = typeof obj.updatedAt === 'number' ? obj.updatedAt : Date.now()
+
+  // v4 (preferred)
+  if (obj.version === 4) {
+    if (!Array.isArray(obj.trackers)) return null
+    const trackers: Tracker[] = []
+    for (const raw of obj.trackers) {
+      const tracker = coerceTracker(raw)
+      if (tracker && !trackers.some((t) => t.id === tracker.id)) trackers.push(tracker)
+    }
+    if (trackers.length === 0) return null
+    const activeTrackerId = trackers.some((t) => t.id === obj.activeTrackerId)
+      ? (obj.activeTrackerId as string)
+      : trackers[0].id
+    return {
+      version: 4,
+      trackers,
+      activeTrackerId,
+      settings: coerceSettings(obj.settings, obj),
+      dayBoundary: coerceDayBoundary(obj.dayBoundary),
+      bodyweight: coerceBodyweight(obj.bodyweight),
+      bodyweightEditedAt: coerceDayEditedAt(obj.bodyweightEditedAt),
+      removedTrackers: coerceTimestamps(obj.removedTrackers),
+      updatedAt,
+    }
+  }
+
+  // v1-v3 -> migrate the single habit into the default tracker
+  const data = coerceTrackerData(obj, obj.version)
+  if (!data) return null
+  return {
+    version: 4,
+    trackers: [{ id: DEFAULT_TRACKER_ID, name: DEFAULT_TRACKER_NAME, ...data }],
+    activeTrackerId: DEFAULT_TRACKER_ID,
+    settings: DEFAULT_SETTINGS,
+    dayBoundary: DEVICE_DAY_BOUNDARY,
+    bodyweight: {},
+    bodyweightEditedAt: {},
+    removedTrackers: {},
+    updatedAt,
+  }
+}
+
+export function getActiveTracker(save: SaveDataV4): Tracker {
+  return save.trackers.find((t) => t.id === save.activeTrackerId) ?? save.trackers[0]
+}
+
+export function updateTracker(
+  save: SaveDataV4,
+  id: string,
+  update: (tracker: Tracker) => Tracker,
+): SaveDataV4 {
+  return {
+    ...save,
+    trackers: save.trackers.map((t) => (t.id === id ? update(t) : t)),
+    updatedAt: Date.now(),
+  }
+}
+
+export function makeId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID()
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Adds a tracker and switches to it.
+export function addTracker(save: SaveDataV4, name: string, today: ISODate): SaveDataV4 {
+  const tracker = makeTracker(makeId(), name, today)
+  return {
+    ...save,
+    trackers: [...save.trackers, tracker],
+    activeTrackerId: tracker.id,
+    updatedAt: Date.now(),
+  }
+}
+
+export function renameTracker(save: SaveDataV4, id: string, name: string): SaveDataV4 {
+  return updateTracker(save, id, (t) => ({ ...t, name }))
+}
+
+// The last tracker can't be removed (a save always has at least one).
+export function removeTracker(save: SaveDataV4, id: string): SaveDataV4 {
+  if (save.trackers.length <= 1) return save
+  const trackers = save.trackers.filter((t) => t.id !== id)
+  const activeTrackerId = save.activeTrackerId === id ? trackers[0].id : save.activeTrackerId
+  const now = Date.now()
+  const removedTrackers = { ...save.removedTrackers, [id]: now }
+  return { ...save, trackers, activeTrackerId, removedTrackers, updatedAt: now }
+}
+
+// Starts over with a fresh default tracker. The old trackers and bodyweight entries are removed
+// with tombstones, so a merge with a copy from before doesn't bring them back. Settings and the
+// day boundary stay.
+export function clearSave(save: SaveDataV4, today: ISODate): SaveDataV4 {
+  const now = Date.now()
+  const removedTrackers = { ...save.removedTrackers }
+  for (const t of save.trackers) removedTrackers[t.id] = now
+  const bodyweightEditedAt = { ...save.bodyweightEditedAt }
+  for (const key of Object.keys(save.bodyweight) as ISODate[]) bodyweightEditedAt[key] = now
+  // A new id: the old one is tombstoned.
+  const tracker = makeTracker(makeId(), DEFAULT_TRACKER_NAME, today)
+  return {
+    ...save,
+    trackers: [tracker],
+    activeTrackerId: tracker.id,
+    bodyweight: {},
+    bodyweightEditedAt,
+    removedTrackers,
+    updatedAt: now,
+  }
+}
+
+export function setActiveTracker(save: SaveDataV4, id: string): SaveDataV4 {
+  if (!save.trackers.some((t) => t.id === id)) return save
+  return { ...save, activeTrackerId: id }
+}
+
+// Logs the day's bodyweight (in kg), replacing any earlier entry that day; null removes it.
+export function setBodyweight(save: SaveDataV4, key: ISODate, kg: number | null): SaveDataV4 {
+  const bodyweight = { ...save.bodyweight }
+  if (kg === null) delete bodyweight[key]
+  else bodyweight[key] = kg
+  const now = Date.now()
+  const bodyweightEditedAt = { ...save.bodyweightEditedAt, [key]: now }
+  return { ...save, bodyweight, bodyweightEditedAt, updatedAt: now }
+}
+
+// Earliest taken or rest day, or null if there's none.
+export function getFirstRecordedDay(tracker: Tracker): ISODate | null {
+  const keys = [...Object.keys(tracker.taken), ...Object.keys(tracker.restDays)] as ISODate[]
+  return keys.length > 0 ? keys.reduce((a, b) => (compareISODate(a, b) <= 0 ? a : b)) : null
+}
+
+// Sets the first tracked day by hand (callers keep it on or before getFirstRecordedDay). Stamped,
+// so a merge takes the latest choice, later or earlier, over the other device's.
+export function setStartDate(tracker: Tracker, date: ISODate): Tracker {
+  return { ...tracker, startDate: date, startDateEditedAt: Date.now() }
+}
+
+export function ensureStartDate(tracker: Tracker, candidate: ISODate) {
+  if (!tracker.startDate) return { ...tracker, startDate: candidate }
+  if (compareISODate(candidate, tracker.startDate) < 0) return { ...tracker, startDate: candidate }
+  return tracker
 }
 
 export function buildHistoryKeysInclusive(start: ISODate, end: ISODate): ISODate[] {
@@ -169,65 +925,337 @@ export function buildHistoryKeysInclusive(start: ISODate, end: ISODate): ISODate
 }
 
 export type StreakInfo = {
+  // Counted (taken) days only.
   length: number
   start: ISODate | null
   end: ISODate | null
+  // Rest days inside the run: they kept it going but aren't part of `length`.
+  bridged: number
+}
+
+export function isTaken(tracker: Tracker, key: ISODate) {
+  return Object.prototype.hasOwnProperty.call(tracker.taken, key)
+}
+
+export function getDoses(tracker: Tracker, key: ISODate): DoseEntry[] {
+  return isTaken(tracker, key) ? tracker.taken[key] : []
 }
 
-export function isTaken(save: SaveDataV2, key: ISODate) {
-  return Object.prototype.hasOwnProperty.call(save.taken, key)
+// Sum of the recorded amounts, or null when no dose that day has a known amount.
+export function getDailyTotalGrams(tracker: Tracker, key: ISODate): number | null {
+  let total: number | null = null
+  for (const dose of getDoses(tracker, key)) {
+    if (dose.grams === null) continue
+    total = (total ?? 0) + dose.grams
+  }
+  return total
+}
+
+// Dose with the earliest known entry time for the day (used for the "Taken at" label).
+export function getFirstTimedDose(tracker: Tracker, key: ISODate): DoseEntry | null {
+  let first: DoseEntry | null = null
+  for (const dose of getDoses(tracker, key)) {
+    if (dose.at === null) continue
+    if (first === null || dose.at < (first.at as number)) first = dose
+  }
+  return first
 }
 
-export function computeCurrentStreak(save: SaveDataV2, today: ISODate): StreakInfo {
+export function getFirstTakenAt(tracker: Tracker, key: ISODate): TakenAt {
+  return getFirstTimedDose(tracker, key)?.at ?? null
+}
+
+// Replaces a day's doses; an empty list removes the day (i.e. marks it not taken). Taking a dose
+// on a rest day turns it back into a normal day.
+export function setDoses(tracker: Tracker, key: ISODate, doses: DoseEntry[]): Tracker {
+  const taken = { ...tracker.taken }
+  const restDays = { ...tracker.restDays }
+  if (doses.length > 0) {
+    taken[key] = doses
+    delete restDays[key]
+  } else {
+    delete taken[key]
+  }
+  const dayEditedAt = { ...tracker.dayEditedAt, [key]: Date.now() }
+  const next: Tracker = { ...tracker, taken, restDays, dayEditedAt }
+  return doses.length > 0 ? ensureStartDate(next, key) : next
+}
+
+export function getRestDay(tracker: Tracker, key: ISODate): RestDayKind | null {
+  return tracker.restDays[key] ?? null
+}
+
+// One freeze is earned per this many taken days, and at most MAX_BANKED_FREEZES are kept unspent.
+export const FREEZE_EARN_DAYS = 7
+export const MAX_BANKED_FREEZES = 2
+
+// Replays earning and spending in date order, so the bank cap applies as it would have at the
+// time. `lowest` goes negative where a freeze was spent before one was available (e.g. in data
+// from before that was checked); such debts are carried, not forgiven.
+function replayFreezes(tracker: Tracker): { balance: number; lowest: number } {
+  const keys = [
+    ...new Set([
+      ...(Object.keys(tracker.taken) as ISODate[]),
+      ...(Object.keys(tracker.restDays) as ISODate[]),
+    ]),
+  ].sort(compareISODate)
+  let balance = 0
+  let lowest = 0
+  let takenDays = 0
+  for (const k of keys) {
+    if (isTaken(tracker, k)) {
+      takenDays += 1
+      if (takenDays % FREEZE_EARN_DAYS === 0) {
+        balance = Math.min(balance + 1, MAX_BANKED_FREEZES)
+      }
+    } else if (tracker.restDays[k] === 'freeze') {
+      balance -= 1
+      lowest = Math.min(lowest, balance)
+    }
+  }
+  return { balance, lowest }
+}
+
+// Freezes available to spend after the last recorded day.
+export function computeFreezeBalance(tracker: Tracker): number {
+  return Math.max(replayFreezes(tracker).balance, 0)
+}
+
+// A freeze can be spent on an untaken day only if one was earned and still unspent by then, and
+// spending it there doesn't leave a later freeze without one.
+export function canSpendFreeze(tracker: Tracker, key: ISODate): boolean {
+  if (isTaken(tracker, key) || getRestDay(tracker, key) === 'freeze') return false
+  const restDays: Record<ISODate, RestDayKind> = { ...tracker.restDays, [key]: 'freeze' }
+  return replayFreezes({ ...tracker, restDays }).lowest >= 0
+}
+
+// Marks an untaken day as a rest day, or clears it (`kind` null). Taken days can't be rest days,
+// and a freeze can only be spent where canSpendFreeze() allows it.
+export function setRestDay(tracker: Tracker, key: ISODate, kind: RestDayKind | null): Tracker {
+  const current = getRestDay(tracker, key)
+  if (isTaken(tracker, key) || current === kind) return tracker
+  if (kind === 'freeze' && !canSpendFreeze(tracker, key)) return tracker
+  const restDays = { ...tracker.restDays }
+  if (kind) restDays[key] = kind
+  else delete restDays[key]
+  const dayEditedAt = { ...tracker.dayEditedAt, [key]: Date.now() }
+  return { ...tracker, restDays, dayEditedAt }
+}
+
+// Records a full-target dose for `key` unless the day is already taken, so it's safe to repeat.
+// A known time is stamped with the device's current zone.
+export function markTaken(tracker: Tracker, key: ISODate, at: TakenAt): Tracker {
+  if (isTaken(tracker, key)) return tracker
+  const tz = at === null ? null : getDeviceTimeZone()
+  return setDoses(tracker, key, [{ grams: getTargetGrams(tracker, key), at, tz }])
+}
+
+// Whole days from `from` to `to` (negative when `to` is earlier).
+export function daysBetween(from: ISODate, to: ISODate): number {
+  const utc = (k: ISODate) =>
+    Date.UTC(Number(k.slice(0, 4)), Number(k.slice(5, 7)) - 1, Number(k.slice(8, 10)))
+  return Math.round((utc(to) - utc(from)) / (24 * 60 * 60 * 1000))
+}
+
+// Where a day falls in the tracker's protocol.
+export type PlannedDay = {
+  phase: ProtocolPhase
+  // Index into `protocol.phases`.
+  index: number
+  // 1-based day within the phase, and the 1-based pass through the phases.
+  day: number
+  cycle: number
+}
+
+// The protocol phase planned for `key`, or null before the protocol starts and after it ends.
+export function getPlannedDay(tracker: Tracker, key: ISODate): PlannedDay | null {
+  const protocol = tracker.protocol
+  if (!protocol) return null
+  let offset = daysBetween(protocol.startDate, key)
+  if (offset < 0) return null
+  const { phases, repeatFrom } = protocol
+
+  const find = (first: number, cycle: number): PlannedDay | null => {
+    for (let index = first; index < phases.length; index++) {
+      const phase = phases[index]
+      if (phase.days === null || offset < phase.days) {
+        return { phase, index, day: offset + 1, cycle }
+      }
+      offset -= phase.days
+    }
+    return null
+  }
+
+  const planned = find(0, 1)
+  if (planned || repeatFrom === null) return planned
+  // Every phase of a cycle has a length (see coerceProtocol), so the cycle can be skipped ahead.
+  const cycleDays = phases.slice(repeatFrom).reduce((n, p) => n + (p.days ?? 0), 0)
+  if (cycleDays === 0) return null
+  const cycle = 2 + Math.floor(offset / cycleDays)
+  offset %= cycleDays
+  return find(repeatFrom, cycle)
+}
+
+// Amount a protocol phase expects per day, or null when it doesn't say.
+export function getPlannedGrams(phase: ProtocolPhase): number | null {
+  if (phase.kind === 'off' || phase.gramsPerDose === null) return null
+  return phase.dosesPerDay * phase.gramsPerDose
+}
+
+// Target in effect on `key`: the protocol's planned amount if it sets one, else the latest target
+// change on or before it, or null if none applies.
+export function getTargetGrams(tracker: Tracker, key: ISODate): number | null {
+  const planned = getPlannedDay(tracker, key)
+  const plannedGrams = planned ? getPlannedGrams(planned.phase) : null
+  if (plannedGrams !== null) return plannedGrams
+  let grams: number | null = null
+  for (const t of tracker.targets) {
+    if (compareISODate(t.from, key) > 0) break
+    grams = t.grams
+  }
+  return grams
+}
+
+// Sets the target from `from` onwards, replacing any change already recorded for that day.
+export function setTargetFrom(tracker: Tracker, from: ISODate, grams: number | null): Tracker {
+  const targets = tracker.targets
+    .filter((t) => t.from !== from)
+    .concat({ from, grams })
+    .sort((a, b) => compareISODate(a.from, b.from))
+  const targetEditedAt = { ...tracker.targetEditedAt, [from]: Date.now() }
+  return { ...tracker, targets, targetEditedAt }
+}
+
+export function removeTargetChange(tracker: Tracker, from: ISODate): Tracker {
+  const targetEditedAt = { ...tracker.targetEditedAt, [from]: Date.now() }
+  return { ...tracker, targets: tracker.targets.filter((t) => t.from !== from), targetEditedAt }
+}
+
+export function addSupply(tracker: Tracker, supply: Omit<Supply, 'id'>): Tracker {
+  const id = makeId()
+  const supplies = [...tracker.supplies, { id, ...supply }].sort((a, b) =>
+    compareISODate(a.purchasedOn, b.purchasedOn),
+  )
+  const supplyEditedAt = { ...tracker.supplyEditedAt, [id]: Date.now() }
+  return { ...tracker, supplies, supplyEditedAt }
+}
+
+export function removeSupply(tracker: Tracker, id: string): Tracker {
+  const supplyEditedAt = { ...tracker.supplyEditedAt, [id]: Date.now() }
+  return { ...tracker, supplies: tracker.supplies.filter((s) => s.id !== id), supplyEditedAt }
+}
+
+export type DayStatus = 'met' | 'partial' | 'missed'
+
+export function getDayStatus(tracker: Tracker, key: ISODate): DayStatus {
+  if (!isTaken(tracker, key)) return 'missed'
+  const target = getTargetGrams(tracker, key)
+  const total = getDailyTotalGrams(tracker, key)
+  // Without a target, or without any recorded amount (e.g. migrated days), a check counts in full.
+  if (target === null || total === null) return 'met'
+  return total >= target ? 'met' : 'partial'
+}
+
+function countsForStreak(tracker: Tracker, key: ISODate, policy: PartialDayPolicy) {
+  const status = getDayStatus(tracker, key)
+  return status === 'met' || (status === 'partial' && policy === 'keep')
+}
+
+export type StreakDay = 'counts' | 'bridged' | 'breaks'
+
+// Rest days and the protocol's off-cycle days bridge a streak; any other day that doesn't count
+// breaks it.
+export function classifyStreakDay(
+  tracker: Tracker,
+  key: ISODate,
+  policy: PartialDayPolicy,
+): StreakDay {
+  if (countsForStreak(tracker, key, policy)) return 'counts'
+  if (getRestDay(tracker, key)) return 'bridged'
+  return getPlannedDay(tracker, key)?.phase.kind === 'off' ? 'bridged' : 'breaks'
+}
+
+export function formatGrams(grams: number) {
+  // Keep at most one decimal (2.5 g) without trailing zeros (5 g).
+  return `${Math.round(grams * 10) / 10} g`
+}
+
+export function computeCurrentStreak(
+  tracker: Tracker,
+  today: ISODate,
+  policy: PartialDayPolicy = tracker.partialDays,
+): StreakInfo {
   // "Current streak" is the most recent consecutive run up to today.
   // If today isn't taken yet, we allow the streak to end yesterday (so users don't lose the
   // streak during the day). It only drops to 0 once there's a full-day gap.
-  const todayTaken = isTaken(save, today)
-  const startCursor = todayTaken
-    ? makeLocalNoonDateFromISO(today)
-    : addDaysLocalNoon(makeLocalNoonDateFromISO(today), -1)
-
-  const startKey = toISODateKeyLocal(startCursor)
-  if (!isTaken(save, startKey)) return { length: 0, start: null, end: null }
+  // The same applies to a partial day under the 'break' policy: today can still be topped up.
+  // Rest days bridge the run; they're reported in `bridged`, and only between/after counted days.
+  const todayDay = classifyStreakDay(tracker, today, policy)
+  const startCursor =
+    todayDay === 'breaks'
+      ? addDaysLocalNoon(makeLocalNoonDateFromISO(today), -1)
+      : makeLocalNoonDateFromISO(today)
 
   let len = 0
+  let bridged = 0
+  // Rest days seen since the last counted day; they only join the run once an older day counts.
+  let pending = 0
+  let end: ISODate | null = null
+  let start: ISODate | null = null
   let cursor = startCursor
   while (true) {
     const key = toISODateKeyLocal(cursor)
-    if (!isTaken(save, key)) break
-    len += 1
+    const day = classifyStreakDay(tracker, key, policy)
+    if (day === 'breaks') break
+    if (day === 'counts') {
+      len += 1
+      bridged += pending
+      pending = 0
+      start = key
+      end ??= toISODateKeyLocal(startCursor)
+    } else {
+      pending += 1
+    }
     cursor = addDaysLocalNoon(cursor, -1)
   }
-  const runStartKey = toISODateKeyLocal(addDaysLocalNoon(cursor, 1))
-  const runEndKey = toISODateKeyLocal(startCursor)
-  return { length: len, start: runStartKey, end: runEndKey }
+  if (len === 0) return { length: 0, start: null, end: null, bridged: 0 }
+  return { length: len, start, end, bridged }
 }
 
-export function computeBestStreak(save: SaveDataV2, start: ISODate, end: ISODate): StreakInfo {
+export function computeBestStreak(
+  tracker: Tracker,
+  start: ISODate,
+  end: ISODate,
+  policy: PartialDayPolicy = tracker.partialDays,
+): StreakInfo {
   const keysAsc = buildHistoryKeysInclusive(start, end).slice().reverse()
-  let bestLen = 0
-  let bestStart: ISODate | null = null
-  let bestEnd: ISODate | null = null
+  let best: StreakInfo = { length: 0, start: null, end: null, bridged: 0 }
 
   let runLen = 0
   let runStart: ISODate | null = null
+  let runBridged = 0
+  let pending = 0
 
   for (const k of keysAsc) {
-    if (isTaken(save, k)) {
+    const day = classifyStreakDay(tracker, k, policy)
+    if (day === 'counts') {
       if (runLen === 0) runStart = k
       runLen += 1
-      if (runLen > bestLen) {
-        bestLen = runLen
-        bestStart = runStart
-        bestEnd = k
+      runBridged += pending
+      pending = 0
+      if (runLen > best.length) {
+        best = { length: runLen, start: runStart, end: k, bridged: runBridged }
       }
+    } else if (day === 'bridged') {
+      // Rest days before the first counted day don't start a run.
+      if (runLen > 0) pending += 1
     } else {
       runLen = 0
       runStart = null
+      runBridged = 0
+      pending = 0
     }
   }
 
-  return { length: bestLen, start: bestStart, end: bestEnd }
+  return best
 }
-
-
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import { makeDefaultSave, makeTracker, type SaveData, type Tracker } from './creatine'
+import {
+  detectCsvColumns,
+  exportSaveCsv,
+  importSaveCsv,
+  parseCsv,
+  setCsvColumn,
+} from './csv'
+
+// Tests run with TZ=America/New_York (see vite.config.ts).
+const NY = 'America/New_York'
+
+function fixture(): SaveData {
+  const creatine: Tracker = {
+    ...makeTracker('creatine', 'Creatine', '2026-03-08'),
+    taken: {
+      // The day clocks spring forward.
+      '2026-03-08': [{ grams: 5, at: new Date(2026, 2, 8, 7, 30).getTime(), tz: NY }],
+      // Two doses in a day.
+      '2026-03-10': [
+        { grams: 5, at: new Date(2026, 2, 10, 8, 0).getTime(), tz: NY },
+        { grams: 2.5, at: new Date(2026, 2, 10, 20, 15).getTime(), tz: NY },
+      ],
+      // 01:30 the next morning still belongs to 03-11 with a 4 a.m. rollover.
+      '2026-03-11': [{ grams: 3, at: new Date(2026, 2, 12, 1, 30).getTime(), tz: NY }],
+      // Taken while travelling: 20:00 in Tokyo is 07:00 at home.
+      '2026-03-13': [{ grams: 5, at: Date.UTC(2026, 2, 13, 11, 0), tz: 'Asia/Tokyo' }],
+      // Unknown time and amount.
+      '2026-03-16': [{ grams: null, at: null, tz: null }],
+    },
+    restDays: { '2026-03-14': 'excused', '2026-03-15': 'freeze' },
+  }
+  const vitaminD: Tracker = {
+    ...makeTracker('vitamin-d', 'Vitamin D, 2000 IU', '2026-03-15'),
+    taken: { '2026-03-15': [{ grams: null, at: new Date(2026, 2, 15, 9, 5).getTime(), tz: NY }] },
+  }
+  return {
+    ...makeDefaultSave('2026-03-08'),
+    trackers: [creatine, vitaminD],
+    dayBoundary: { timeZone: NY, rolloverHour: 4 },
+  }
+}
+
+describe('exportSaveCsv / importSaveCsv', () => {
+  it('round-trips doses, rest days, time zones and rollover times', () => {
+    const save = fixture()
+    const csv = exportSaveCsv(save, '2026-03-16')
+    const result = importSaveCsv(csv, save)
+
+    expect(result.errors).toEqual([])
+    expect(result.save?.trackers.map((t) => t.id)).toEqual(['creatine', 'vitamin-d'])
+    for (const original of save.trackers) {
+      const imported = result.save?.trackers.find((t) => t.id === original.id)
+      expect(imported?.name).toBe(original.name)
+      expect(imported?.startDate).toBe(original.startDate)
+      expect(imported?.taken).toEqual(original.taken)
+      expect(imported?.restDays).toEqual(original.restDays)
+    }
+  })
+
+  it('writes a row per dose and per untaken day', () => {
+    const lines = exportSaveCsv(fixture(), '2026-03-16').trimEnd().split('\r\n')
+    expect(lines[0]).toBe('tracker,date,taken,time,grams,tz')
+    expect(lines).toContain('Creatine,2026-03-09,no,,,')
+    expect(lines).toContain('Creatine,2026-03-10,yes,20:15,2.5,America/New_York')
+    expect(lines).toContain('Creatine,2026-03-11,yes,01:30,3,America/New_York')
+    expect(lines).toContain('Creatine,2026-03-13,yes,20:00,5,Asia/Tokyo')
+    expect(lines).toContain('Creatine,2026-03-15,freeze,,,')
+    expect(lines).toContain('"Vitamin D, 2000 IU",2026-03-15,yes,09:05,,America/New_York')
+  })
+
+  it('writes and reads doses without a zone in the home zone', () => {
+    const lisbon = 'Europe/Lisbon'
+    // 08:00 in Lisbon, 04:00 on the device.
+    const at = Date.UTC(2026, 2, 10, 8, 0)
+    const save: SaveData = {
+      ...makeDefaultSave('2026-03-10'),
+      trackers: [
+        {
+          ...makeTracker('creatine', 'Creatine', '2026-03-10'),
+          taken: { '2026-03-10': [{ grams: 5, at, tz: null }] },
+        },
+      ],
+      dayBoundary: { timeZone: lisbon, rolloverHour: 0 },
+    }
+    const csv = exportSaveCsv(save, '2026-03-10')
+    expect(csv).toContain('Creatine,2026-03-10,yes,08:00,5,Europe/Lisbon')
+
+    const imported = importSaveCsv(csv, save).save?.trackers[0]
+    expect(imported?.taken['2026-03-10']).toEqual([{ grams: 5, at, tz: lisbon }])
+  })
+})
+
+describe('importSaveCsv errors', () => {
+  it('reports malformed rows by line and imports the rest', () => {
+    const csv = [
+      'date,taken,time,grams,tz,note',
+      '2026-03-01,yes,08:00,5,,',
+      '03/02/2026,yes,,,,',
+      '2026-03-03,yes,25:00,,,',
+      '2026-03-04,yes,08:00,,Mars/Olympus,',
+      '2026-03-05,yes,,lots,,',
+      '2026-03-06,maybe,,,,"a note',
+      'across lines"',
+      '2026-03-07,no,,,,',
+      '2026-02-30,yes,,,,',
+    ].join('\n')
+    const result = importSaveCsv(csv, makeDefaultSave('2026-03-01'))
+
+    expect(result.errors).toEqual([
+      { line: 3, code: 'badDate', params: { value: '03/02/2026' } },
+      { line: 4, code: 'badTime', params: { value: '25:00' } },
+      { line: 5, code: 'badTimeZone', params: { value: 'Mars/Olympus' } },
+      { line: 6, code: 'badAmount', params: { value: 'lots' } },
+      { line: 7, code: 'badTaken', params: { value: 'maybe' } },
+      { line: 10, code: 'badDate', params: { value: '2026-02-30' } },
+    ])
+    expect(result.rows).toBe(2)
+    expect(Object.keys(result.save?.trackers[0].taken ?? {})).toEqual(['2026-03-01'])
+  })
+
+  it('reports an unterminated quote and an empty file', () => {
+    expect(parseCsv('date\n2026-03-01\n"oops').error).toEqual({
+      line: 3,
+      code: 'unterminatedQuote',
+    })
+    expect(importSaveCsv('', makeDefaultSave('2026-03-01')).errors).toEqual([
+      { line: 1, code: 'emptyFile' },
+    ])
+  })
+})
+
+describe('CSV column mapping', () => {
+  it('detects per-habit columns and headerless files', () => {
+    const wide = parseCsv('Date,Creatine,Vitamin D\n2026-03-01,2,0\n').rows
+    expect(detectCsvColumns(wide)?.mapping).toMatchObject({
+      date: 0,
+      trackerColumns: { 1: 'Creatine', 2: 'Vitamin D' },
+    })
+    const headerless = parseCsv('2026-03-01,2\n2026-03-02,0\n').rows
+    expect(detectCsvColumns(headerless)).toEqual({
+      header: null,
+      columnCount: 2,
+      mapping: { date: 0, taken: 1 },
+    })
+  })
+
+  it('names the habit whose column holds an unknown value', () => {
+    const result = importSaveCsv('Date,Creatine\n2026-03-01,maybe\n', makeDefaultSave('2026-03-01'))
+    expect(result.errors).toEqual([
+      { line: 2, code: 'badTrackerValue', params: { value: 'maybe', tracker: 'Creatine' } },
+    ])
+  })
+
+  it('imports with columns mapped by hand', () => {
+    const csv = 'when,pill,amount_mg\n2026-03-01,yes,5\n2026-03-02,no,\n'
+    const base = makeDefaultSave('2026-03-01')
+    const detected = detectCsvColumns(parseCsv(csv).rows)
+    // Unknown names: the date column is found by content and the rest look like habits.
+    expect(detected?.mapping).toMatchObject({
+      date: 0,
+      trackerColumns: { 1: 'pill', 2: 'amount_mg' },
+    })
+
+    const mapped = setCsvColumn(setCsvColumn(detected!, 'taken', 1), 'grams', 2)
+    expect(mapped.mapping.trackerColumns).toBeUndefined()
+    const result = importSaveCsv(csv, base, mapped)
+    expect(result.errors).toEqual([])
+    expect(result.save?.trackers[0].taken).toEqual({
+      '2026-03-01': [{ grams: 5, at: null, tz: null }],
+    })
+  })
+})
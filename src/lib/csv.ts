@@ -0,0 +1,451 @@
+import {
+  buildHistoryKeysInclusive,
+  compareISODate,
+  getDoses,
+  getRestDay,
+  isISODateKey,
+  isTimeZone,
+  makeLocalTimestamp,
+  makeTracker,
+  makeId,
+  pad2,
+  resolveTimeZone,
+  toLocalTimeValue,
+  type DayBoundary,
+  type DoseEntry,
+  type ISODate,
+  type RestDayKind,
+  type SaveData,
+  type Tracker,
+} from './creatine'
+
+// What went wrong with a row; the app turns it into a message (`csv.error.<code>`).
+export type CsvErrorCode =
+  | 'unterminatedQuote'
+  | 'emptyFile'
+  | 'noDateColumn'
+  | 'badDate'
+  | 'badTime'
+  | 'badTimeZone'
+  | 'badAmount'
+  | 'badTrackerValue'
+  | 'badTaken'
+
+// A problem with one CSV row. `line` is the 1-based line the row starts on; `params` holds the
+// offending cell (`value`) and, for per-habit columns, the habit (`tracker`).
+export type CsvRowError = {
+  line: number
+  code: CsvErrorCode
+  params?: { value: string; tracker?: string }
+}
+
+export type CsvRow = {
+  line: number
+  cells: string[]
+}
+
+// Column indexes of the fields we understand. Only `date` is required.
+export type CsvColumnMapping = {
+  date: number
+  // Missing: every row counts as taken.
+  taken?: number
+  // `HH:MM` (24h or with am/pm). Missing: taken from the date cell if it has a time part.
+  time?: number
+  grams?: number
+  // IANA zone the time is in. Missing or empty: the save's home zone.
+  tz?: number
+  // Tracker/habit name. Missing: rows go to the active tracker.
+  tracker?: number
+  // "Wide" exports (e.g. Loop Habit Tracker's Checkmarks.csv): one taken-value column per
+  // habit, keyed by column index. Used instead of `taken`/`tracker`.
+  trackerColumns?: Record<number, string>
+}
+
+// The fields a column can be mapped to, in the order the import preview lists them.
+export const CSV_FIELDS = ['date', 'taken', 'time', 'grams', 'tz', 'tracker'] as const
+
+export type CsvField = (typeof CSV_FIELDS)[number]
+
+// How a file's columns are read: its header row (null for headerless files) and the mapping.
+export type CsvColumns = {
+  header: string[] | null
+  columnCount: number
+  mapping: CsvColumnMapping
+}
+
+export type CsvImportResult = {
+  // The imported trackers on top of `base` (null when no row could be used).
+  save: SaveData | null
+  rows: number
+  errors: CsvRowError[]
+  // The columns used, so the user can correct the mapping (null when none could be found).
+  columns: CsvColumns | null
+}
+
+export const CSV_HEADER = ['tracker', 'date', 'taken', 'time', 'grams', 'tz']
+
+// Header aliases, lowercased. Covers our own export and the usual habit-app exports.
+const COLUMN_ALIASES: Record<CsvField, string[]> = {
+  date: ['date', 'day', 'entry_date', 'timestamp', 'datetime'],
+  taken: ['taken', 'done', 'completed', 'complete', 'value', 'status', 'check', 'checked'],
+  time: ['time', 'taken_at', 'entry_time'],
+  grams: ['grams', 'g', 'amount', 'dose', 'quantity'],
+  tz: ['tz', 'timezone', 'time_zone'],
+  tracker: ['tracker', 'habit', 'habit_name', 'name', 'title', 'task'],
+}
+
+const TRUE_VALUES = new Set(['yes', 'y', 'true', 'x', '✓', '✔', 'done', 'taken', 'completed'])
+const FALSE_VALUES = new Set(['no', 'n', 'false', '', 'missed', 'skipped', 'not taken'])
+
+// RFC 4180: comma separated, `"` quoting with `""` escapes, CRLF or LF line breaks.
+export function parseCsv(text: string): { rows: CsvRow[]; error: CsvRowError | null } {
+  const rows: CsvRow[] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    cells.push(cell)
+    // Skip blank lines.
+    if (cells.length > 1 || cells[0].trim() !== '') rows.push({ line: rowLine, cells })
+    cells = []
+    cell = ''
+  }
+
+  for (; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true
+    } else if (ch === ',') {
+      cells.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += ch
+    }
+  }
+  if (quoted) return { rows, error: { line: rowLine, code: 'unterminatedQuote' } }
+  if (cell !== '' || cells.length > 0) endRow()
+  return { rows, error: null }
+}
+
+function escapeCsvCell(v: string) {
+  return /[",\r\n]/.test(v) || v !== v.trim() ? `"${v.replace(/"/g, '""')}"` : v
+}
+
+export function stringifyCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// One row per dose, plus a `no` (or `excused`/`freeze` for rest days) row for every untaken day
+// from the start date through `today`, so spreadsheets see the gaps too.
+export function exportSaveCsv(save: SaveData, today: ISODate): string {
+  const rows: string[][] = [CSV_HEADER]
+  for (const tracker of save.trackers) {
+    const keys = buildHistoryKeysInclusive(tracker.startDate, today).reverse()
+    // Days recorded after `today` (shouldn't happen, but don't drop them).
+    for (const k of Object.keys(tracker.taken) as ISODate[]) {
+      if (compareISODate(k, today) > 0) keys.push(k)
+    }
+    for (const key of keys) {
+      const doses = getDoses(tracker, key)
+      if (doses.length === 0) {
+        rows.push([tracker.name, key, getRestDay(tracker, key) ?? 'no', '', '', ''])
+        continue
+      }
+      for (const dose of doses) {
+        // The zone an import reads the time in (see readRow), written out so the file says so.
+        const tz = dose.tz ?? resolveTimeZone(save.dayBoundary)
+        rows.push([
+          tracker.name,
+          key,
+          'yes',
+          dose.at === null ? '' : toLocalTimeValue(dose.at, tz),
+          dose.grams === null ? '' : String(dose.grams),
+          dose.at === null ? '' : tz,
+        ])
+      }
+    }
+  }
+  return stringifyCsv(rows)
+}
+
+function normalizeHeader(v: string) {
+  return v
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+}
+
+// With only a date column mapped, every other named column is a per-habit value column ("wide"
+// files); otherwise there are none.
+function withTrackerColumns(mapping: CsvColumnMapping, header: string[] | null): CsvColumnMapping {
+  const next: CsvColumnMapping = { ...mapping }
+  delete next.trackerColumns
+  if (!header || CSV_FIELDS.some((f) => f !== 'date' && next[f] !== undefined)) return next
+  const trackerColumns: Record<number, string> = {}
+  header.forEach((name, idx) => {
+    if (idx !== next.date && name.trim()) trackerColumns[idx] = name.trim()
+  })
+  if (Object.keys(trackerColumns).length > 0) next.trackerColumns = trackerColumns
+  return next
+}
+
+// Guesses the mapping from a header row. Returns null if no date column is found.
+export function detectCsvMapping(header: string[]): CsvColumnMapping | null {
+  const names = header.map(normalizeHeader)
+  const find = (field: CsvField) => {
+    const idx = names.findIndex((n) => COLUMN_ALIASES[field].includes(n))
+    return idx === -1 ? undefined : idx
+  }
+  const date = find('date')
+  if (date === undefined) return null
+  return withTrackerColumns(
+    {
+      date,
+      taken: find('taken'),
+      time: find('time'),
+      grams: find('grams'),
+      tz: find('tz'),
+      tracker: find('tracker'),
+    },
+    header,
+  )
+}
+
+// Maps `field` to column `idx` (undefined: no column; the date always needs one).
+export function setCsvColumn(
+  columns: CsvColumns,
+  field: CsvField,
+  idx: number | undefined,
+): CsvColumns {
+  if (field === 'date' && idx === undefined) return columns
+  const mapping = { ...columns.mapping, [field]: idx } as CsvColumnMapping
+  return { ...columns, mapping: withTrackerColumns(mapping, columns.header) }
+}
+
+// Accepts `YYYY-MM-DD`, `YYYY/MM/DD` and ISO date-times (`2024-05-01T08:30...`). Day-first vs
+// month-first dates are ambiguous, so those are rejected rather than guessed.
+function parseDateCell(v: string): { key: ISODate; time: string | null } | null {
+  const m = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2}))?/.exec(v.trim())
+  if (!m) return null
+  const key = `${m[1]}-${pad2(Number(m[2]))}-${pad2(Number(m[3]))}` as ISODate
+  const check = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 12)
+  if (!isISODateKey(key) || check.getMonth() !== Number(m[2]) - 1) return null
+  return { key, time: m[4] === undefined ? null : `${m[4]}:${m[5]}` }
+}
+
+// Normalizes `HH:MM`, `H:MM am`, `HH:MM:SS` to `HH:MM` (24h).
+function parseTimeCell(v: string): string | null {
+  const m = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(v.trim())
+  if (!m) return null
+  let h = Number(m[1])
+  const min = Number(m[2])
+  if (m[3]) {
+    if (h < 1 || h > 12) return null
+    h = (h % 12) + (m[3].toLowerCase().startsWith('p') ? 12 : 0)
+  }
+  if (h > 23 || min > 59) return null
+  return `${pad2(h)}:${pad2(min)}`
+}
+
+// Yes/no words, or numbers where anything above zero counts (Loop writes 2 for a check).
+// `excused`/`freeze` (from our own export) mark untaken rest days.
+function parseTakenCell(v: string): boolean | RestDayKind | null {
+  const s = v.trim().toLowerCase()
+  if (s === 'excused' || s === 'freeze') return s
+  if (TRUE_VALUES.has(s)) return true
+  if (FALSE_VALUES.has(s)) return false
+  const n = Number(s)
+  return Number.isFinite(n) ? n > 0 : null
+}
+
+function parseGramsCell(v: string): number | null | undefined {
+  const s = v.trim().replace(/\s*g$/i, '').replace(',', '.')
+  if (s === '') return null
+  const n = Number(s)
+  return Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+type ParsedEntry = {
+  trackerName: string | null
+  key: ISODate
+  taken: boolean | RestDayKind
+  dose: DoseEntry
+}
+
+function readRow(
+  row: CsvRow,
+  mapping: CsvColumnMapping,
+  boundary: DayBoundary,
+): ParsedEntry[] | Omit<CsvRowError, 'line'> {
+  const cell = (idx: number | undefined) => (idx === undefined ? '' : (row.cells[idx] ?? ''))
+
+  const date = parseDateCell(cell(mapping.date))
+  if (!date) return { code: 'badDate', params: { value: cell(mapping.date) } }
+
+  let at: number | null = null
+  let tz: string | null = null
+  const timeText = mapping.time === undefined ? (date.time ?? '') : cell(mapping.time)
+  if (timeText.trim()) {
+    const time = parseTimeCell(timeText)
+    if (time === null) return { code: 'badTime', params: { value: timeText } }
+    const tzText = cell(mapping.tz).trim()
+    if (tzText && !isTimeZone(tzText)) return { code: 'badTimeZone', params: { value: tzText } }
+    // No zone: the home zone, as for doses without one on export.
+    tz = tzText || resolveTimeZone(boundary)
+    at = makeLocalTimestamp(date.key, time, boundary, tz)
+  }
+
+  const grams = mapping.grams === undefined ? null : parseGramsCell(cell(mapping.grams))
+  if (grams === undefined) return { code: 'badAmount', params: { value: cell(mapping.grams) } }
+
+  if (mapping.trackerColumns) {
+    const entries: ParsedEntry[] = []
+    for (const [idx, name] of Object.entries(mapping.trackerColumns)) {
+      const taken = parseTakenCell(cell(Number(idx)))
+      if (taken === null) {
+        return { code: 'badTrackerValue', params: { value: cell(Number(idx)), tracker: name } }
+      }
+      entries.push({ trackerName: name, key: date.key, taken, dose: { grams, at, tz } })
+    }
+    return entries
+  }
+
+  let taken: boolean | RestDayKind = true
+  if (mapping.taken !== undefined) {
+    const parsed = parseTakenCell(cell(mapping.taken))
+    if (parsed === null) return { code: 'badTaken', params: { value: cell(mapping.taken) } }
+    taken = parsed
+  }
+  const trackerName = mapping.tracker === undefined ? null : cell(mapping.tracker).trim() || null
+  return [{ trackerName, key: date.key, taken, dose: { grams, at, tz } }]
+}
+
+// Finds the header and guesses the mapping, or returns null when no column holds dates.
+export function detectCsvColumns(rows: CsvRow[]): CsvColumns | null {
+  if (rows.length === 0) return null
+  // Headerless files (e.g. Loop's per-habit Checkmarks.csv): date, then an optional value.
+  const columnCount = rows[0].cells.length
+  if (parseDateCell(rows[0].cells[0] ?? '')) {
+    return {
+      header: null,
+      columnCount,
+      mapping: { date: 0, taken: columnCount > 1 ? 1 : undefined },
+    }
+  }
+  const header = rows[0].cells
+  const mapping = detectCsvMapping(header)
+  if (mapping) return { header, columnCount, mapping }
+  // Unknown header names: take the first column holding a date; the rest can be mapped by hand.
+  const date = rows[1]?.cells.findIndex((c) => parseDateCell(c) !== null) ?? -1
+  if (date === -1) return null
+  return { header, columnCount, mapping: withTrackerColumns({ date }, header) }
+}
+
+// Builds trackers from CSV rows, with `columns` as detected (see detectCsvColumns) unless given.
+// Names are matched (case-insensitively) against `base` so a merge import lands in the existing
+// tracker; rows without a tracker go to the active one. Imported days carry no edit timestamp, so
+// a merge only adds doses and never overrides local edits.
+export function importSaveCsv(
+  text: string,
+  base: SaveData,
+  columns?: CsvColumns,
+): CsvImportResult {
+  const parsed = parseCsv(text)
+  const errors: CsvRowError[] = parsed.error ? [parsed.error] : []
+  let rows = parsed.rows
+
+  if (!columns) {
+    if (rows.length === 0) {
+      return { save: null, rows: 0, errors: [{ line: 1, code: 'emptyFile' }], columns: null }
+    }
+    const detected = detectCsvColumns(rows)
+    if (!detected) {
+      return {
+        save: null,
+        rows: 0,
+        errors: [{ line: rows[0].line, code: 'noDateColumn' }],
+        columns: null,
+      }
+    }
+    columns = detected
+  }
+  if (columns.header) rows = rows.slice(1)
+  const { mapping } = columns
+
+  const active = base.trackers.find((t) => t.id === base.activeTrackerId) ?? base.trackers[0]
+  const trackers = new Map<string, Tracker>()
+  const resolve = (name: string | null) => {
+    const sameName = (t: Tracker) => t.name.toLowerCase() === name?.toLowerCase()
+    const existing = name ? base.trackers.find(sameName) : active
+    const id = existing?.id ?? [...trackers.values()].find(sameName)?.id
+    const cached = id ? trackers.get(id) : undefined
+    if (cached) return cached
+    const fresh: Tracker = existing
+      ? { ...existing, taken: {}, restDays: {}, dayEditedAt: {} }
+      : makeTracker(makeId(), name ?? active.name)
+    trackers.set(fresh.id, fresh)
+    return fresh
+  }
+
+  let used = 0
+  const earliest = new Map<string, ISODate>()
+  for (const row of rows) {
+    const entries = readRow(row, mapping, base.dayBoundary)
+    if (!Array.isArray(entries)) {
+      errors.push({ line: row.line, ...entries })
+      continue
+    }
+    used++
+    for (const entry of entries) {
+      const tracker = resolve(entry.trackerName)
+      const first = earliest.get(tracker.id)
+      if (!first || compareISODate(entry.key, first) < 0) earliest.set(tracker.id, entry.key)
+      if (entry.taken === true) {
+        tracker.taken[entry.key] = [...(tracker.taken[entry.key] ?? []), entry.dose]
+        delete tracker.restDays[entry.key]
+      } else if (entry.taken && !tracker.taken[entry.key]) {
+        tracker.restDays[entry.key] = entry.taken
+      }
+    }
+  }
+
+  if (trackers.size === 0) return { save: null, rows: 0, errors, columns }
+
+  const imported = [...trackers.values()].map((t) => {
+    const first = earliest.get(t.id)
+    return first ? { ...t, startDate: first } : t
+  })
+  return {
+    save: {
+      ...base,
+      trackers: imported,
+      activeTrackerId: imported.some((t) => t.id === base.activeTrackerId)
+        ? base.activeTrackerId
+        : imported[0].id,
+      // Not newer than `base`, so a merge keeps local settings/tracker metadata.
+      updatedAt: base.updatedAt,
+    },
+    rows: used,
+    errors,
+    columns,
+  }
+}
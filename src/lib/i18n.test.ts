@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest'
+import { CATALOGS, LOCALES } from './i18n'
+
+describe('catalogs', () => {
+  it('have the same keys in every language', () => {
+    const english = Object.keys(CATALOGS.en).sort()
+    for (const locale of LOCALES) {
+      expect(Object.keys(CATALOGS[locale]).sort(), locale).toEqual(english)
+    }
+  })
+})
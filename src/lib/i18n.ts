@@ -0,0 +1,149 @@
+import { en, type Catalog, type MessageKey } from '../locales/en'
+import { es } from '../locales/es'
+import { pt } from '../locales/pt'
+
+export type { Catalog, MessageKey }
+
+export type Locale = 'en' | 'pt' | 'es'
+
+export const LOCALES: Locale[] = ['en', 'pt', 'es']
+
+// Each language's name in itself, for the picker.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  pt: 'Português',
+  es: 'Español',
+}
+
+// Every catalog is typed as `Catalog`, so one that misses (or misspells) a key of the English
+// catalog fails the type-check, and with it `pnpm build`.
+export const CATALOGS: Record<Locale, Catalog> = { en, pt, es }
+
+export type MessageParams = Record<string, string | number>
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === 'string' && (LOCALES as string[]).includes(v)
+}
+
+// First of the browser's preferred languages we have a catalog for, else English.
+export function matchLocale(languages: readonly string[]): Locale {
+  for (const tag of languages) {
+    const base = tag.toLowerCase().split('-')[0]
+    if (isLocale(base)) return base
+  }
+  return 'en'
+}
+
+export function getBrowserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return []
+  return navigator.languages?.length ? navigator.languages : [navigator.language]
+}
+
+// Locale for Intl formatters. Without a choice the browser's own (regional) default is used;
+// with one, the browser's region is kept when it speaks that language (pt-PT stays pt-PT).
+export function resolveIntlLocale(
+  choice: Locale | null,
+  languages: readonly string[] = getBrowserLanguages(),
+): string | undefined {
+  if (choice === null) return undefined
+  return languages.find((tag) => tag.toLowerCase().split('-')[0] === choice) ?? choice
+}
+
+const pluralRules = new Map<string, Intl.PluralRules>()
+
+function getPluralRules(locale: Locale) {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(locale)
+    pluralRules.set(locale, rules)
+  }
+  return rules
+}
+
+// Index of the `}` closing the `{` at `open`.
+function findClose(message: string, open: number) {
+  let depth = 0
+  for (let i = open; i < message.length; i++) {
+    if (message[i] === '{') depth += 1
+    else if (message[i] === '}') {
+      depth -= 1
+      if (depth === 0) return i
+    }
+  }
+  throw new Error(`Unbalanced braces in message: ${message}`)
+}
+
+// `one {…} other {…}` -> { one: '…', other: '…' }
+function parseBranches(options: string) {
+  const branches: Record<string, string> = {}
+  let i = 0
+  while (i < options.length) {
+    const open = options.indexOf('{', i)
+    if (open === -1) break
+    const selector = options.slice(i, open).trim()
+    const close = findClose(options, open)
+    branches[selector] = options.slice(open + 1, close)
+    i = close + 1
+  }
+  return branches
+}
+
+function formatArgument(
+  body: string,
+  params: MessageParams,
+  locale: Locale,
+  pound: string | undefined,
+): string {
+  const [name, type, ...rest] = body.split(',')
+  const key = name.trim()
+  const value = params[key]
+  if (type === undefined) {
+    if (value === undefined) return `{${key}}`
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value
+  }
+
+  const branches = parseBranches(rest.join(','))
+  const kind = type.trim()
+  if (kind === 'plural') {
+    const n = Number(value)
+    const branch =
+      branches[`=${n}`] ?? branches[getPluralRules(locale).select(n)] ?? branches.other ?? ''
+    return formatMessage(branch, params, locale, new Intl.NumberFormat(locale).format(n))
+  }
+  if (kind === 'select') {
+    return formatMessage(branches[String(value)] ?? branches.other ?? '', params, locale, pound)
+  }
+  throw new Error(`Unsupported argument type "${kind}" in message`)
+}
+
+// A small subset of ICU MessageFormat: `{name}` placeholders, and `{n, plural, =0 {…} one {…}
+// other {…}}` / `{v, select, a {…} other {…}}` with `#` standing for the plural count. There is
+// no apostrophe quoting, so "don't" needs no escaping.
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale: Locale = 'en',
+  pound?: string,
+): string {
+  let out = ''
+  let i = 0
+  while (i < message.length) {
+    const ch = message[i]
+    if (ch === '{') {
+      const close = findClose(message, i)
+      out += formatArgument(message.slice(i + 1, close), params, locale, pound)
+      i = close + 1
+    } else {
+      out += ch === '#' && pound !== undefined ? pound : ch
+      i += 1
+    }
+  }
+  return out
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const catalog = CATALOGS[locale]
+  return (key, params) => formatMessage(catalog[key], params, locale)
+}
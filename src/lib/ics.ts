@@ -0,0 +1,89 @@
+import {
+  addDaysLocalNoon,
+  compareISODate,
+  formatGrams,
+  getDailyTotalGrams,
+  getDoses,
+  makeLocalNoonDateFromISO,
+  pad2,
+  toISODateKeyLocal,
+  toLocalTimeValue,
+  type ISODate,
+  type SaveData,
+} from './creatine'
+import type { Translator } from './i18n'
+
+// RFC 5545 TEXT escaping.
+function escapeText(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded with CRLF + space. Splitting on code points keeps
+// multi-byte characters intact (75 characters is a safe upper bound for what clients accept).
+function foldLine(line: string) {
+  const chars = [...line]
+  if (chars.length <= 75) return line
+  const parts: string[] = []
+  for (let i = 0; i < chars.length; i += i === 0 ? 75 : 74) {
+    parts.push(chars.slice(i, i + (i === 0 ? 75 : 74)).join(''))
+  }
+  return parts.join('\r\n ')
+}
+
+function formatDateValue(key: ISODate) {
+  return key.replace(/-/g, '')
+}
+
+function formatUtcStamp(ms: number) {
+  const d = new Date(ms)
+  return (
+    `${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}` +
+    `T${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}${pad2(d.getUTCSeconds())}Z`
+  )
+}
+
+// One all-day event per taken day and tracker. UIDs are stable (tracker id + date), so
+// re-importing an updated export into a calendar updates events instead of duplicating them.
+// Event titles are in the app's language.
+export function exportSaveIcs(save: SaveData, t: Translator, now: number = Date.now()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Creatine Tracker//Export//EN',
+    'CALSCALE:GREGORIAN',
+  ]
+  const stamp = formatUtcStamp(now)
+  for (const tracker of save.trackers) {
+    const keys = (Object.keys(tracker.taken) as ISODate[]).sort(compareISODate)
+    for (const key of keys) {
+      const total = getDailyTotalGrams(tracker, key)
+      const summary =
+        total === null
+          ? t('ics.taken', { tracker: tracker.name })
+          : t('ics.takenGrams', { tracker: tracker.name, grams: formatGrams(total) })
+      const details = getDoses(tracker, key).map((dose) =>
+        [
+          dose.at === null ? null : toLocalTimeValue(dose.at, dose.tz),
+          dose.grams === null ? null : formatGrams(dose.grams),
+        ]
+          .filter(Boolean)
+          .join(' '),
+      )
+      const next = toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(key), 1))
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${tracker.id}-${key}@creatine-tracker`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDateValue(key)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(next)}`,
+        `SUMMARY:${escapeText(summary)}`,
+      )
+      if (details.some(Boolean)) {
+        lines.push(`DESCRIPTION:${escapeText(details.filter(Boolean).join('\n'))}`)
+      }
+      lines.push('TRANSP:TRANSPARENT', 'END:VEVENT')
+    }
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  addTracker,
+  makeDefaultSave,
+  makeTracker,
+  markTaken,
+  removeTracker,
+  setDoses,
+  updateTracker,
+  type DoseEntry,
+  type ISODate,
+  type SaveData,
+  type Tracker,
+} from './creatine'
+import { diffSaves, diffTrackers, previewImport } from './importPreview'
+
+const NY = 'America/New_York'
+
+function dose(grams: number | null, hour: number): DoseEntry {
+  return { grams, at: Date.UTC(2026, 2, 1, hour), tz: NY }
+}
+
+function trackerWith(taken: Record<ISODate, DoseEntry[]>, startDate: ISODate = '2026-03-01') {
+  return { ...makeTracker('creatine', 'Creatine', startDate), taken }
+}
+
+function saveWith(...trackers: Tracker[]): SaveData {
+  return { ...makeDefaultSave('2026-03-01'), trackers, activeTrackerId: trackers[0].id }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('diffSaves', () => {
+  it('lists added, removed and changed days and a moved start date', () => {
+    const before = saveWith(
+      trackerWith({
+        '2026-03-01': [dose(5, 8)],
+        '2026-03-02': [dose(5, 8)],
+        '2026-03-03': [dose(5, 8)],
+      }),
+    )
+    const after = saveWith(
+      trackerWith(
+        {
+          '2026-03-02': [dose(5, 8)],
+          '2026-03-03': [dose(3, 8)],
+          '2026-03-04': [dose(5, 8)],
+        },
+        '2026-03-02',
+      ),
+    )
+
+    const diff = diffSaves(before, after)
+    expect(diff.trackers).toEqual([
+      {
+        id: 'creatine',
+        name: 'Creatine',
+        presence: 'both',
+        startDateBefore: '2026-03-01',
+        startDateAfter: '2026-03-02',
+        added: ['2026-03-04'],
+        removed: ['2026-03-01'],
+        changed: ['2026-03-03'],
+      },
+    ])
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 1, unchanged: false })
+  })
+
+  it('reports a tracker whose start date alone moved', () => {
+    const taken = { '2026-03-05': [dose(5, 8)] }
+    const diff = diffSaves(saveWith(trackerWith(taken)), saveWith(trackerWith(taken, '2026-03-03')))
+    expect(diff.unchanged).toBe(false)
+    expect(diff.trackers[0]).toMatchObject({ added: [], removed: [], changed: [] })
+  })
+
+  it('lists trackers added and removed by the import', () => {
+    const creatine = trackerWith({ '2026-03-01': [dose(5, 8)] })
+    const vitaminD: Tracker = {
+      ...makeTracker('vitamin-d', 'Vitamin D', '2026-03-01'),
+      taken: { '2026-03-01': [dose(null, 9)] },
+    }
+    const magnesium: Tracker = {
+      ...makeTracker('magnesium', 'Magnesium', '2026-03-02'),
+      taken: { '2026-03-02': [dose(null, 21)] },
+    }
+
+    const diff = diffSaves(saveWith(creatine, vitaminD), saveWith(creatine, magnesium))
+    // Unchanged trackers are left out; the import's trackers come first.
+    expect(diff.trackers.map((d) => [d.id, d.presence])).toEqual([
+      ['magnesium', 'added'],
+      ['vitamin-d', 'removed'],
+    ])
+    expect(diff.trackers[0]).toMatchObject({ startDateBefore: null, added: ['2026-03-02'] })
+    expect(diff.trackers[1]).toMatchObject({ startDateAfter: null, removed: ['2026-03-01'] })
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 0 })
+  })
+
+  it('is unchanged for identical saves', () => {
+    const save = saveWith(trackerWith({ '2026-03-01': [dose(5, 8)] }))
+    expect(diffSaves(save, save)).toEqual({
+      trackers: [],
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: true,
+    })
+  })
+})
+
+describe('diffTrackers', () => {
+  it('compares doses in any order', () => {
+    const before = trackerWith({ '2026-03-01': [dose(5, 8), dose(2.5, 20)] })
+    const after = trackerWith({ '2026-03-01': [dose(2.5, 20), dose(5, 8)] })
+    expect(diffTrackers(before, after).changed).toEqual([])
+  })
+
+  it('counts repeated doses', () => {
+    // Same length, and every dose on the left appears on the right, but not as often.
+    const before = trackerWith({ '2026-03-01': [dose(5, 8), dose(5, 8)] })
+    const after = trackerWith({ '2026-03-01': [dose(5, 8), dose(2.5, 20)] })
+    expect(diffTrackers(before, after).changed).toEqual(['2026-03-01'])
+    expect(diffTrackers(after, before).changed).toEqual(['2026-03-01'])
+  })
+})
+
+describe('previewImport', () => {
+  // Each step one minute after the previous one.
+  function at(minute: number) {
+    vi.setSystemTime(Date.UTC(2026, 2, 10, 12, minute))
+  }
+
+  it("doesn't count days removed locally after the file was made as merge changes", () => {
+    vi.useFakeTimers()
+    at(0)
+    const file = updateTracker(makeDefaultSave('2026-03-01'), 'creatine', (t) =>
+      markTaken(markTaken(t, '2026-03-08', null), '2026-03-09', null),
+    )
+    at(1)
+    // Later, 03-08 was unmarked on this device.
+    const local = updateTracker(file, 'creatine', (t) => setDoses(t, '2026-03-08', []))
+
+    const preview = previewImport(local, file)
+    expect(preview.replace.trackers[0].added).toEqual(['2026-03-08'])
+    expect(preview.merge.unchanged).toBe(true)
+  })
+
+  it("doesn't bring back a tracker removed locally after the file was made", () => {
+    vi.useFakeTimers()
+    at(0)
+    const file = addTracker(makeDefaultSave('2026-03-01'), 'Vitamin D', '2026-03-01')
+    const vitaminD = file.trackers[1].id
+    at(1)
+    const local = removeTracker(file, vitaminD)
+
+    const preview = previewImport(local, file)
+    expect(preview.file.trackers).toBe(2)
+    expect(preview.replace.trackers.map((d) => [d.id, d.presence])).toEqual([[vitaminD, 'added']])
+    expect(preview.merge.unchanged).toBe(true)
+  })
+})
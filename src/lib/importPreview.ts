@@ -0,0 +1,145 @@
+import {
+  compareISODate,
+  type DoseEntry,
+  type ISODate,
+  type SaveData,
+  type Tracker,
+} from './creatine'
+import { mergeSaves } from './merge'
+
+// What an import would do, worked out before anything is written: a summary of the file, and the
+// per-day differences to local data after a replace and after a merge.
+
+export type SaveSummary = {
+  trackers: number
+  // Earliest first tracked day and latest taken day across all trackers.
+  firstDay: ISODate | null
+  lastDay: ISODate | null
+  takenDays: number
+}
+
+export type TrackerDiff = {
+  id: string
+  name: string
+  // 'added' trackers exist only after the import, 'removed' ones only before it.
+  presence: 'both' | 'added' | 'removed'
+  startDateBefore: ISODate | null
+  startDateAfter: ISODate | null
+  // Taken days that appear, disappear, or keep being taken with different doses.
+  added: ISODate[]
+  removed: ISODate[]
+  changed: ISODate[]
+}
+
+export type SaveDiff = {
+  trackers: TrackerDiff[]
+  // Sums over all trackers.
+  added: number
+  removed: number
+  changed: number
+  unchanged: boolean
+}
+
+export type ImportPreview = {
+  file: SaveSummary
+  replace: SaveDiff
+  merge: SaveDiff
+}
+
+function takenKeys(tracker: Tracker): ISODate[] {
+  return (Object.keys(tracker.taken) as ISODate[]).sort(compareISODate)
+}
+
+export function summarizeSave(save: SaveData): SaveSummary {
+  let firstDay: ISODate | null = null
+  let lastDay: ISODate | null = null
+  let takenDays = 0
+  for (const t of save.trackers) {
+    const keys = takenKeys(t)
+    takenDays += keys.length
+    if (firstDay === null || compareISODate(t.startDate, firstDay) < 0) firstDay = t.startDate
+    const last = keys.at(-1)
+    if (last && (lastDay === null || compareISODate(last, lastDay) > 0)) lastDay = last
+  }
+  return { trackers: save.trackers.length, firstDay, lastDay, takenDays }
+}
+
+// Same doses in any order. Each dose of `b` is matched once, so repeated doses count.
+function sameDoses(a: DoseEntry[], b: DoseEntry[]) {
+  if (a.length !== b.length) return false
+  const left = b.slice()
+  return a.every((d) => {
+    const i = left.findIndex((e) => e.grams === d.grams && e.at === d.at && e.tz === d.tz)
+    if (i === -1) return false
+    left.splice(i, 1)
+    return true
+  })
+}
+
+// Either side may be missing (a tracker added or removed by the import).
+export function diffTrackers(before: Tracker | null, after: Tracker | null): TrackerDiff {
+  const ref = after ?? before
+  if (!ref) throw new Error('diffTrackers needs at least one tracker')
+  const beforeTaken = before?.taken ?? {}
+  const afterTaken = after?.taken ?? {}
+  const added: ISODate[] = []
+  const removed: ISODate[] = []
+  const changed: ISODate[] = []
+  for (const k of after ? takenKeys(after) : []) {
+    const prev = beforeTaken[k]
+    if (!prev) added.push(k)
+    else if (!sameDoses(prev, afterTaken[k])) changed.push(k)
+  }
+  for (const k of before ? takenKeys(before) : []) {
+    if (!afterTaken[k]) removed.push(k)
+  }
+  return {
+    id: ref.id,
+    name: ref.name,
+    presence: before && after ? 'both' : after ? 'added' : 'removed',
+    startDateBefore: before?.startDate ?? null,
+    startDateAfter: after?.startDate ?? null,
+    added,
+    removed,
+    changed,
+  }
+}
+
+// Trackers are matched by id, as in mergeSaves. Trackers that end up identical (same days and
+// start date) are left out.
+export function diffSaves(before: SaveData, after: SaveData): SaveDiff {
+  const ids = [
+    ...after.trackers.map((t) => t.id),
+    ...before.trackers.map((t) => t.id).filter((id) => !after.trackers.some((t) => t.id === id)),
+  ]
+  const trackers = ids
+    .map((id) =>
+      diffTrackers(
+        before.trackers.find((t) => t.id === id) ?? null,
+        after.trackers.find((t) => t.id === id) ?? null,
+      ),
+    )
+    .filter(
+      (d) =>
+        d.presence !== 'both' ||
+        d.startDateBefore !== d.startDateAfter ||
+        d.added.length + d.removed.length + d.changed.length > 0,
+    )
+  const sum = (pick: (d: TrackerDiff) => ISODate[]) =>
+    trackers.reduce((n, d) => n + pick(d).length, 0)
+  return {
+    trackers,
+    added: sum((d) => d.added),
+    removed: sum((d) => d.removed),
+    changed: sum((d) => d.changed),
+    unchanged: trackers.length === 0,
+  }
+}
+
+export function previewImport(local: SaveData, incoming: SaveData): ImportPreview {
+  return {
+    file: summarizeSave(incoming),
+    replace: diffSaves(local, incoming),
+    merge: diffSaves(local, mergeSaves(local, incoming)),
+  }
+}
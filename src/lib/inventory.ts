@@ -0,0 +1,125 @@
+import {
+  addDaysLocalNoon,
+  buildHistoryKeysInclusive,
+  compareISODate,
+  getDailyTotalGrams,
+  getTargetGrams,
+  isTaken,
+  makeLocalNoonDateFromISO,
+  toISODateKeyLocal,
+  type ISODate,
+  type Tracker,
+} from './creatine'
+import { clampRange, type DateRange } from './stats'
+
+// Serving assumed when neither the day nor the current target says how much was taken.
+export const DEFAULT_SERVING_GRAMS = 5
+
+// Days of history the usage rate (and so the run-out forecast) is based on.
+export const USAGE_WINDOW_DAYS = 30
+
+export type InventoryStatus = {
+  purchasedGrams: number
+  usedGrams: number
+  // Never below zero; usage beyond what was bought is simply not covered by a recorded supply.
+  remainingGrams: number
+  // Current target, or DEFAULT_SERVING_GRAMS.
+  servingGrams: number
+  remainingServings: number
+  // Average grams per day over the last USAGE_WINDOW_DAYS, so skipped days stretch the supply.
+  dailyUseGrams: number
+  // Whole days until the supply runs out at that rate, and the day it does (null if unused lately).
+  daysLeft: number | null
+  runOutDate: ISODate | null
+  low: boolean
+}
+
+export type SpendStats = {
+  // null when no supply has a price.
+  costPerServing: number | null
+  // Projected spend per (average) month at the current usage rate.
+  monthlySpend: number | null
+  // Cost of what was taken within the range.
+  rangeSpend: number | null
+}
+
+function shiftDays(key: ISODate, delta: number): ISODate {
+  return toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(key), delta))
+}
+
+// Grams taken on a day: the recorded amounts, else the target, else a default serving.
+export function getGramsUsed(tracker: Tracker, key: ISODate): number {
+  if (!isTaken(tracker, key)) return 0
+  return getDailyTotalGrams(tracker, key) ?? getTargetGrams(tracker, key) ?? DEFAULT_SERVING_GRAMS
+}
+
+function sumGramsUsed(tracker: Tracker, start: ISODate, end: ISODate) {
+  if (compareISODate(start, end) > 0) return 0
+  let total = 0
+  for (const key of buildHistoryKeysInclusive(start, end)) total += getGramsUsed(tracker, key)
+  return total
+}
+
+// Average cost per gram across priced supplies, or null if none has a price.
+function getCostPerGram(tracker: Tracker): number | null {
+  const priced = tracker.supplies.filter((s) => s.price !== null)
+  const grams = priced.reduce((sum, s) => sum + s.grams, 0)
+  if (grams === 0) return null
+  return priced.reduce((sum, s) => sum + (s.price ?? 0), 0) / grams
+}
+
+function getDailyUseGrams(tracker: Tracker, today: ISODate): number {
+  const start = shiftDays(today, -(USAGE_WINDOW_DAYS - 1))
+  const range = clampRange(tracker, today, { start, end: today })
+  if (!range) return 0
+  const days = buildHistoryKeysInclusive(range.start, range.end).length
+  return sumGramsUsed(tracker, range.start, range.end) / days
+}
+
+// Remaining supply and run-out forecast. Usage counts from the first purchase on, so days taken
+// before any supply was recorded don't eat into it. Null when no supply has been recorded.
+export function computeInventory(tracker: Tracker, today: ISODate): InventoryStatus | null {
+  if (tracker.supplies.length === 0) return null
+  const purchasedGrams = tracker.supplies.reduce((sum, s) => sum + s.grams, 0)
+  const lastTaken = (Object.keys(tracker.taken) as ISODate[]).sort(compareISODate).pop()
+  const end = lastTaken && compareISODate(lastTaken, today) > 0 ? lastTaken : today
+  // Today's dose counts once it's taken; until then it's still in the tub.
+  const usedGrams = sumGramsUsed(tracker, tracker.supplies[0].purchasedOn, end)
+  const remainingGrams = Math.max(purchasedGrams - usedGrams, 0)
+  const servingGrams = getTargetGrams(tracker, today) ?? DEFAULT_SERVING_GRAMS
+  const dailyUseGrams = getDailyUseGrams(tracker, today)
+
+  const daysLeft = dailyUseGrams > 0 ? Math.floor(remainingGrams / dailyUseGrams) : null
+  const runOutDate = daysLeft === null ? null : shiftDays(today, daysLeft)
+  return {
+    purchasedGrams,
+    usedGrams,
+    remainingGrams,
+    servingGrams,
+    remainingServings: Math.floor(remainingGrams / servingGrams),
+    dailyUseGrams,
+    daysLeft,
+    runOutDate,
+    low: daysLeft !== null ? daysLeft < tracker.lowSupplyDays : remainingGrams === 0,
+  }
+}
+
+export function computeSpend(tracker: Tracker, today: ISODate, range: DateRange): SpendStats {
+  const costPerGram = getCostPerGram(tracker)
+  if (costPerGram === null) return { costPerServing: null, monthlySpend: null, rangeSpend: null }
+  const servingGrams = getTargetGrams(tracker, today) ?? DEFAULT_SERVING_GRAMS
+  const clamped = clampRange(tracker, today, range)
+  return {
+    costPerServing: costPerGram * servingGrams,
+    // 365.25 / 12 days in an average month.
+    monthlySpend: costPerGram * getDailyUseGrams(tracker, today) * (365.25 / 12),
+    rangeSpend: clamped ? costPerGram * sumGramsUsed(tracker, clamped.start, clamped.end) : 0,
+  }
+}
+
+export function formatMoney(amount: number, locale: string | undefined) {
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  addSupply,
+  addTracker,
+  makeDefaultSave,
+  markTaken,
+  removeSupply,
+  removeTracker,
+  setBodyweight,
+  setDoses,
+  setStartDate,
+  setTargetFrom,
+  updateTracker,
+  type DoseEntry,
+  type SaveData,
+  type Tracker,
+} from './creatine'
+import { mergeSaves } from './merge'
+
+// Each step one minute after the previous one.
+function at(minute: number) {
+  vi.setSystemTime(Date.UTC(2026, 2, 10, 12, minute))
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+function withTwoTrackers(): SaveData {
+  at(0)
+  const save = addTracker(makeDefaultSave('2026-03-01'), 'Vitamin D', '2026-03-01')
+  return { ...save, activeTrackerId: 'creatine' }
+}
+
+describe('mergeSaves', () => {
+  it('lets a later uncheck win over an earlier check', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = updateTracker(makeDefaultSave('2026-03-01'), 'creatine', (t) =>
+      markTaken(t, '2026-03-08', null),
+    )
+    at(1)
+    const checked = updateTracker(base, 'creatine', (t) => markTaken(t, '2026-03-09', null))
+    at(2)
+    const unchecked = updateTracker(checked, 'creatine', (t) => setDoses(t, '2026-03-09', []))
+    const stale = updateTracker(base, 'creatine', (t) => markTaken(t, '2026-03-10', null))
+
+    for (const merged of [mergeSaves(checked, unchecked), mergeSaves(unchecked, checked)]) {
+      expect(Object.keys(merged.trackers[0].taken)).toEqual(['2026-03-08'])
+    }
+    // An edit of another day doesn't bring it back either.
+    expect(Object.keys(mergeSaves(stale, unchecked).trackers[0].taken).sort()).toEqual([
+      '2026-03-08',
+      '2026-03-10',
+    ])
+  })
+
+  it('takes the union of doses on days neither side timestamped', () => {
+    // Legacy data: taken days without `dayEditedAt`.
+    const morning: DoseEntry = { grams: 5, at: Date.UTC(2026, 2, 9, 13), tz: null }
+    const evening: DoseEntry = { grams: 2.5, at: Date.UTC(2026, 2, 9, 23), tz: null }
+    const legacy = (taken: Record<string, DoseEntry[]>): SaveData => {
+      const save = makeDefaultSave('2026-03-01')
+      return { ...save, trackers: [{ ...save.trackers[0], taken }] }
+    }
+    const merged = mergeSaves(
+      legacy({ '2026-03-09': [morning], '2026-03-10': [morning] }),
+      legacy({ '2026-03-09': [morning, evening] }),
+    )
+    expect(merged.trackers[0].taken).toEqual({
+      '2026-03-09': [morning, evening],
+      '2026-03-10': [morning],
+    })
+  })
+
+  it('keeps the earlier start date when neither was set by hand', () => {
+    const a = makeDefaultSave('2026-03-01')
+    const b = makeDefaultSave('2026-02-15')
+    expect(mergeSaves(a, b).trackers[0].startDate).toBe('2026-02-15')
+    expect(mergeSaves(b, a).trackers[0].startDate).toBe('2026-02-15')
+  })
+
+  it('keeps a tracker removed in one copy removed', () => {
+    vi.useFakeTimers()
+    const base = withTwoTrackers()
+    const vitaminD = base.trackers[1].id
+    at(1)
+    const removed = removeTracker(base, vitaminD)
+    at(2)
+    // The other copy still has it and edited something else later.
+    const stale = updateTracker(base, 'creatine', (t) => markTaken(t, '2026-03-10', null))
+
+    for (const merged of [mergeSaves(stale, removed), mergeSaves(removed, stale)]) {
+      expect(merged.trackers.map((t) => t.id)).toEqual(['creatine'])
+      expect(merged.trackers[0].taken['2026-03-10']).toHaveLength(1)
+      expect(merged.removedTrackers).toEqual({ [vitaminD]: Date.UTC(2026, 2, 10, 12, 1) })
+    }
+  })
+
+  it('keeps a removed tracker whose days were edited after the removal', () => {
+    vi.useFakeTimers()
+    const base = withTwoTrackers()
+    const vitaminD = base.trackers[1].id
+    at(1)
+    const removed = removeTracker(base, vitaminD)
+    at(2)
+    const stillUsed = updateTracker(base, vitaminD, (t) => markTaken(t, '2026-03-10', null))
+
+    const merged = mergeSaves(removed, stillUsed)
+    expect(merged.trackers.map((t) => t.id)).toEqual(['creatine', vitaminD])
+    expect(merged.removedTrackers).toEqual({})
+  })
+
+  it('never leaves a save without trackers', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    at(1)
+    const other = addTracker(base, 'Other', '2026-03-01')
+    const removed = removeTracker(other, 'creatine')
+    at(2)
+    const cleared = makeDefaultSave('2026-03-10')
+
+    const merged = mergeSaves(cleared, removed)
+    expect(merged.trackers.length).toBeGreaterThan(0)
+    expect(merged.trackers.some((t) => t.id === merged.activeTrackerId)).toBe(true)
+  })
+
+  it('keeps a removed bodyweight entry removed', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = setBodyweight(makeDefaultSave('2026-03-01'), '2026-03-09', 80)
+    at(1)
+    const removed = setBodyweight(base, '2026-03-09', null)
+    at(2)
+    const stale = setBodyweight(base, '2026-03-10', 79.5)
+
+    for (const merged of [mergeSaves(stale, removed), mergeSaves(removed, stale)]) {
+      expect(merged.bodyweight).toEqual({ '2026-03-10': 79.5 })
+    }
+  })
+
+  it('takes the latest edit of a bodyweight day', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    at(1)
+    const first = setBodyweight(base, '2026-03-10', 80)
+    at(2)
+    const second = setBodyweight(base, '2026-03-10', 81)
+
+    expect(mergeSaves(second, first).bodyweight).toEqual({ '2026-03-10': 81 })
+    expect(mergeSaves(first, second).bodyweight).toEqual({ '2026-03-10': 81 })
+  })
+
+  it('keeps supplies and targets added on either side, and removals', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = updateTracker(makeDefaultSave('2026-03-01'), 'creatine', (t) =>
+      addSupply(t, { grams: 500, purchasedOn: '2026-03-01', price: null }),
+    )
+    const first = base.trackers[0].supplies[0].id
+    at(1)
+    const edit = (update: (t: Tracker) => Tracker) => updateTracker(base, 'creatine', update)
+    const local = edit((t) =>
+      setTargetFrom(
+        addSupply(t, { grams: 300, purchasedOn: '2026-03-05', price: 20 }),
+        '2026-03-05',
+        3,
+      ),
+    )
+    at(2)
+    // Saved later on the other device, which would have won whole before.
+    const remote = edit((t) => setTargetFrom(removeSupply(t, first), '2026-03-08', 5))
+
+    for (const merged of [mergeSaves(local, remote), mergeSaves(remote, local)]) {
+      const creatine = merged.trackers[0]
+      expect(creatine.supplies.map((s) => s.grams)).toEqual([300])
+      expect(creatine.targets).toEqual([
+        { from: '2026-03-05', grams: 3 },
+        { from: '2026-03-08', grams: 5 },
+      ])
+    }
+  })
+
+  it('takes the start date set last, even a later one', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    at(1)
+    const moved = updateTracker(base, 'creatine', (t) => setStartDate(t, '2026-03-05'))
+    at(2)
+    const other = updateTracker(base, 'creatine', (t) => markTaken(t, '2026-03-08', null))
+
+    for (const merged of [mergeSaves(moved, other), mergeSaves(other, moved)]) {
+      expect(merged.trackers[0].startDate).toBe('2026-03-05')
+    }
+    // But never after a day recorded elsewhere.
+    const early = updateTracker(base, 'creatine', (t) => markTaken(t, '2026-03-03', null))
+    expect(mergeSaves(moved, early).trackers[0].startDate).toBe('2026-03-03')
+  })
+})
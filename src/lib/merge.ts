@@ -0,0 +1,208 @@
+import {
+  compareISODate,
+  type DoseEntry,
+  type ISODate,
+  type RestDayKind,
+  type SaveData,
+  type Supply,
+  type TargetChange,
+  type Tracker,
+} from './creatine'
+
+function sameDose(a: DoseEntry, b: DoseEntry) {
+  return a.grams === b.grams && a.at === b.at
+}
+
+function unionDoses(a: DoseEntry[], b: DoseEntry[]): DoseEntry[] {
+  const out = a.slice()
+  for (const dose of b) if (!out.some((d) => sameDose(d, dose))) out.push(dose)
+  return out
+}
+
+// Last-writer-wins per entry of two lists keyed by `keyOf`, using edit timestamps kept after an
+// entry is removed. Entries edited on neither side (legacy data) are kept from both, the local one
+// first.
+function mergeEntries<T>(
+  local: T[],
+  localAt: Record<string, number>,
+  remote: T[],
+  remoteAt: Record<string, number>,
+  keyOf: (entry: T) => string,
+): { entries: T[]; editedAt: Record<string, number> } {
+  const keys = new Set([
+    ...local.map(keyOf),
+    ...remote.map(keyOf),
+    ...Object.keys(localAt),
+    ...Object.keys(remoteAt),
+  ])
+  const entries: T[] = []
+  const editedAt: Record<string, number> = {}
+  for (const k of keys) {
+    const l = localAt[k] ?? 0
+    const r = remoteAt[k] ?? 0
+    const localEntry = local.find((e) => keyOf(e) === k)
+    const remoteEntry = remote.find((e) => keyOf(e) === k)
+    const entry = l > r ? localEntry : r > l ? remoteEntry : (localEntry ?? remoteEntry)
+    if (entry) entries.push(entry)
+    if (Math.max(l, r) > 0) editedAt[k] = Math.max(l, r)
+  }
+  return { entries, editedAt }
+}
+
+// Per-day last-writer-wins using `dayEditedAt`. Days edited on neither side since timestamps
+// were introduced (legacy data) fall back to a union, so nothing taken is ever dropped silently.
+// Targets and supplies are merged the same way, per entry; the start date set by hand last wins
+// (else the earlier one), but never lies after the first recorded day. Other settings of the
+// tracker (name, protocol, ...) come whole from `preferRemoteMeta`'s side.
+export function mergeTrackers(local: Tracker, remote: Tracker, preferRemoteMeta: boolean): Tracker {
+  const keys = new Set<ISODate>([
+    ...(Object.keys(local.taken) as ISODate[]),
+    ...(Object.keys(remote.taken) as ISODate[]),
+    ...(Object.keys(local.restDays) as ISODate[]),
+    ...(Object.keys(remote.restDays) as ISODate[]),
+    ...(Object.keys(local.dayEditedAt) as ISODate[]),
+    ...(Object.keys(remote.dayEditedAt) as ISODate[]),
+  ])
+
+  const taken: Record<ISODate, DoseEntry[]> = {}
+  const restDays: Record<ISODate, RestDayKind> = {}
+  const dayEditedAt: Record<ISODate, number> = {}
+  for (const k of keys) {
+    const localAt = local.dayEditedAt[k] ?? 0
+    const remoteAt = remote.dayEditedAt[k] ?? 0
+    const localDoses = local.taken[k]
+    const remoteDoses = remote.taken[k]
+
+    let doses: DoseEntry[] | undefined
+    if (localAt > remoteAt) doses = localDoses
+    else if (remoteAt > localAt) doses = remoteDoses
+    else if (localDoses && remoteDoses) doses = unionDoses(localDoses, remoteDoses)
+    else doses = localDoses ?? remoteDoses
+
+    // The rest-day mark follows the same winner; a taken day is never a rest day.
+    const rest =
+      localAt > remoteAt
+        ? local.restDays[k]
+        : remoteAt > localAt
+          ? remote.restDays[k]
+          : (local.restDays[k] ?? remote.restDays[k])
+
+    if (doses && doses.length > 0) taken[k] = doses
+    else if (rest) restDays[k] = rest
+    const editedAt = Math.max(localAt, remoteAt)
+    if (editedAt > 0) dayEditedAt[k] = editedAt
+  }
+
+  const targets = mergeEntries(
+    local.targets,
+    local.targetEditedAt,
+    remote.targets,
+    remote.targetEditedAt,
+    (t: TargetChange) => t.from,
+  )
+  const supplies = mergeEntries(
+    local.supplies,
+    local.supplyEditedAt,
+    remote.supplies,
+    remote.supplyEditedAt,
+    (s: Supply) => s.id,
+  )
+
+  const earlier = (a: ISODate, b: ISODate) => (compareISODate(a, b) <= 0 ? a : b)
+  let startDate =
+    local.startDateEditedAt > remote.startDateEditedAt
+      ? local.startDate
+      : remote.startDateEditedAt > local.startDateEditedAt
+        ? remote.startDate
+        : earlier(local.startDate, remote.startDate)
+  for (const k of [...Object.keys(taken), ...Object.keys(restDays)] as ISODate[]) {
+    startDate = earlier(startDate, k)
+  }
+
+  const meta = preferRemoteMeta ? remote : local
+  return {
+    ...meta,
+    startDate,
+    startDateEditedAt: Math.max(local.startDateEditedAt, remote.startDateEditedAt),
+    taken,
+    restDays,
+    dayEditedAt,
+    targets: targets.entries.sort((a, b) => compareISODate(a.from, b.from)),
+    targetEditedAt: targets.editedAt,
+    supplies: supplies.entries.sort((a, b) => compareISODate(a.purchasedOn, b.purchasedOn)),
+    supplyEditedAt: supplies.editedAt,
+  }
+}
+
+// Last-writer-wins per day for bodyweight entries, using `bodyweightEditedAt` like days use
+// `dayEditedAt`. Days edited on neither side keep the newer save's value.
+function mergeBodyweight(local: SaveData, remote: SaveData, preferRemote: boolean) {
+  const keys = new Set<ISODate>([
+    ...(Object.keys(local.bodyweight) as ISODate[]),
+    ...(Object.keys(remote.bodyweight) as ISODate[]),
+    ...(Object.keys(local.bodyweightEditedAt) as ISODate[]),
+    ...(Object.keys(remote.bodyweightEditedAt) as ISODate[]),
+  ])
+  const bodyweight: Record<ISODate, number> = {}
+  const bodyweightEditedAt: Record<ISODate, number> = {}
+  for (const k of keys) {
+    const localAt = local.bodyweightEditedAt[k] ?? 0
+    const remoteAt = remote.bodyweightEditedAt[k] ?? 0
+    const kg =
+      localAt > remoteAt
+        ? local.bodyweight[k]
+        : remoteAt > localAt
+          ? remote.bodyweight[k]
+          : preferRemote
+            ? (remote.bodyweight[k] ?? local.bodyweight[k])
+            : (local.bodyweight[k] ?? remote.bodyweight[k])
+    if (kg !== undefined) bodyweight[k] = kg
+    const editedAt = Math.max(localAt, remoteAt)
+    if (editedAt > 0) bodyweightEditedAt[k] = editedAt
+  }
+  return { bodyweight, bodyweightEditedAt }
+}
+
+// A tracker removed on either side stays removed, unless one of its days was edited after the
+// removal (it was still in use elsewhere).
+function isRemoved(tracker: Tracker, removedTrackers: Record<string, number>) {
+  const removedAt = removedTrackers[tracker.id]
+  if (removedAt === undefined) return false
+  return !Object.values(tracker.dayEditedAt).some((at) => at > removedAt)
+}
+
+// Conflict-free merge of two saves: trackers are matched by id, days are merged per day, and
+// settings-like fields (settings, day boundary, a tracker's name and protocol) come from whichever
+// save was updated last. The local active tracker stays.
+// Removals (trackers, bodyweight entries) are kept as tombstones so a merge doesn't undo them.
+export function mergeSaves(local: SaveData, remote: SaveData): SaveData {
+  const preferRemoteMeta = remote.updatedAt > local.updatedAt
+  const removedTrackers = { ...local.removedTrackers }
+  for (const [id, at] of Object.entries(remote.removedTrackers)) {
+    removedTrackers[id] = Math.max(removedTrackers[id] ?? 0, at)
+  }
+
+  const merged: Tracker[] = local.trackers.map((t) => {
+    const other = remote.trackers.find((r) => r.id === t.id)
+    return other ? mergeTrackers(t, other, preferRemoteMeta) : t
+  })
+  for (const r of remote.trackers) {
+    if (!merged.some((t) => t.id === r.id)) merged.push(r)
+  }
+  const kept = merged.filter((t) => !isRemoved(t, removedTrackers))
+  // A save always has a tracker (e.g. a cleared save whose default tracker was once removed).
+  const trackers = kept.length > 0 ? kept : merged
+  for (const t of trackers) delete removedTrackers[t.id]
+
+  const meta = preferRemoteMeta ? remote : local
+  return {
+    ...meta,
+    trackers,
+    ...mergeBodyweight(local, remote, preferRemoteMeta),
+    removedTrackers,
+    activeTrackerId: trackers.some((t) => t.id === local.activeTrackerId)
+      ? local.activeTrackerId
+      : trackers[0].id,
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  formatGrams,
+  type PlannedDay,
+  type ProtocolPhase,
+  type ProtocolPhaseKind,
+} from './creatine'
+import type { MessageKey, Translator } from './i18n'
+
+export const PROTOCOL_PHASE_LABEL: Record<ProtocolPhaseKind, MessageKey> = {
+  loading: 'protocol.phase.loading',
+  maintenance: 'protocol.phase.maintenance',
+  off: 'protocol.phase.off',
+}
+
+// Common creatine numbers, used when a phase of that kind is added: ~20 g/day split in four for
+// a week, 5 g/day for two months, then four weeks off.
+export const PROTOCOL_PHASE_DEFAULTS: Record<ProtocolPhaseKind, ProtocolPhase> = {
+  loading: { kind: 'loading', days: 7, dosesPerDay: 4, gramsPerDose: 5 },
+  maintenance: { kind: 'maintenance', days: 56, dosesPerDay: 1, gramsPerDose: 5 },
+  off: { kind: 'off', days: 28, dosesPerDay: 0, gramsPerDose: null },
+}
+
+// The plan a new protocol starts from: loading, then maintenance from then on.
+export const DEFAULT_PROTOCOL_PHASES: ProtocolPhase[] = [
+  PROTOCOL_PHASE_DEFAULTS.loading,
+  { ...PROTOCOL_PHASE_DEFAULTS.maintenance, days: null },
+]
+
+// e.g. "Loading day 3/7 — 4 × 5 g", "Maintenance day 12 — 1 dose", "Off-cycle day 2/28 — nothing due".
+export function describePlannedDay(planned: PlannedDay, t: Translator): string {
+  const { phase } = planned
+  const name = t(PROTOCOL_PHASE_LABEL[phase.kind])
+  const day =
+    phase.days === null
+      ? t('protocol.day', { phase: name, day: planned.day })
+      : t('protocol.dayOf', { phase: name, day: planned.day, days: phase.days })
+  const doses =
+    phase.kind === 'off'
+      ? t('protocol.nothingDue')
+      : phase.gramsPerDose !== null
+        ? t('protocol.dosesOf', { count: phase.dosesPerDay, grams: formatGrams(phase.gramsPerDose) })
+        : t('protocol.doses', { count: phase.dosesPerDay })
+  return t('protocol.summary', { day, doses })
+}
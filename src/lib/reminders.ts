@@ -0,0 +1,104 @@
+import {
+  getActiveTracker,
+  getTodayKey,
+  isTaken,
+  type DayBoundary,
+  type ISODate,
+  type SaveDataV4,
+} from './creatine'
+import { createTranslator, type Translator } from './i18n'
+
+// Shared with public/sw.js; keep the names in sync.
+export const REMINDER_SYNC_TAG = 'creatine-reminder'
+// Posted by the service worker after it changed the stored save (e.g. "Mark as taken").
+export const SAVE_CHANGED_MESSAGE = 'save-changed'
+
+// What the service worker needs to decide whether to remind (it derives the same from the
+// stored save when woken up without the page).
+export type ReminderState = {
+  enabled: boolean
+  times: string[]
+  trackerId: string
+  trackerName: string
+  // Day the active tracker was last marked (today or earlier), so the SW can tell "today is done".
+  lastTakenDate: ISODate | null
+  // So the SW counts "today" the same way the page does.
+  dayBoundary: DayBoundary
+  // Notification text in the UI language; the SW keeps the last one for when it wakes up alone.
+  text: ReminderText
+}
+
+export type ReminderText = {
+  title: string
+  body: string
+  action: string
+}
+
+// How reminders get delivered on this device, best first.
+export type ReminderDelivery = 'triggers' | 'periodic-sync' | 'on-open' | 'unsupported'
+
+export function buildReminderState(
+  save: SaveDataV4,
+  today: ISODate = getTodayKey(save.dayBoundary),
+  t: Translator = createTranslator('en'),
+): ReminderState {
+  const tracker = getActiveTracker(save)
+  let lastTakenDate: ISODate | null = null
+  for (const k of Object.keys(tracker.taken) as ISODate[]) {
+    if (k > today) continue
+    if (lastTakenDate === null || k > lastTakenDate) lastTakenDate = k
+  }
+  return {
+    enabled: save.settings.reminders.enabled,
+    times: save.settings.reminders.times,
+    trackerId: tracker.id,
+    trackerName: tracker.name,
+    lastTakenDate: isTaken(tracker, today) ? today : lastTakenDate,
+    dayBoundary: save.dayBoundary,
+    text: {
+      title: t('reminders.notification.title'),
+      body: t('reminders.notification.body', { tracker: tracker.name }),
+      action: t('reminders.notification.action'),
+    },
+  }
+}
+
+export function getReminderDelivery(): ReminderDelivery {
+  if (!('serviceWorker' in navigator) || !('Notification' in window)) return 'unsupported'
+  if ('showTrigger' in Notification.prototype) return 'triggers'
+  if ('periodicSync' in ServiceWorkerRegistration.prototype) return 'periodic-sync'
+  return 'on-open'
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!('Notification' in window)) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>
+    unregister: (tag: string) => Promise<void>
+  }
+}
+
+// Hands the current state to the service worker, which (re)schedules trigger-based notifications
+// and shows a reminder right away if one is already overdue (the "checked on open" fallback).
+export async function syncReminders(state: ReminderState) {
+  if (!('serviceWorker' in navigator)) return
+  const reg = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration
+  reg.active?.postMessage({ type: 'reminder-state', state })
+
+  if (!reg.periodicSync) return
+  try {
+    if (state.enabled && state.times.length > 0) {
+      await reg.periodicSync.register(REMINDER_SYNC_TAG, { minInterval: 60 * 60 * 1000 })
+    } else {
+      await reg.periodicSync.unregister(REMINDER_SYNC_TAG)
+    }
+  } catch {
+    // Periodic sync needs an installed PWA and permission; the on-open check still applies.
+  }
+}
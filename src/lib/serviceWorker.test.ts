@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest'
+import swSource from '../../public/sw.js?raw'
+import {
+  buildHistoryKeysInclusive,
+  daysBetween,
+  getDayKeyAt,
+  getPlannedDay,
+  getPlannedGrams,
+  getTargetGrams,
+  getWallClock,
+  makeDefaultSave,
+  makeLocalTimestamp,
+  makeTracker,
+  markTaken,
+  setTargetFrom,
+  updateTracker,
+  wallClockToTimestamp,
+  type DayBoundary,
+  type ISODate,
+  type ProtocolPhase,
+  type SaveDataV4,
+  type Tracker,
+} from './creatine'
+import { buildReminderState, type ReminderState, type ReminderText } from './reminders'
+
+// public/sw.js can't import the app's modules, so it keeps its own copies of the day, reminder and
+// target rules. These tests run each copy and the original on the same inputs.
+
+type ServiceWorkerCopies = {
+  wallClock: typeof getWallClock
+  dayKeyAt: (at: number, boundary: DayBoundary | null) => ISODate
+  wallClockToTimestamp: typeof wallClockToTimestamp
+  reminderTimestamp: (key: ISODate, time: string, boundary: DayBoundary | null) => number
+  reminderStateFromSave: (
+    save: SaveDataV4,
+    now: number,
+    text: ReminderText | null,
+  ) => ReminderState | null
+  daysBetween: typeof daysBetween
+  getPlannedPhase: (tracker: Tracker, key: ISODate) => ProtocolPhase | null
+  getPlannedGrams: typeof getPlannedGrams
+  getTargetGrams: typeof getTargetGrams
+}
+
+// Evaluates the worker with a stand-in `self` (only its event listeners and scope are touched
+// when it loads) and hands back its copies.
+function loadServiceWorker(): ServiceWorkerCopies {
+  const self = { registration: { scope: 'https://example.test/' }, addEventListener() {} }
+  const names: (keyof ServiceWorkerCopies)[] = [
+    'wallClock',
+    'dayKeyAt',
+    'wallClockToTimestamp',
+    'reminderTimestamp',
+    'reminderStateFromSave',
+    'daysBetween',
+    'getPlannedPhase',
+    'getPlannedGrams',
+    'getTargetGrams',
+  ]
+  return new Function('self', `${swSource}\nreturn { ${names.join(', ')} }`)(self)
+}
+
+const sw = loadServiceWorker()
+
+// Null is the device zone (America/New_York in tests, see vite.config.ts). Lord Howe moves its
+// clocks by half an hour; Auckland and Lord Howe change in the opposite season to New York.
+const ZONES = [
+  null,
+  'America/New_York',
+  'Europe/Lisbon',
+  'Asia/Kolkata',
+  'Australia/Lord_Howe',
+  'Pacific/Auckland',
+]
+const BOUNDARIES: DayBoundary[] = ZONES.flatMap((timeZone) => [
+  { timeZone, rolloverHour: 0 },
+  { timeZone, rolloverHour: 4 },
+])
+
+// The day before each of the zones' 2026 DST changes.
+const DST_EVES: ISODate[] = [
+  '2026-03-07',
+  '2026-03-28',
+  '2026-04-04',
+  '2026-09-26',
+  '2026-10-03',
+  '2026-10-24',
+  '2026-10-31',
+]
+
+const HALF_HOUR = 30 * 60 * 1000
+
+// Every half hour over two days from each DST eve (UTC midnight).
+const INSTANTS = DST_EVES.flatMap((key) => {
+  const start = Date.UTC(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1, Number(key.slice(8)))
+  return Array.from({ length: 96 }, (_, i) => start + i * HALF_HOUR)
+})
+
+const TIMES = Array.from(
+  { length: 48 },
+  (_, i) => `${String(Math.floor(i / 2)).padStart(2, '0')}:${i % 2 ? '30' : '00'}`,
+)
+
+function nextDay(key: ISODate): ISODate {
+  return buildHistoryKeysInclusive(key, '2026-12-31')[1]
+}
+
+describe('service worker copies', () => {
+  it('reads the same wall clock and day', () => {
+    for (const timeZone of ZONES) {
+      for (const at of INSTANTS) {
+        expect(sw.wallClock(at, timeZone)).toEqual(getWallClock(at, timeZone))
+      }
+    }
+    for (const boundary of BOUNDARIES) {
+      for (const at of INSTANTS) {
+        expect(sw.dayKeyAt(at, boundary)).toBe(getDayKeyAt(at, boundary))
+      }
+    }
+  })
+
+  it('turns wall-clock times into the same timestamps, across DST gaps and repeats', () => {
+    for (const timeZone of ZONES) {
+      for (const key of DST_EVES.flatMap((k) => [k, nextDay(k)])) {
+        const [year, month, day] = key.split('-').map(Number)
+        for (const time of TIMES) {
+          const [hour, minute] = time.split(':').map(Number)
+          const c = { year, month, day, hour, minute }
+          expect(sw.wallClockToTimestamp(c, timeZone)).toBe(wallClockToTimestamp(c, timeZone))
+        }
+      }
+    }
+  })
+
+  it('schedules reminders at the same times', () => {
+    for (const boundary of BOUNDARIES) {
+      for (const key of DST_EVES.map(nextDay)) {
+        for (const time of TIMES) {
+          expect(sw.reminderTimestamp(key, time, boundary)).toBe(
+            makeLocalTimestamp(key, time, boundary),
+          )
+        }
+      }
+    }
+  })
+
+  it('derives the same reminder state from a stored save', () => {
+    const base = makeDefaultSave('2026-03-01')
+    const tracked = updateTracker(base, base.activeTrackerId, (tracker) =>
+      ['2026-03-05', '2026-03-08', '2026-03-09'].reduce(
+        (tr, key) => markTaken(tr, key as ISODate, null),
+        tracker,
+      ),
+    )
+    for (const dayBoundary of BOUNDARIES) {
+      const save: SaveDataV4 = {
+        ...tracked,
+        dayBoundary,
+        settings: { ...tracked.settings, reminders: { enabled: true, times: ['08:00', '21:30'] } },
+      }
+      for (const now of INSTANTS.slice(0, 96)) {
+        const today = getDayKeyAt(now, dayBoundary)
+        expect(sw.reminderStateFromSave(save, now, null)).toEqual({
+          ...buildReminderState(save, today),
+          text: null,
+        })
+      }
+    }
+  })
+
+  it('plans the same protocol phases and targets', () => {
+    const loading: ProtocolPhase = { kind: 'loading', days: 5, dosesPerDay: 4, gramsPerDose: 5 }
+    const maintenance: ProtocolPhase = {
+      kind: 'maintenance',
+      days: 10,
+      dosesPerDay: 1,
+      gramsPerDose: 3,
+    }
+    const off: ProtocolPhase = { kind: 'off', days: 4, dosesPerDay: 0, gramsPerDose: null }
+    const unplanned: ProtocolPhase = {
+      kind: 'maintenance',
+      days: null,
+      dosesPerDay: 1,
+      gramsPerDose: null,
+    }
+    const withTargets = setTargetFrom(
+      setTargetFrom(makeTracker('t', 'Test', '2026-01-01'), '2026-01-10', 5),
+      '2026-02-20',
+      null,
+    )
+    const trackers: Tracker[] = [
+      withTargets,
+      {
+        ...withTargets,
+        protocol: { startDate: '2026-01-15', phases: [loading, maintenance, off], repeatFrom: 1 },
+      },
+      {
+        ...withTargets,
+        protocol: { startDate: '2026-01-15', phases: [loading, unplanned], repeatFrom: null },
+      },
+      {
+        ...withTargets,
+        protocol: { startDate: '2026-01-15', phases: [loading, maintenance], repeatFrom: null },
+      },
+    ]
+    const keys = buildHistoryKeysInclusive('2026-01-01', '2026-04-30')
+    for (const tracker of trackers) {
+      for (const key of keys) {
+        expect(sw.getPlannedPhase(tracker, key)).toEqual(getPlannedDay(tracker, key)?.phase ?? null)
+        expect(sw.getTargetGrams(tracker, key)).toBe(getTargetGrams(tracker, key))
+      }
+    }
+    for (const phase of [loading, maintenance, off, unplanned]) {
+      expect(sw.getPlannedGrams(phase)).toBe(getPlannedGrams(phase))
+    }
+    for (const key of keys) {
+      expect(sw.daysBetween('2026-03-08', key)).toBe(daysBetween('2026-03-08', key))
+    }
+  })
+})
@@ -0,0 +1,69 @@
+// Shared with public/sw.js; keep the name in sync.
+export const SKIP_WAITING_MESSAGE = 'skip-waiting'
+
+// A new version that's installed but waits for the user to accept it (see public/sw.js).
+let waiting: ServiceWorker | null = null
+const listeners = new Set<() => void>()
+// Set once the user accepted the update, so the takeover it causes reloads the page. The first
+// install also takes control (clients.claim), and that one must not reload.
+let reloadOnTakeover = false
+
+function setWaiting(worker: ServiceWorker) {
+  waiting = worker
+  for (const listener of listeners) listener()
+}
+
+function watchForWaiting(reg: ServiceWorkerRegistration) {
+  // Without a controller this is the first install, which takes over right away.
+  if (reg.waiting && navigator.serviceWorker.controller) setWaiting(reg.waiting)
+  reg.addEventListener('updatefound', () => {
+    const installing = reg.installing
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaiting(installing)
+      }
+    })
+  })
+}
+
+// Registers public/sw.js under the app's base path. An app left open also looks for a new version
+// whenever it comes back to the foreground.
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return
+  const base = import.meta.env.BASE_URL
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloadOnTakeover) window.location.reload()
+  })
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${base}sw.js`, { scope: base })
+      .then((reg) => {
+        watchForWaiting(reg)
+        document.addEventListener('visibilitychange', () => {
+          if (document.visibilityState === 'visible') void reg.update().catch(() => {})
+        })
+      })
+      .catch(() => {
+        // Best-effort; app still works without SW.
+      })
+  })
+}
+
+export function isUpdateWaiting() {
+  return waiting !== null
+}
+
+// Shaped for useSyncExternalStore: calls `listener` when a new version starts waiting.
+export function subscribeToUpdates(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Lets the waiting version take over; the page reloads once it has.
+export function applyUpdate() {
+  if (!waiting) return
+  reloadOnTakeover = true
+  waiting.postMessage({ type: SKIP_WAITING_MESSAGE })
+}
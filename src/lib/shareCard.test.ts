@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildHistoryKeysInclusive,
+  makeTracker,
+  type DisplaySettings,
+  type Tracker,
+} from './creatine'
+import { createTranslator } from './i18n'
+import { renderShareCardSvg } from './shareCard'
+
+const LOGO =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><circle cx="32" cy="32" r="24"/></svg>'
+
+// Ten taken days bridged by a freeze (earned on the seventh), after an earlier 3-day run.
+function fixture(): Tracker {
+  const days = [
+    ...buildHistoryKeysInclusive('2026-02-20', '2026-02-22'),
+    ...buildHistoryKeysInclusive('2026-03-01', '2026-03-08'),
+    '2026-03-10',
+    '2026-03-11',
+  ]
+  return {
+    ...makeTracker('creatine', 'Creatine <5 g>', '2026-02-20'),
+    taken: Object.fromEntries(days.map((k) => [k, [{ grams: 5, at: null, tz: null }]])),
+    restDays: { '2026-03-09': 'freeze', '2026-02-25': 'excused' },
+  }
+}
+
+// ISO dates don't depend on the ICU data of the machine running the tests.
+const DISPLAY: DisplaySettings = { locale: 'en', timeFormat: 'auto', dateFormat: 'iso' }
+
+describe('renderShareCardSvg', () => {
+  it('renders the card', () => {
+    const svg = renderShareCardSvg({
+      tracker: fixture(),
+      today: '2026-03-11',
+      logoSvg: LOGO,
+      t: createTranslator('en'),
+      display: DISPLAY,
+      weekStart: 1,
+    })
+    expect(svg).toMatchSnapshot()
+  })
+
+  it('escapes the tracker name and translates every label', () => {
+    const svg = renderShareCardSvg({
+      tracker: fixture(),
+      today: '2026-03-11',
+      logoSvg: LOGO,
+      t: createTranslator('pt'),
+      display: DISPLAY,
+    })
+    expect(svg).toContain('>Creatine &lt;5 g&gt;</text>')
+    expect(svg).toContain('>Rastreador de Creatina</text>')
+    expect(svg).toContain('>Em 2026-03-11</text>')
+    expect(svg).not.toContain('Creatine Tracker')
+  })
+})
@@ -0,0 +1,188 @@
+import { buildYearHeatmapWeeks, computeHeatLevels, type HeatLevel } from './calendar'
+import {
+  computeBestStreak,
+  computeCurrentStreak,
+  formatHumanDate,
+  makeLocalNoonDateFromISO,
+  type DisplaySettings,
+  type ISODate,
+  type Tracker,
+  type Weekday,
+} from './creatine'
+import type { Translator } from './i18n'
+
+export const SHARE_CARD_WIDTH = 1200
+export const SHARE_CARD_HEIGHT = 630
+
+// About four months of weeks, which still reads at a glance on a phone-sized preview.
+export const SHARE_CARD_WEEKS = 17
+
+export type ShareCardInput = {
+  tracker: Tracker
+  today: ISODate
+  // Contents of public/creatine.svg; embedded as a nested <svg> so the card has no external refs.
+  logoSvg: string
+  t: Translator
+  display: DisplaySettings
+  weeks?: number
+  weekStart?: Weekday
+}
+
+// Same palette as the in-app heatmap (.heatCell in App.css), flattened for SVG.
+const HEAT_FILL: Record<HeatLevel, string> = {
+  0: 'rgba(255,255,255,0.07)',
+  1: 'rgba(34,197,94,0.25)',
+  2: 'rgba(34,197,94,0.45)',
+  3: 'rgba(34,197,94,0.65)',
+  4: 'rgba(34,197,94,0.9)',
+}
+
+const FONT = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif"
+
+function escapeXml(v: string) {
+  return v
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Re-roots the logo's markup at the given box, keeping its own viewBox.
+function embedLogo(logoSvg: string, x: number, y: number, size: number) {
+  const open = /<svg\b[^>]*>/i.exec(logoSvg)
+  const close = logoSvg.lastIndexOf('</svg>')
+  if (!open || close < open.index) return ''
+  const viewBox = /viewBox="([^"]*)"/i.exec(open[0])?.[1] ?? '0 0 512 512'
+  const inner = logoSvg.slice(open.index + open[0].length, close).trim()
+  return `<svg x="${x}" y="${y}" width="${size}" height="${size}" viewBox="${viewBox}">${inner}</svg>`
+}
+
+function streakBlock(x: number, y: number, label: string, value: string, note: string) {
+  return [
+    `<rect x="${x}" y="${y}" width="260" height="170" rx="24" fill="rgba(255,255,255,0.06)"/>`,
+    `<text x="${x + 28}" y="${y + 46}" font-size="24" fill="rgba(255,255,255,0.7)">${escapeXml(label)}</text>`,
+    `<text x="${x + 28}" y="${y + 112}" font-size="56" font-weight="700" fill="#fff">${escapeXml(value)}</text>`,
+    note
+      ? `<text x="${x + 28}" y="${y + 148}" font-size="22" fill="rgba(255,255,255,0.6)">${escapeXml(note)}</text>`
+      : '',
+  ].join('')
+}
+
+// Renders the share card as a self-contained SVG string. Pure: no DOM, so it can run (and be
+// snapshot-tested) anywhere; rasterizing to PNG is left to `renderShareCardPng`.
+export function renderShareCardSvg({
+  tracker,
+  today,
+  logoSvg,
+  t,
+  display,
+  weeks = SHARE_CARD_WEEKS,
+  weekStart = 0,
+}: ShareCardInput): string {
+  const current = computeCurrentStreak(tracker, today)
+  const best = computeBestStreak(tracker, tracker.startDate, today)
+  const grid = buildYearHeatmapWeeks(today, weeks, weekStart)
+  const levels = computeHeatLevels(
+    tracker,
+    grid.flat().filter((k): k is ISODate => k !== null),
+  )
+
+  const cell = 22
+  const gap = 5
+  const gridWidth = grid.length * (cell + gap) - gap
+  const gridHeight = 7 * (cell + gap) - gap
+  const gridX = SHARE_CARD_WIDTH - 80 - gridWidth
+  const gridY = 250
+
+  const cells: string[] = []
+  grid.forEach((week, wi) => {
+    week.forEach((key, di) => {
+      if (!key) return
+      const level = levels.get(key) ?? 0
+      const x = gridX + wi * (cell + gap)
+      const y = gridY + di * (cell + gap)
+      cells.push(
+        `<rect x="${x}" y="${y}" width="${cell}" height="${cell}" rx="5" fill="${HEAT_FILL[level]}"/>`,
+      )
+    })
+  })
+
+  const asOf = formatHumanDate(makeLocalNoonDateFromISO(today), display)
+  const days = (count: number) => t('common.days', { count })
+  const rest = (count: number) => (count > 0 ? t('share.rest', { count }) : '')
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SHARE_CARD_WIDTH}" height="${SHARE_CARD_HEIGHT}" viewBox="0 0 ${SHARE_CARD_WIDTH} ${SHARE_CARD_HEIGHT}" font-family="${escapeXml(FONT)}">`,
+    '<defs><linearGradient id="cardBg" x1="0" y1="0" x2="1" y2="1">',
+    '<stop offset="0" stop-color="#141a33"/><stop offset="1" stop-color="#0a0f1c"/>',
+    '</linearGradient></defs>',
+    `<rect width="${SHARE_CARD_WIDTH}" height="${SHARE_CARD_HEIGHT}" fill="url(#cardBg)"/>`,
+    embedLogo(logoSvg, 64, 56, 112),
+    `<text x="196" y="104" font-size="44" font-weight="700" fill="#fff">${escapeXml(tracker.name)}</text>`,
+    `<text x="196" y="148" font-size="26" fill="rgba(255,255,255,0.6)">${escapeXml(t('share.brand'))}</text>`,
+    streakBlock(80, 250, t('streaks.current'), days(current.length), rest(current.bridged)),
+    streakBlock(370, 250, t('streaks.best'), days(best.length), rest(best.bridged)),
+    cells.join(''),
+    `<text x="${gridX}" y="${gridY + gridHeight + 44}" font-size="22" fill="rgba(255,255,255,0.6)">${escapeXml(t('share.lastWeeks', { count: weeks }))}</text>`,
+    `<text x="80" y="${SHARE_CARD_HEIGHT - 56}" font-size="22" fill="rgba(255,255,255,0.5)">${escapeXml(t('share.asOf', { date: asOf }))}</text>`,
+    '</svg>',
+  ].join('')
+}
+
+// Rasterizes an SVG string through an <img> and a canvas. Browser only.
+export async function renderShareCardPng(
+  svg: string,
+  width = SHARE_CARD_WIDTH,
+  height = SHARE_CARD_HEIGHT,
+): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const img = new Image(width, height)
+    img.src = url
+    await img.decode()
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas is not available.')
+    ctx.drawImage(img, 0, 0, width, height)
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))),
+        'image/png',
+      )
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export type ShareOutcome = 'shared' | 'downloaded' | 'cancelled'
+
+// Shares the image through the Web Share API where files can be shared, else downloads it.
+export async function shareOrDownloadImage(
+  blob: Blob,
+  filename: string,
+  title: string,
+): Promise<ShareOutcome> {
+  const file = new File([blob], filename, { type: blob.type })
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title })
+      return 'shared'
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return 'cancelled'
+      // Anything else (e.g. NotAllowedError without a user gesture): fall through to download.
+    }
+  }
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+  return 'downloaded'
+}
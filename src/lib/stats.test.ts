@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import { makeTracker, setDoses, setRestDay, type ISODate, type Tracker } from './creatine'
+import { computeAdherence, computeRangeStats, computeTimeOfDayStats } from './stats'
+
+// Tests run with TZ=America/New_York (see vite.config.ts): DST starts 2026-03-08 and ends
+// 2026-11-01.
+
+function at(key: ISODate, time: string) {
+  const [y, m, d] = key.split('-').map(Number)
+  const [h, min] = time.split(':').map(Number)
+  return new Date(y, m - 1, d, h, min).getTime()
+}
+
+// A dose at a device-local time, recorded without a zone.
+function local(key: ISODate, time: string) {
+  return { at: at(key, time), tz: null }
+}
+
+function take(tracker: Tracker, key: ISODate, time: string | null = null): Tracker {
+  return setDoses(tracker, key, [{ grams: 5, at: time === null ? null : at(key, time), tz: null }])
+}
+
+function trackerWith(startDate: ISODate, days: [ISODate, string | null][]): Tracker {
+  return days.reduce((t, [key, time]) => take(t, key, time), makeTracker('t', 'Test', startDate))
+}
+
+describe('computeAdherence', () => {
+  it('has no percentage for an empty tracker', () => {
+    const tracker = makeTracker('t', 'Test', '2026-03-10')
+    expect(computeAdherence(tracker, '2026-03-10', 7)).toEqual({
+      windowDays: 7,
+      taken: 0,
+      total: 0,
+      percent: null,
+    })
+    expect(computeAdherence(tracker, '2026-03-10', null).percent).toBeNull()
+  })
+
+  it('counts each calendar day once across a DST change', () => {
+    const tracker = trackerWith('2026-03-01', [
+      ['2026-03-06', '08:00'],
+      ['2026-03-07', '08:00'],
+      ['2026-03-08', '08:00'],
+      ['2026-03-09', '08:00'],
+    ])
+    // 03-04 .. 03-09: the window ends today, which doesn't count until it's taken.
+    expect(computeAdherence(tracker, '2026-03-10', 7)).toEqual({
+      windowDays: 7,
+      taken: 4,
+      total: 6,
+      percent: (4 / 6) * 100,
+    })
+    // Fall back: 2026-11-01 has 25 hours.
+    const autumn = trackerWith('2026-10-30', [
+      ['2026-10-31', null],
+      ['2026-11-01', null],
+      ['2026-11-02', null],
+    ])
+    expect(computeAdherence(autumn, '2026-11-02', null)).toMatchObject({ taken: 3, total: 4 })
+  })
+
+  it('only counts today once it is taken', () => {
+    const tracker = trackerWith('2026-03-01', [['2026-03-02', null]])
+    expect(computeAdherence(tracker, '2026-03-03', null)).toMatchObject({ taken: 1, total: 2 })
+    const takenToday = take(tracker, '2026-03-03')
+    expect(computeAdherence(takenToday, '2026-03-03', null)).toMatchObject({ taken: 2, total: 3 })
+  })
+})
+
+describe('computeTimeOfDayStats', () => {
+  it('is empty without samples', () => {
+    expect(computeTimeOfDayStats([])).toEqual({
+      samples: 0,
+      meanMinutes: null,
+      spreadMinutes: null,
+    })
+  })
+
+  it('averages 23:50 and 00:10 to midnight', () => {
+    const stats = computeTimeOfDayStats([
+      local('2026-05-01', '23:50'),
+      local('2026-05-03', '00:10'),
+    ])
+    expect(stats).toEqual({ samples: 2, meanMinutes: 0, spreadMinutes: 10 })
+  })
+
+  it('keeps the wall-clock time across a DST change', () => {
+    const stats = computeTimeOfDayStats([
+      local('2026-03-07', '08:00'),
+      local('2026-03-08', '08:00'),
+      local('2026-03-09', '08:00'),
+    ])
+    expect(stats).toEqual({ samples: 3, meanMinutes: 8 * 60, spreadMinutes: 0 })
+  })
+
+  it('reads each dose in the zone it was taken in', () => {
+    // 08:00 at home, then 08:00 in Tokyo while travelling (19:00 the day before at home).
+    const stats = computeTimeOfDayStats([
+      { at: at('2026-03-10', '08:00'), tz: 'America/New_York' },
+      { at: Date.UTC(2026, 2, 12, 23, 0), tz: 'Asia/Tokyo' },
+    ])
+    expect(stats).toEqual({ samples: 2, meanMinutes: 8 * 60, spreadMinutes: 0 })
+  })
+
+  it('reads doses without a zone in the home zone', () => {
+    // 08:00 in Tokyo.
+    const dose = { at: Date.UTC(2026, 2, 12, 23, 0), tz: null }
+    expect(computeTimeOfDayStats([dose], 'Asia/Tokyo').meanMinutes).toBe(8 * 60)
+    expect(computeTimeOfDayStats([dose]).meanMinutes).toBe(19 * 60)
+  })
+})
+
+describe('computeRangeStats', () => {
+  it('is empty for an empty save', () => {
+    const tracker = makeTracker('t', 'Test', '2026-03-10')
+    expect(computeRangeStats(tracker, '2026-03-10', { start: '2026-03-01', end: '2026-03-10' }))
+      .toEqual({
+        trackedDays: 0,
+        takenDays: 0,
+        restDays: 0,
+        missesByWeekday: [0, 0, 0, 0, 0, 0, 0],
+        timeOfDay: { samples: 0, meanMinutes: null, spreadMinutes: null },
+        gaps: { count: 0, lengths: [], longest: 0 },
+      })
+  })
+
+  it('counts days with unknown times as taken without sampling them', () => {
+    const tracker = trackerWith('2026-03-01', [
+      ['2026-03-01', '23:50'],
+      ['2026-03-02', null],
+      ['2026-03-03', '00:10'],
+    ])
+    const stats = computeRangeStats(tracker, '2026-03-03', {
+      start: '2026-03-01',
+      end: '2026-03-03',
+    })
+    expect(stats.takenDays).toBe(3)
+    expect(stats.timeOfDay).toEqual({ samples: 2, meanMinutes: 0, spreadMinutes: 10 })
+  })
+
+  it('finds gaps, rest days and missed weekdays across a DST change', () => {
+    let tracker = trackerWith('2026-03-05', [
+      ['2026-03-05', '09:00'],
+      ['2026-03-08', '09:00'],
+      ['2026-03-10', '09:00'],
+    ])
+    tracker = setRestDay(tracker, '2026-03-09', 'excused')
+    const stats = computeRangeStats(tracker, '2026-03-11', {
+      start: '2026-03-01',
+      end: '2026-03-31',
+    })
+    // Clamped to 03-05 .. 03-10 (today, 03-11, isn't taken yet).
+    expect(stats.trackedDays).toBe(6)
+    expect(stats.takenDays).toBe(3)
+    expect(stats.restDays).toBe(1)
+    // Misses: Fri 03-06, Sat 03-07, Mon 03-09.
+    expect(stats.missesByWeekday).toEqual([0, 1, 0, 0, 0, 1, 1])
+    expect(stats.gaps).toEqual({ count: 2, lengths: [2, 1], longest: 2 })
+    expect(stats.timeOfDay).toEqual({ samples: 3, meanMinutes: 9 * 60, spreadMinutes: 0 })
+  })
+})
@@ -0,0 +1,199 @@
+import {
+  addDaysLocalNoon,
+  buildHistoryKeysInclusive,
+  compareISODate,
+  getFirstTimedDose,
+  getRestDay,
+  getWallClock,
+  isTaken,
+  makeLocalNoonDateFromISO,
+  toISODateKeyLocal,
+  type ISODate,
+  type Tracker,
+} from './creatine'
+
+export type DateRange = {
+  start: ISODate
+  end: ISODate
+}
+
+export type Adherence = {
+  // Window length in days, or null for "all time since startDate".
+  windowDays: number | null
+  taken: number
+  total: number
+  // 0-100, or null when the window holds no trackable days yet.
+  percent: number | null
+}
+
+// A dose time with the zone it was taken in (null if unknown).
+export type TimedDose = {
+  at: number
+  tz: string | null
+}
+
+export type TimeOfDayStats = {
+  // Number of days with a known taken time.
+  samples: number
+  // Minutes after local midnight (0-1439), or null without samples.
+  meanMinutes: number | null
+  // Standard deviation in minutes, or null without samples.
+  spreadMinutes: number | null
+}
+
+export type GapStats = {
+  count: number
+  // Lengths (in days) of each run of missed days, oldest first.
+  lengths: number[]
+  longest: number
+}
+
+export type RangeStats = {
+  trackedDays: number
+  takenDays: number
+  // Excused/freeze days. They bridge streaks but still count as not taken everywhere here.
+  restDays: number
+  // Index 0 = Sunday, matching Date#getDay.
+  missesByWeekday: number[]
+  timeOfDay: TimeOfDayStats
+  gaps: GapStats
+}
+
+export const ADHERENCE_WINDOWS = [7, 30, 90, 365] as const
+
+const MINUTES_PER_DAY = 24 * 60
+
+// Today only counts once it's taken, so an unchecked morning doesn't drag percentages down.
+export function getLastCompleteDay(tracker: Tracker, today: ISODate): ISODate {
+  if (isTaken(tracker, today)) return today
+  return toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(today), -1))
+}
+
+// Clamps a range to [startDate, last complete day]; null if nothing is left.
+export function clampRange(tracker: Tracker, today: ISODate, range: DateRange): DateRange | null {
+  const lastDay = getLastCompleteDay(tracker, today)
+  const start = compareISODate(range.start, tracker.startDate) < 0 ? tracker.startDate : range.start
+  const end = compareISODate(range.end, lastDay) > 0 ? lastDay : range.end
+  return compareISODate(start, end) > 0 ? null : { start, end }
+}
+
+export function computeAdherence(
+  tracker: Tracker,
+  today: ISODate,
+  windowDays: number | null,
+): Adherence {
+  const lastDay = getLastCompleteDay(tracker, today)
+  const windowStart =
+    windowDays === null
+      ? tracker.startDate
+      : toISODateKeyLocal(addDaysLocalNoon(makeLocalNoonDateFromISO(today), -(windowDays - 1)))
+  const range = clampRange(tracker, today, { start: windowStart, end: lastDay })
+  if (!range) return { windowDays, taken: 0, total: 0, percent: null }
+
+  const keys = buildHistoryKeysInclusive(range.start, range.end)
+  const taken = keys.filter((k) => isTaken(tracker, k)).length
+  return { windowDays, taken, total: keys.length, percent: (taken / keys.length) * 100 }
+}
+
+// Wall-clock time where the dose was taken, else in the home zone (null: the device's), so
+// neither travelling nor a DST change moves it.
+function minutesOfDay(dose: TimedDose, homeZone: string | null) {
+  const { hour, minute } = getWallClock(dose.at, dose.tz ?? homeZone)
+  return hour * 60 + minute
+}
+
+// Circular mean/spread so 23:50 and 00:10 average to midnight rather than noon.
+export function computeTimeOfDayStats(
+  doses: TimedDose[],
+  homeZone: string | null = null,
+): TimeOfDayStats {
+  if (doses.length === 0) return { samples: 0, meanMinutes: null, spreadMinutes: null }
+  const minutes = doses.map((dose) => minutesOfDay(dose, homeZone))
+
+  let sumSin = 0
+  let sumCos = 0
+  for (const m of minutes) {
+    const angle = (m / MINUTES_PER_DAY) * 2 * Math.PI
+    sumSin += Math.sin(angle)
+    sumCos += Math.cos(angle)
+  }
+  const n = minutes.length
+  const meanAngle = Math.atan2(sumSin / n, sumCos / n)
+  const meanMinutes =
+    Math.round(
+      ((meanAngle / (2 * Math.PI)) * MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY,
+    ) % MINUTES_PER_DAY
+
+  let sumSq = 0
+  for (const m of minutes) {
+    let diff = Math.abs(m - meanMinutes)
+    if (diff > MINUTES_PER_DAY / 2) diff = MINUTES_PER_DAY - diff
+    sumSq += diff * diff
+  }
+  return { samples: n, meanMinutes, spreadMinutes: Math.round(Math.sqrt(sumSq / n)) }
+}
+
+// `homeZone` is the day boundary's home zone, for dose times recorded without one.
+export function computeRangeStats(
+  tracker: Tracker,
+  today: ISODate,
+  range: DateRange,
+  homeZone: string | null = null,
+): RangeStats {
+  const missesByWeekday = [0, 0, 0, 0, 0, 0, 0]
+  const clamped = clampRange(tracker, today, range)
+  if (!clamped) {
+    return {
+      trackedDays: 0,
+      takenDays: 0,
+      restDays: 0,
+      missesByWeekday,
+      timeOfDay: computeTimeOfDayStats([]),
+      gaps: { count: 0, lengths: [], longest: 0 },
+    }
+  }
+
+  const keysAsc = buildHistoryKeysInclusive(clamped.start, clamped.end).reverse()
+  const timed: TimedDose[] = []
+  const lengths: number[] = []
+  let takenDays = 0
+  let restDays = 0
+  let run = 0
+
+  for (const k of keysAsc) {
+    if (isTaken(tracker, k)) {
+      takenDays += 1
+      const dose = getFirstTimedDose(tracker, k)
+      if (dose && dose.at !== null) timed.push({ at: dose.at, tz: dose.tz })
+      if (run > 0) lengths.push(run)
+      run = 0
+    } else {
+      if (getRestDay(tracker, k)) restDays += 1
+      missesByWeekday[makeLocalNoonDateFromISO(k).getDay()] += 1
+      run += 1
+    }
+  }
+  if (run > 0) lengths.push(run)
+
+  return {
+    trackedDays: keysAsc.length,
+    takenDays,
+    restDays,
+    missesByWeekday,
+    timeOfDay: computeTimeOfDayStats(timed, homeZone),
+    gaps: { count: lengths.length, lengths, longest: lengths.length ? Math.max(...lengths) : 0 },
+  }
+}
+
+// `YYYY-MM` (or 'all') as used by the History month filter.
+export function monthFilterToRange(
+  monthFilter: string,
+  startDate: ISODate,
+  today: ISODate,
+): DateRange {
+  if (monthFilter === 'all') return { start: startDate, end: today }
+  const [yStr, mStr] = monthFilter.split('-')
+  const first = new Date(Number(yStr), Number(mStr) - 1, 1, 12, 0, 0, 0)
+  const last = new Date(Number(yStr), Number(mStr), 0, 12, 0, 0, 0)
+  return { start: toISODateKeyLocal(first), end: toISODateKeyLocal(last) }
+}
@@ -0,0 +1,208 @@
+import { coerceSave, makeDefaultSave, type SaveData } from './creatine'
+import { mergeSaves } from './merge'
+
+// Where saves live. Implementations store the save as-is; coercion happens in `loadSave`.
+export type StorageAdapter = {
+  name: 'localStorage' | 'indexedDB'
+  // Raw stored value (not yet coerced), or null if nothing is stored.
+  read: () => Promise<unknown>
+  write: (data: SaveData) => Promise<void>
+  clear: () => Promise<void>
+}
+
+// Legacy key; kept for the localStorage adapter and for migrating old installs.
+export const STORAGE_KEY = 'creatine-tracker:v1'
+
+// Shared with public/sw.js; keep the names in sync.
+export const DB_NAME = 'creatine-tracker'
+export const DB_VERSION = 1
+export const SAVE_STORE = 'saves'
+export const META_STORE = 'meta'
+export const SAVE_RECORD_KEY = 'current'
+
+// Serializes read-merge-write cycles across tabs and windows (Web Locks), where supported.
+const SAVE_LOCK = 'creatine-tracker:save'
+// Tells other open instances (tabs, the installed app) that the stored save changed.
+const SAVE_CHANNEL = 'creatine-tracker:save-changed'
+
+export function createLocalStorageAdapter(key: string = STORAGE_KEY): StorageAdapter {
+  return {
+    name: 'localStorage',
+    async read() {
+      const raw = localStorage.getItem(key)
+      return raw ? (JSON.parse(raw) as unknown) : null
+    },
+    async write(data) {
+      localStorage.setItem(key, JSON.stringify(data))
+    },
+    async clear() {
+      localStorage.removeItem(key)
+    },
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(SAVE_STORE)) db.createObjectStore(SAVE_STORE)
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function runRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SAVE_STORE, mode)
+    const req = run(tx.objectStore(SAVE_STORE))
+    tx.oncomplete = () => resolve(req.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function createIndexedDBAdapter(): StorageAdapter {
+  // One connection for the app's lifetime; opened lazily on first use.
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const getDb = () => (dbPromise ??= openDatabase())
+
+  return {
+    name: 'indexedDB',
+    async read() {
+      const value = await runRequest(await getDb(), 'readonly', (s) => s.get(SAVE_RECORD_KEY))
+      return value ?? null
+    },
+    async write(data) {
+      await runRequest(await getDb(), 'readwrite', (s) => s.put(data, SAVE_RECORD_KEY))
+    },
+    async clear() {
+      await runRequest(await getDb(), 'readwrite', (s) => s.delete(SAVE_RECORD_KEY))
+    },
+  }
+}
+
+export async function loadSave(storage: StorageAdapter): Promise<SaveData> {
+  try {
+    const raw = await storage.read()
+    if (!raw) return makeDefaultSave()
+    return coerceSave(raw) ?? makeDefaultSave()
+  } catch {
+    return makeDefaultSave()
+  }
+}
+
+// The stored save, or null if there's none or it can't be read (unlike loadSave, no default).
+export async function readStoredSave(storage: StorageAdapter): Promise<SaveData | null> {
+  try {
+    const raw = await storage.read()
+    return raw ? coerceSave(raw) : null
+  } catch {
+    return null
+  }
+}
+
+// The `updatedAt` of the stored save as this instance last read or wrote it, so it can tell
+// whether another instance has written since.
+export type StoredVersion = { updatedAt: number | null }
+
+async function withSaveLock<T>(run: () => Promise<T>): Promise<T> {
+  return navigator.locks ? await navigator.locks.request(SAVE_LOCK, run) : run()
+}
+
+// Writes `save`, unless another instance (another tab or window, or the service worker) wrote
+// since `seen`: then the two are merged per day, so neither side's check-ins are lost and a newer
+// stored save is never replaced by an older one. The merge gets a fresh `updatedAt` so the other
+// instances pick it up. Returns what was written and moves `seen` to it, or null when `save` is
+// exactly what's stored already (e.g. it was just picked up from another instance).
+export async function writeSave(
+  storage: StorageAdapter,
+  save: SaveData,
+  seen: StoredVersion,
+): Promise<SaveData | null> {
+  return withSaveLock(async () => {
+    const stored = await readStoredSave(storage)
+    if (stored && JSON.stringify(stored) === JSON.stringify(save)) {
+      seen.updatedAt = stored.updatedAt
+      return null
+    }
+    let next = save
+    if (stored && stored.updatedAt !== seen.updatedAt) {
+      const merged = mergeSaves(save, stored)
+      next = { ...merged, updatedAt: Math.max(Date.now(), merged.updatedAt + 1) }
+    }
+    await storage.write(next)
+    seen.updatedAt = next.updatedAt
+    return next
+  })
+}
+
+export type SaveChangeNotifier = {
+  notify: () => void
+  // Calls `listener` when another instance notifies; returns an unsubscribe function.
+  subscribe: (listener: () => void) => () => void
+}
+
+// BroadcastChannel where available, else `storage` events on a marker key. Neither delivers to
+// the instance that notified.
+export function createSaveChangeNotifier(): SaveChangeNotifier {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(SAVE_CHANNEL)
+    return {
+      notify: () => channel.postMessage(null),
+      subscribe(listener) {
+        channel.addEventListener('message', listener)
+        return () => channel.removeEventListener('message', listener)
+      },
+    }
+  }
+  return {
+    notify: () => localStorage.setItem(SAVE_CHANNEL, String(Date.now())),
+    subscribe(listener) {
+      const handle = (e: StorageEvent) => {
+        if (e.key === SAVE_CHANNEL) listener()
+      }
+      window.addEventListener('storage', handle)
+      return () => window.removeEventListener('storage', handle)
+    },
+  }
+}
+
+// Copies a localStorage save into IndexedDB the first time, then drops the old copy.
+// An existing IndexedDB save always wins, so this is safe to run on every start.
+async function migrateFromLocalStorage(target: StorageAdapter) {
+  const legacy = createLocalStorageAdapter()
+  let raw: unknown
+  try {
+    raw = await legacy.read()
+  } catch {
+    return
+  }
+  if (!raw) return
+
+  // Leave unreadable data where it is rather than losing it.
+  const coerced = coerceSave(raw)
+  if (!coerced) return
+  if (!(await target.read())) await target.write(coerced)
+  await legacy.clear()
+}
+
+// The app's single entry point to persistence: IndexedDB when available (so the service
+// worker can share the data), localStorage otherwise.
+export async function openStorage(): Promise<StorageAdapter> {
+  if (typeof indexedDB === 'undefined') return createLocalStorageAdapter()
+  const idb = createIndexedDBAdapter()
+  try {
+    await migrateFromLocalStorage(idb)
+    return idb
+  } catch {
+    // e.g. IndexedDB blocked in a private window.
+    return createLocalStorageAdapter()
+  }
+}
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { makeDefaultSave, markTaken, updateTracker, type SaveData } from './creatine'
+import {
+  createHttpSyncTransport,
+  InvalidRemoteSaveError,
+  SyncConflictError,
+  SyncServerError,
+  syncSave,
+} from './sync'
+
+const SYNC_URL = 'https://sync.example/save'
+
+// In-memory stand-in for scripts/sync-server.js: GET returns the document with an ETag, PUT
+// honors If-Match / If-None-Match: * and answers 412 on a mismatch. `beforePut` runs between
+// reading the request and checking its precondition, like another device's write landing there.
+function fakeServer(beforePut?: () => void) {
+  let body: string | null = null
+  let version = 0
+  const requests: { method: string; headers: Record<string, string> }[] = []
+  const fetchImpl = vi.fn(async (_url: RequestInfo | URL, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET'
+    const headers = (init.headers ?? {}) as Record<string, string>
+    requests.push({ method, headers })
+    if (method === 'GET') {
+      if (body === null) return new Response(null, { status: 404 })
+      return new Response(body, { status: 200, headers: { ETag: `"${version}"` } })
+    }
+    beforePut?.()
+    const ifMatch = headers['If-Match']
+    if (ifMatch && (body === null || ifMatch !== `"${version}"`)) {
+      return new Response(null, { status: 412 })
+    }
+    if (headers['If-None-Match'] === '*' && body !== null) {
+      return new Response(null, { status: 412 })
+    }
+    body = init.body as string
+    version++
+    return new Response(null, { status: 204, headers: { ETag: `"${version}"` } })
+  })
+  return {
+    fetchImpl,
+    requests,
+    stored: () => (body === null ? null : (JSON.parse(body) as SaveData)),
+    write: (save: SaveData) => {
+      body = JSON.stringify(save)
+      version++
+    },
+  }
+}
+
+// Each step one minute after the previous one.
+function at(minute: number) {
+  vi.setSystemTime(Date.UTC(2026, 2, 10, 12, minute))
+}
+
+function take(save: SaveData, key: '2026-03-08' | '2026-03-09' | '2026-03-10') {
+  return updateTracker(save, 'creatine', (t) => markTaken(t, key, null))
+}
+
+function takenDays(save: SaveData | null) {
+  return Object.keys(save?.trackers[0].taken ?? {}).sort()
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('syncSave', () => {
+  it('creates the remote save only if there is none, then merges into it', async () => {
+    vi.useFakeTimers()
+    at(0)
+    const server = fakeServer()
+    const transport = createHttpSyncTransport({ url: SYNC_URL }, server.fetchImpl)
+    const phone = await syncSave(take(makeDefaultSave('2026-03-01'), '2026-03-08'), transport)
+    expect(server.requests[1]).toMatchObject({
+      method: 'PUT',
+      headers: { 'If-None-Match': '*' },
+    })
+
+    at(1)
+    const laptop = await syncSave(take(makeDefaultSave('2026-03-01'), '2026-03-09'), transport)
+    expect(server.requests[3].headers['If-Match']).toBe('"1"')
+    expect(takenDays(laptop)).toEqual(['2026-03-08', '2026-03-09'])
+    expect(takenDays(server.stored())).toEqual(['2026-03-08', '2026-03-09'])
+    expect(takenDays(phone)).toEqual(['2026-03-08'])
+  })
+
+  it('pulls and merges again when another device pushed in between', async () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    let raced = false
+    const server = fakeServer(() => {
+      if (raced) return
+      raced = true
+      server.write(take(server.stored() ?? base, '2026-03-10'))
+    })
+    server.write(base)
+    at(1)
+
+    const merged = await syncSave(
+      take(base, '2026-03-09'),
+      createHttpSyncTransport({ url: SYNC_URL }, server.fetchImpl),
+    )
+    expect(server.requests.map((r) => r.method)).toEqual(['GET', 'PUT', 'GET', 'PUT'])
+    expect(takenDays(merged)).toEqual(['2026-03-09', '2026-03-10'])
+    expect(takenDays(server.stored())).toEqual(['2026-03-09', '2026-03-10'])
+  })
+
+  it('gives up after three conflicting attempts', async () => {
+    const base = makeDefaultSave('2026-03-01')
+    const server = fakeServer(() => server.write(base))
+    server.write(base)
+
+    await expect(
+      syncSave(base, createHttpSyncTransport({ url: SYNC_URL }, server.fetchImpl)),
+    ).rejects.toBeInstanceOf(SyncConflictError)
+    expect(server.requests.filter((r) => r.method === 'PUT')).toHaveLength(3)
+  })
+})
+
+describe('createHttpSyncTransport', () => {
+  it('sends the token and reports server errors with their status', async () => {
+    const fetchImpl = vi.fn(async () => new Response(null, { status: 503 }))
+    const transport = createHttpSyncTransport({ url: SYNC_URL, token: 'secret' }, fetchImpl)
+
+    const err = await transport.pull().catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(SyncServerError)
+    expect((err as SyncServerError).status).toBe(503)
+    expect(fetchImpl).toHaveBeenCalledWith(SYNC_URL, {
+      headers: { Authorization: 'Bearer secret' },
+      cache: 'no-store',
+    })
+  })
+
+  it('rejects a remote document that is not a save', async () => {
+    const fetchImpl = vi.fn(async () => new Response('{"hello":"world"}', { status: 200 }))
+    const transport = createHttpSyncTransport({ url: SYNC_URL }, fetchImpl)
+    await expect(transport.pull()).rejects.toBeInstanceOf(InvalidRemoteSaveError)
+  })
+})
@@ -0,0 +1,122 @@
+import { coerceSave, type SaveData } from './creatine'
+import { mergeSaves } from './merge'
+
+// A remote copy of the save. `version` is an opaque token (e.g. an HTTP ETag) used to detect
+// that someone else pushed in between our pull and push.
+export type RemoteSave = {
+  save: SaveData | null
+  version: string | null
+}
+
+export type SyncTransport = {
+  pull: () => Promise<RemoteSave>
+  // Rejects with SyncConflictError if the remote changed since `baseVersion`.
+  push: (save: SaveData, baseVersion: string | null) => Promise<void>
+}
+
+export class SyncConflictError extends Error {
+  constructor() {
+    super('The remote save changed during sync.')
+    this.name = 'SyncConflictError'
+  }
+}
+
+// The server answered with an unexpected HTTP status.
+export class SyncServerError extends Error {
+  readonly status: number
+
+  constructor(status: number) {
+    super(`Sync server responded ${status}.`)
+    this.name = 'SyncServerError'
+    this.status = status
+  }
+}
+
+// The server's copy isn't a save we can read.
+export class InvalidRemoteSaveError extends Error {
+  constructor() {
+    super('Sync server returned an invalid save.')
+    this.name = 'InvalidRemoteSaveError'
+  }
+}
+
+export type HttpSyncConfig = {
+  // Full URL of the save document, e.g. https://example.com/creatine/save
+  url: string
+  // Optional bearer token.
+  token?: string
+}
+
+// Talks to a plain GET/PUT JSON endpoint (see scripts/sync-server.js for a self-hostable one).
+// GET returns the save (404 if there's none yet); PUT replaces it, honoring If-Match.
+export function createHttpSyncTransport(
+  config: HttpSyncConfig,
+  fetchImpl: typeof fetch = fetch,
+): SyncTransport {
+  const authHeaders: Record<string, string> = config.token
+    ? { Authorization: `Bearer ${config.token}` }
+    : {}
+
+  return {
+    async pull() {
+      const res = await fetchImpl(config.url, { headers: authHeaders, cache: 'no-store' })
+      if (res.status === 404) return { save: null, version: null }
+      if (!res.ok) throw new SyncServerError(res.status)
+      const save = coerceSave(await res.json())
+      if (!save) throw new InvalidRemoteSaveError()
+      return { save, version: res.headers.get('ETag') }
+    },
+    async push(save, baseVersion) {
+      const res = await fetchImpl(config.url, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+          // Without a base version, only create; a first push must not clobber another.
+          ...(baseVersion ? { 'If-Match': baseVersion } : { 'If-None-Match': '*' }),
+        },
+        body: JSON.stringify(save),
+      })
+      if (res.status === 412) throw new SyncConflictError()
+      if (!res.ok) throw new SyncServerError(res.status)
+    },
+  }
+}
+
+// Pull, merge and push until the push goes through (or attempts run out).
+export async function syncSave(
+  local: SaveData,
+  transport: SyncTransport,
+  maxAttempts = 3,
+): Promise<SaveData> {
+  for (let attempt = 1; ; attempt++) {
+    const remote = await transport.pull()
+    const merged = remote.save ? mergeSaves(local, remote.save) : local
+    try {
+      await transport.push(merged, remote.version)
+      return merged
+    } catch (err) {
+      if (!(err instanceof SyncConflictError) || attempt >= maxAttempts) throw err
+    }
+  }
+}
+
+const SYNC_CONFIG_KEY = 'creatine-tracker:sync'
+
+// Per-device (never exported or synced itself, as it may hold a token).
+export function loadSyncConfig(): HttpSyncConfig | null {
+  try {
+    const raw = localStorage.getItem(SYNC_CONFIG_KEY)
+    if (!raw) return null
+    const obj = JSON.parse(raw) as Record<string, unknown>
+    if (typeof obj.url !== 'string' || !obj.url) return null
+    return { url: obj.url, token: typeof obj.token === 'string' ? obj.token : undefined }
+  } catch {
+    return null
+  }
+}
+
+export function saveSyncConfig(config: HttpSyncConfig | null) {
+  if (config) localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config))
+  else localStorage.removeItem(SYNC_CONFIG_KEY)
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  addTracker,
+  makeDefaultSave,
+  markTaken,
+  removeTracker,
+  updateTracker,
+  type SaveData,
+} from './creatine'
+import { mergeSaves } from './merge'
+import { commitEdit, createUndoState, rebaseOnto, redo, undo } from './undo'
+
+// Each step one minute after the previous one.
+function at(minute: number) {
+  vi.setSystemTime(Date.UTC(2026, 2, 10, 12, minute))
+}
+
+function take(save: SaveData, key: '2026-03-09' | '2026-03-10') {
+  return updateTracker(save, 'creatine', (t) => markTaken(t, key, null))
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('rebaseOnto', () => {
+  it('keeps a check-in picked up from elsewhere through undo and redo', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    at(1)
+    let state = commitEdit(createUndoState(base), take(base, '2026-03-09'), 'Marked 03-09')
+    at(2)
+    // The service worker's "Mark as taken", written on top of the stored copy of this save.
+    const stored = take(state.present, '2026-03-10')
+    state = rebaseOnto(state, stored)
+
+    at(3)
+    state = undo(state)
+    const creatine = state.present.trackers[0]
+    expect(Object.keys(creatine.taken)).toEqual(['2026-03-10'])
+    // The check-in isn't restamped, and storage (or another device) merging keeps it.
+    expect(creatine.dayEditedAt['2026-03-10']).toBe(Date.UTC(2026, 2, 10, 12, 2))
+    expect(Object.keys(mergeSaves(state.present, stored).trackers[0].taken)).toEqual([
+      '2026-03-10',
+    ])
+
+    at(4)
+    state = redo(state)
+    expect(Object.keys(state.present.trackers[0].taken).sort()).toEqual([
+      '2026-03-09',
+      '2026-03-10',
+    ])
+  })
+
+  it('still undoes a local edit that the picked-up save already contains', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = makeDefaultSave('2026-03-01')
+    at(1)
+    let state = commitEdit(createUndoState(base), take(base, '2026-03-09'), 'Marked 03-09')
+    at(2)
+    state = rebaseOnto(state, take(state.present, '2026-03-10'))
+
+    state = undo(state)
+    expect(state.present.trackers[0].taken['2026-03-09']).toBeUndefined()
+  })
+
+  it('keeps trackers removed elsewhere removed, and local additions undoable', () => {
+    vi.useFakeTimers()
+    at(0)
+    const base = addTracker(makeDefaultSave('2026-03-01'), 'Vitamin D', '2026-03-01')
+    const vitaminD = base.trackers[1].id
+    at(1)
+    let state = commitEdit(
+      createUndoState(base),
+      addTracker(base, 'Magnesium', '2026-03-01'),
+      'Added Magnesium',
+    )
+    at(2)
+    state = rebaseOnto(state, removeTracker(state.present, vitaminD))
+
+    state = undo(state)
+    expect(state.present.trackers.map((t) => t.name)).toEqual(['Creatine'])
+  })
+})
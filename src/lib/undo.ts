@@ -0,0 +1,195 @@
+import type { ISODate, SaveData, Tracker } from './creatine'
+import { mergeSaves } from './merge'
+
+export type UndoEntry = {
+  // The save as it was before the edit.
+  save: SaveData
+  // Short description of the edit ("Cleared data"), shown when undoing/redoing it.
+  label: string
+}
+
+// Snapshot stack over whole saves. Saves are immutable, so snapshots are cheap (shared structure).
+export type UndoState = {
+  past: UndoEntry[]
+  present: SaveData
+  future: UndoEntry[]
+}
+
+export const MAX_UNDO_STEPS = 50
+
+export function createUndoState(save: SaveData): UndoState {
+  return { past: [], present: save, future: [] }
+}
+
+// Records an edit. No-op edits (same object back) don't create an undo step.
+export function commitEdit(state: UndoState, next: SaveData, label: string): UndoState {
+  if (next === state.present) return state
+  const past = [...state.past, { save: state.present, label }].slice(-MAX_UNDO_STEPS)
+  return { past, present: next, future: [] }
+}
+
+// Swaps the current save without touching the stacks (e.g. preferences that aren't worth an undo
+// step). Saves written elsewhere go through rebaseOnto instead.
+export function replacePresent(state: UndoState, next: SaveData): UndoState {
+  return next === state.present ? state : { ...state, present: next }
+}
+
+function pickDays<T>(record: Record<ISODate, T>, keep: (key: ISODate) => boolean) {
+  const out: Record<ISODate, T> = {}
+  for (const [k, v] of Object.entries(record) as [ISODate, T][]) if (keep(k)) out[k] = v
+  return out
+}
+
+// What `next` (a save written elsewhere) changed on top of `prev`: days, targets, supplies and
+// bodyweight entries it edited later than `prev` did, a start date it set later, trackers `prev`
+// didn't have, and its tombstones. Trackers `prev` has that weren't touched are left out, so they
+// can't reappear in snapshots from before they were added.
+function editsSince(prev: SaveData, next: SaveData): SaveData {
+  const trackers: Tracker[] = []
+  for (const t of next.trackers) {
+    const before = prev.trackers.find((p) => p.id === t.id)
+    if (!before) {
+      trackers.push(t)
+      continue
+    }
+    const newer = (k: ISODate) => (t.dayEditedAt[k] ?? 0) > (before.dayEditedAt[k] ?? 0)
+    const newerTarget = (k: ISODate) =>
+      (t.targetEditedAt[k] ?? 0) > (before.targetEditedAt[k] ?? 0)
+    const newerSupply = (id: string) =>
+      (t.supplyEditedAt[id] ?? 0) > (before.supplyEditedAt[id] ?? 0)
+    const startMoved = t.startDateEditedAt > before.startDateEditedAt
+    const edits: Tracker = {
+      ...t,
+      taken: pickDays(t.taken, newer),
+      restDays: pickDays(t.restDays, newer),
+      dayEditedAt: pickDays(t.dayEditedAt, newer),
+      targets: t.targets.filter((c) => newerTarget(c.from)),
+      targetEditedAt: pickDays(t.targetEditedAt, newerTarget),
+      supplies: t.supplies.filter((s) => newerSupply(s.id)),
+      supplyEditedAt: Object.fromEntries(
+        Object.entries(t.supplyEditedAt).filter(([id]) => newerSupply(id)),
+      ),
+      // A stamp below any real one: the snapshot keeps its own start date.
+      startDateEditedAt: startMoved ? t.startDateEditedAt : -1,
+    }
+    const touched =
+      startMoved ||
+      Object.keys(edits.dayEditedAt).length > 0 ||
+      Object.keys(edits.targetEditedAt).length > 0 ||
+      Object.keys(edits.supplyEditedAt).length > 0
+    if (touched) trackers.push(edits)
+  }
+  const newerWeight = (k: ISODate) =>
+    (next.bodyweightEditedAt[k] ?? 0) > (prev.bodyweightEditedAt[k] ?? 0)
+  return {
+    ...next,
+    trackers,
+    bodyweight: pickDays(next.bodyweight, newerWeight),
+    bodyweightEditedAt: pickDays(next.bodyweightEditedAt, newerWeight),
+  }
+}
+
+// Takes in a save written elsewhere (another tab, the service worker). Its edits are merged into
+// every snapshot too, so undoing a local edit afterwards doesn't restore (and restamp) a state
+// from before them, deleting them everywhere.
+export function rebaseOnto(state: UndoState, next: SaveData): UndoState {
+  if (next === state.present) return state
+  const edits = editsSince(state.present, next)
+  const rebase = (entry: UndoEntry) => ({ ...entry, save: mergeSaves(entry.save, edits) })
+  return { past: state.past.map(rebase), present: next, future: state.future.map(rebase) }
+}
+
+export function canUndo(state: UndoState) {
+  return state.past.length > 0
+}
+
+export function canRedo(state: UndoState) {
+  return state.future.length > 0
+}
+
+// Fresh timestamps for the keys whose entries differ between two versions.
+function stampChanged<K extends string>(
+  editedAt: Record<K, number>,
+  keys: K[],
+  same: (key: K) => boolean,
+  now: number,
+): Record<K, number> {
+  let out = editedAt
+  for (const k of new Set(keys)) if (!same(k)) out = { ...out, [k]: now }
+  return out
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Going back to a snapshot is itself an edit: days (and targets, supplies, bodyweight entries, the
+// start date) that change get a fresh edit timestamp, so a later merge with another device doesn't
+// bring the undone state back.
+function restamp(current: SaveData, restored: SaveData): SaveData {
+  const now = Date.now()
+  const trackers = restored.trackers.map((t) => {
+    const cur = current.trackers.find((c) => c.id === t.id)
+    if (!cur) return t
+    const dayEditedAt = stampChanged(
+      t.dayEditedAt,
+      [
+        ...Object.keys(t.taken),
+        ...Object.keys(cur.taken),
+        ...Object.keys(t.restDays),
+        ...Object.keys(cur.restDays),
+      ] as ISODate[],
+      (k) => sameJson(t.taken[k], cur.taken[k]) && t.restDays[k] === cur.restDays[k],
+      now,
+    )
+    const targetOn = (tr: Tracker, from: ISODate) => tr.targets.find((c) => c.from === from)
+    const targetEditedAt = stampChanged(
+      t.targetEditedAt,
+      [...t.targets, ...cur.targets].map((c) => c.from),
+      (k) => sameJson(targetOn(t, k), targetOn(cur, k)),
+      now,
+    )
+    const supply = (tr: Tracker, id: string) => tr.supplies.find((s) => s.id === id)
+    const supplyEditedAt = stampChanged(
+      t.supplyEditedAt,
+      [...t.supplies, ...cur.supplies].map((s) => s.id),
+      (k) => sameJson(supply(t, k), supply(cur, k)),
+      now,
+    )
+    const startDateEditedAt = t.startDate === cur.startDate ? t.startDateEditedAt : now
+    return { ...t, dayEditedAt, targetEditedAt, supplyEditedAt, startDateEditedAt }
+  })
+  const bodyweightEditedAt = stampChanged(
+    restored.bodyweightEditedAt,
+    [...Object.keys(restored.bodyweight), ...Object.keys(current.bodyweight)] as ISODate[],
+    (k) => restored.bodyweight[k] === current.bodyweight[k],
+    now,
+  )
+  return { ...restored, trackers, bodyweightEditedAt, updatedAt: now }
+}
+
+export function undo(state: UndoState): UndoState {
+  const entry = state.past[state.past.length - 1]
+  if (!entry) return state
+  return {
+    past: state.past.slice(0, -1),
+    present: restamp(state.present, entry.save),
+    future: [{ save: state.present, label: entry.label }, ...state.future],
+  }
+}
+
+export function redo(state: UndoState): UndoState {
+  const [entry, ...future] = state.future
+  if (!entry) return state
+  return {
+    past: [...state.past, { save: state.present, label: entry.label }],
+    present: restamp(state.present, entry.save),
+    future,
+  }
+}
+
+export function peekUndoLabel(state: UndoState): string | null {
+  return state.past[state.past.length - 1]?.label ?? null
+}
+
+export function peekRedoLabel(state: UndoState): string | null {
+  return state.future[0]?.label ?? null
+}
@@ -0,0 +1,80 @@
+import { isISODateKey, type ISODate } from './creatine'
+
+// What a launch URL asks the app to do (`?action=…`): the manifest's shortcuts, its file handler
+// and the share target (via public/sw.js) all open the app this way. Shared with
+// public/manifest.webmanifest and public/sw.js; keep the names in sync.
+export type UrlAction =
+  // Mark a day (default today) taken on a tracker (default the active one).
+  | { type: 'take'; date: ISODate | null; trackerId: string | null }
+  | { type: 'stats' }
+  // Opened with a backup file; the file itself arrives through the launch queue.
+  | { type: 'open-file' }
+  // A backup was shared to the app; the service worker parked it in SHARED_FILE_CACHE.
+  | { type: 'import-shared' }
+
+const ACTION_PARAM = 'action'
+const URL_ACTION_PARAMS = [ACTION_PARAM, 'date', 'tracker']
+
+const SHARED_FILE_CACHE = 'creatine-tracker-shared'
+// Key of the parked file within SHARED_FILE_CACHE.
+const SHARED_FILE_PATH = 'shared-file'
+
+export function parseUrlAction(search: string): UrlAction | null {
+  const params = new URLSearchParams(search)
+  switch (params.get(ACTION_PARAM)) {
+    case 'take': {
+      const date = params.get('date')
+      return {
+        type: 'take',
+        date: isISODateKey(date) ? date : null,
+        trackerId: params.get('tracker') || null,
+      }
+    }
+    case 'stats':
+      return { type: 'stats' }
+    case 'open-file':
+      return { type: 'open-file' }
+    case 'import-shared':
+      return { type: 'import-shared' }
+    default:
+      return null
+  }
+}
+
+// Reads the current URL's action and strips its parameters from the address bar, so a reload (or
+// a second effect run) doesn't repeat it.
+export function consumeUrlAction(): UrlAction | null {
+  const url = new URL(window.location.href)
+  const action = parseUrlAction(url.search)
+  if (URL_ACTION_PARAMS.some((p) => url.searchParams.has(p))) {
+    for (const p of URL_ACTION_PARAMS) url.searchParams.delete(p)
+    window.history.replaceState(window.history.state, '', url)
+  }
+  return action
+}
+
+// Takes the file the service worker parked for an 'import-shared' launch, or null if there's none
+// (e.g. it was already imported).
+export async function takeSharedFile(): Promise<File | null> {
+  if (!('caches' in window)) return null
+  const cache = await caches.open(SHARED_FILE_CACHE)
+  const url = `${import.meta.env.BASE_URL}${SHARED_FILE_PATH}`
+  const res = await cache.match(url)
+  if (!res) return null
+  await cache.delete(url)
+  const name = decodeURIComponent(res.headers.get('X-File-Name') ?? '') || 'shared.json'
+  return new File([await res.blob()], name, { type: res.headers.get('Content-Type') ?? '' })
+}
+
+type LaunchParams = { files?: readonly { getFile: () => Promise<File> }[] }
+type LaunchQueue = { setConsumer: (consumer: (params: LaunchParams) => void) => void }
+
+// Hands over the file the app was opened with through the manifest's `file_handlers` (Chromium's
+// launch queue). Does nothing where file handling isn't supported.
+export function onLaunchFile(consumer: (file: File) => void) {
+  const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue
+  launchQueue?.setConsumer((params) => {
+    const handle = params.files?.[0]
+    if (handle) void handle.getFile().then(consumer)
+  })
+}
@@ -0,0 +1,91 @@
+import {
+  compareISODate,
+  type ISODate,
+  type SaveData,
+  type WeightUnit,
+} from './creatine'
+
+// Exact, by definition of the international pound.
+export const KG_PER_LB = 0.45359237
+
+// Usual creatine guidelines per kg of bodyweight per day.
+export const MAINTENANCE_GRAMS_PER_KG = 0.03
+export const LOADING_GRAMS_PER_KG = 0.3
+
+export type WeightEntry = {
+  date: ISODate
+  kg: number
+}
+
+export type WeightChange = {
+  from: WeightEntry
+  to: WeightEntry
+  // `to.kg - from.kg`; positive means a gain.
+  kg: number
+}
+
+export type DoseRecommendation = {
+  // Based on this entry (the latest one).
+  basis: WeightEntry
+  maintenanceGrams: number
+  loadingGrams: number
+}
+
+export function toKg(value: number, unit: WeightUnit): number {
+  return unit === 'lb' ? value * KG_PER_LB : value
+}
+
+export function fromKg(kg: number, unit: WeightUnit): number {
+  return unit === 'lb' ? kg / KG_PER_LB : kg
+}
+
+// One decimal in the user's unit, e.g. "72.4 kg" or "159.6 lb". `signed` adds a "+" to gains.
+export function formatWeight(
+  kg: number,
+  unit: WeightUnit,
+  locale: string | undefined,
+  signed = false,
+): string {
+  const value = new Intl.NumberFormat(locale, {
+    maximumFractionDigits: 1,
+    signDisplay: signed ? 'exceptZero' : 'auto',
+  }).format(fromKg(kg, unit))
+  return `${value} ${unit}`
+}
+
+// Entries up to `today`, oldest first.
+export function getWeightEntries(save: SaveData, today: ISODate): WeightEntry[] {
+  return (Object.keys(save.bodyweight) as ISODate[])
+    .filter((date) => compareISODate(date, today) <= 0)
+    .sort(compareISODate)
+    .map((date) => ({ date, kg: save.bodyweight[date] }))
+}
+
+export function getLatestWeight(save: SaveData, today: ISODate): WeightEntry | null {
+  return getWeightEntries(save, today).at(-1) ?? null
+}
+
+// Change from the weight at `since` (the last entry on or before it, else the first one after it)
+// to the latest entry, or null without two different entries to compare.
+export function computeWeightChange(
+  save: SaveData,
+  since: ISODate,
+  today: ISODate,
+): WeightChange | null {
+  const entries = getWeightEntries(save, today)
+  const before = entries.filter((e) => compareISODate(e.date, since) <= 0).at(-1)
+  const from = before ?? entries.find((e) => compareISODate(e.date, since) > 0)
+  const to = entries.at(-1)
+  if (!from || !to || from.date === to.date) return null
+  return { from, to, kg: to.kg - from.kg }
+}
+
+export function recommendDose(save: SaveData, today: ISODate): DoseRecommendation | null {
+  const basis = getLatestWeight(save, today)
+  if (!basis) return null
+  return {
+    basis,
+    maintenanceGrams: basis.kg * MAINTENANCE_GRAMS_PER_KG,
+    loadingGrams: basis.kg * LOADING_GRAMS_PER_KG,
+  }
+}
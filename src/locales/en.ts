@@ -0,0 +1,439 @@
+// English is the source catalog: its keys define `MessageKey`, and the other catalogs have to
+// provide every one of them. Messages use the ICU subset described in src/lib/i18n.ts.
+export const en = {
+  'app.title': 'Did You Take Your Creatine Today?',
+  'app.subtitle': '{date} · Local-only storage · Export/Import supported',
+  'app.footer.local': 'Data stays on your device.',
+  'app.footer.tip': 'Pro tip: "Add to Home Screen" for an app-like experience.',
+  'app.footer.disclaimer':
+    'This app is a personal tracking tool only and does not provide medical advice. Consult a healthcare professional before starting any supplement.',
+  'app.language': 'Language',
+  'app.language.auto': 'Automatic ({name})',
+
+  'common.remove': 'Remove',
+  'common.save': 'Save',
+  'common.apply': 'Apply',
+  'common.undo': 'Undo',
+  'common.redo': 'Redo',
+  'common.done': 'Done',
+  'common.none': '—',
+  'common.range': '{start} - {end}',
+  'common.days': '{count, plural, one {# day} other {# days}}',
+  'common.invalidDate': 'Please pick a valid date.',
+  'common.markTaken': 'Mark {date} as taken',
+  'common.markNotTaken': 'Mark {date} as not taken',
+  'common.cancel': 'Cancel',
+
+  'status.met': 'Yes',
+  'status.partial': 'Partial',
+  'status.missed': 'No',
+  'toggle.met': 'Taken',
+  'toggle.partial': 'Partial',
+  'toggle.missed': 'Not taken',
+
+  'today.section': 'Today',
+  'today.meta': 'Today · {tracker}',
+  'today.takenAt': 'Taken at {time}',
+  'today.total': 'Total {total}',
+  'today.totalOfTarget': 'Total {total} of {target}',
+  'today.check': 'Check today',
+  'today.uncheck': 'Uncheck today',
+  'today.hint': 'Tip: you can also edit any day below to correct missed entries.',
+  'today.supplyUsedUp': '{tracker} supply is used up.',
+  'today.supplyLow': 'Only about {days, plural, one {# day} other {# days}} of {tracker} left',
+  'today.supplyRunsOut': ' (runs out around {date}).',
+
+  'toggles.target': 'Daily target: {grams}',
+  'toggles.setTarget': 'Set daily target',
+  'toggles.reminders': 'Reminders',
+  'toggles.remindersCount': 'Reminders: {count}',
+  'toggles.supply': 'Supply',
+  'toggles.supplyServings': 'Supply: {count, plural, one {# serving} other {# servings}}',
+  'toggles.dayBoundary': 'Day boundary',
+  'toggles.settings': 'Settings',
+  'toggles.achievements': 'Achievements: {unlocked}/{total}',
+  'toggles.protocol': 'Protocol',
+  'toggles.setProtocol': 'Plan a protocol',
+
+  'streaks.section': 'Streaks',
+  'streaks.current': 'Current streak',
+  'streaks.best': 'Best streak',
+  'streaks.rest': ' · +{count} rest',
+
+  'actions.share': 'Share',
+  'actions.export': 'Export',
+  'actions.exportCsv': 'Export CSV',
+  'actions.exportCalendar': 'Export calendar',
+  'actions.exportEncrypted': 'Encrypted export',
+  'actions.import': 'Import',
+  'actions.sync': 'Sync',
+  'actions.clear': 'Clear',
+  'actions.undoTitle': 'Undo (Ctrl+Z)',
+  'actions.redoTitle': 'Redo (Ctrl+Shift+Z)',
+
+  'update.available': 'New version available',
+  'update.reload': 'Reload',
+
+  'launch.markedTaken': 'Marked {date} as taken for {tracker}',
+  'launch.alreadyTaken': '{tracker} is already marked for {date}',
+  'launch.futureDate': "Can't mark {date} yet",
+  'launch.noSharedFile': 'The shared file was already imported or is no longer available.',
+
+  'toast.undone': 'Undone: {label}',
+  'toast.redone': 'Redone: {label}',
+  'toast.exportedJson': 'Exported JSON',
+  'toast.exportedCsv': 'Exported CSV',
+  'toast.exportedCalendar': 'Exported calendar',
+  'toast.exportedEncrypted': 'Exported encrypted backup',
+  'toast.savedShareImage': 'Saved share image',
+  'toast.shareFailed': 'Could not create the share image',
+  'toast.savedSyncEndpoint': 'Saved sync endpoint',
+  'toast.syncOff': 'Sync turned off',
+  'toast.achievementUnlocked': 'Achievement unlocked: {title}',
+  'toast.achievementsUnlocked':
+    '{count, plural, one {# achievement unlocked} other {# achievements unlocked}}',
+
+  'edit.markedTaken': 'Marked {date} as taken',
+  'edit.markedNotTaken': 'Marked {date} as not taken',
+  'edit.excused': 'Excused {date}',
+  'edit.usedFreeze': 'Used a streak freeze on {date}',
+  'edit.clearedRest': 'Cleared rest day on {date}',
+  'edit.doses': 'Updated doses for {date}',
+  'edit.merged': 'Merged imported data',
+  'edit.importedTrackers': 'Imported {count} trackers',
+  'edit.imported': 'Imported save data',
+  'edit.synced': 'Synced',
+  'edit.cleared': 'Cleared data',
+  'edit.startDate': 'Updated first tracked day',
+  'edit.addedTracker': 'Added {name}',
+  'edit.renamedTracker': 'Renamed to {name}',
+  'edit.deletedTracker': 'Deleted {name}',
+  'edit.reminders': 'Updated reminders',
+  'edit.addedSupply': 'Added {grams} supply',
+  'edit.removedSupply': 'Removed supply',
+  'edit.lowSupply': 'Updated low-supply warning',
+  'edit.dayBoundary': 'Updated day boundary',
+  'edit.target': 'Updated daily target',
+  'edit.removedTarget': 'Removed target change',
+  'edit.partialDays': 'Updated partial-day rule',
+  'edit.protocol': 'Updated protocol',
+  'edit.removedProtocol': 'Removed protocol',
+  'edit.weight': 'Logged {weight} on {date}',
+  'edit.removedWeight': 'Removed weight on {date}',
+  'edit.settings': 'Updated settings',
+
+  'import.error': 'Import error: {message}',
+  'import.line': 'Line {line}: {message}',
+  'import.more': '…and {count} more',
+  'import.unreadable': 'Could not read that file.',
+  'import.noCsvRows': 'No usable rows in that CSV file.',
+  'import.skippedRows': 'skipped {skipped} of {total} rows.',
+  'import.notJson': 'Could not read that file as JSON.',
+  'import.invalid': 'Invalid save file.',
+  'csv.error.unterminatedQuote': 'Unterminated quoted field.',
+  'csv.error.emptyFile': 'Empty file.',
+  'csv.error.noDateColumn': 'No date column found.',
+  'csv.error.badDate': 'Unrecognized date "{value}" (expected YYYY-MM-DD).',
+  'csv.error.badTime': 'Unrecognized time "{value}" (expected HH:MM).',
+  'csv.error.badTimeZone': 'Unrecognized time zone "{value}".',
+  'csv.error.badAmount': 'Unrecognized amount "{value}".',
+  'csv.error.badTrackerValue': 'Unrecognized value "{value}" for {tracker}.',
+  'csv.error.badTaken': 'Unrecognized taken value "{value}".',
+
+  'backup.exportPanel': 'Encrypted export',
+  'backup.importPanel': 'Encrypted backup',
+  'backup.passphrase': 'Passphrase',
+  'backup.confirm': 'Repeat passphrase',
+  'backup.exportNote':
+    'The file can only be opened with this passphrase. There is no way to recover it if you forget it.',
+  'backup.importNote': '{file} is encrypted. Enter its passphrase to import it.',
+  'backup.encrypt': 'Encrypt and export',
+  'backup.unlock': 'Unlock and import',
+  'backup.working': 'Working…',
+  'backup.tooShort': 'Use at least {count, plural, one {# character} other {# characters}}.',
+  'backup.mismatch': "The passphrases don't match.",
+  'backup.wrongPassphrase': 'Wrong passphrase. Try again.',
+  'backup.corrupted': "The backup file is damaged and can't be decrypted.",
+  'backup.unsupported': 'This backup was made by a newer version of the app.',
+  'backup.failed': 'Could not encrypt the export.',
+
+  'importPreview.panel': 'Import preview',
+  'importPreview.file':
+    '{file}: {trackers, plural, one {# tracker} other {# trackers}}, {days, plural, one {# taken day} other {# taken days}}',
+  'importPreview.range': 'From {start} to {end}',
+  'importPreview.since': 'Since {start}, nothing taken yet',
+  'importPreview.replace': 'If you replace',
+  'importPreview.merge': 'If you merge',
+  'importPreview.added': '{count, plural, one {# day added} other {# days added}}',
+  'importPreview.removed': '{count, plural, one {# day removed} other {# days removed}}',
+  'importPreview.changed': '{count, plural, one {# day changed} other {# days changed}}',
+  'importPreview.noChanges': 'Nothing changes.',
+  'importPreview.trackerAdded': 'new tracker',
+  'importPreview.trackerRemoved': 'tracker deleted',
+  'importPreview.startDate': 'first tracked day {before} → {after}',
+  'importPreview.columns': 'Columns',
+  'importPreview.column.date': 'Date',
+  'importPreview.column.taken': 'Taken',
+  'importPreview.column.time': 'Time',
+  'importPreview.column.grams': 'Amount (g)',
+  'importPreview.column.tz': 'Time zone',
+  'importPreview.column.tracker': 'Tracker',
+  'importPreview.columnNumber': 'Column {number}',
+  'importPreview.columnsNote':
+    'Without a taken column every row counts as taken. Rows without a tracker go to the active one.',
+  'importPreview.trackerColumns':
+    '{count, plural, one {The other column is imported as a tracker} other {The other # columns are imported as one tracker each}}.',
+  'importPreview.replaceButton': 'Replace local data',
+  'importPreview.mergeButton': 'Merge with local data',
+
+  'share.title': '{tracker} streak',
+  'share.lastWeeks': 'Last {count} weeks',
+  'share.asOf': 'As of {date}',
+  'share.rest': '+{count} rest',
+  'share.brand': 'Creatine Tracker',
+
+  'history.section': 'History',
+  'history.view': 'History view',
+  'history.view.list': 'List',
+  'history.view.month': 'Month',
+  'history.view.year': 'Year',
+  'history.filter': 'Filter history by month',
+  'history.filter.all': 'All',
+  'history.filter.allLabel': 'All history',
+  'history.note.list': 'From your first tracked day to today · Most recent first',
+  'history.note.month': 'Tap a day to mark it taken or not taken',
+  'history.note.year': 'Last 12 months · Darker means a larger dose',
+  'history.amountNotSet': 'Amount not set',
+  'history.doseCount': '{count, plural, one {# dose} other {# doses}}',
+  'history.weight': 'Weight {weight}',
+  'history.restFor': 'Rest day for {date}',
+  'history.noRest': 'No rest',
+  'history.excused': 'Excused',
+  'history.freeze': 'Freeze ({count} left)',
+  'history.doses': 'Doses',
+  'history.showInitialDate': 'Set initial date',
+  'history.hideInitialDate': 'Hide initial date',
+  'history.initialDatePanel': 'Set initial tracked date',
+  'history.initialDate': 'Initial date to show',
+  'history.startInFuture': 'Start date cannot be in the future.',
+  'history.startAfterFirst': 'Pick a date on or before your first taken or rest day.',
+
+  'restDay.excused': 'Excused rest day',
+  'restDay.freeze': 'Streak freeze',
+
+  'month.calendar': 'Month calendar',
+  'heatmap.label': 'Last 12 months',
+  'heatmap.grams': '{date}: {grams}',
+  'heatmap.status': '{date}: {status}',
+  'heatmap.less': 'Less',
+  'heatmap.more': 'More',
+
+  'trackers.section': 'Trackers',
+  'trackers.heading': 'Today at a glance',
+  'trackers.status.met': 'Taken today',
+  'trackers.status.partial': 'Partial today',
+  'trackers.status.missed': 'Not taken today',
+  'trackers.streak': 'Streak: {count, plural, one {# day} other {# days}}',
+  'trackers.namePlaceholder': 'e.g. Vitamin D',
+  'trackers.newName': 'New tracker name',
+  'trackers.add': 'Add tracker',
+  'trackers.rename': 'Rename {name}',
+  'trackers.delete': 'Delete {name}',
+
+  'stats.section': 'Statistics',
+  'stats.heading': 'Stats',
+  'stats.allTime': 'All time',
+  'stats.lastDays': 'Last {count} days',
+  'stats.takenOfTotal': '{taken}/{total} days',
+  'stats.monthFilter': 'Month filter: {label}',
+  'stats.daysTaken': 'Days taken',
+  'stats.ofTracked': 'of {count} tracked',
+  'stats.restDays': ' · {count, plural, one {# rest day} other {# rest days}}',
+  'stats.usualTime': 'Usual time',
+  'stats.spread': '± {minutes} min · {count, plural, one {# timed day} other {# timed days}}',
+  'stats.noTimes': 'No recorded times',
+  'stats.gaps': 'Gaps',
+  'stats.longestGap': 'Longest {days, plural, one {# day} other {# days}} · {lengths}',
+  'stats.noGaps': 'No missed days',
+  'stats.costPerServing': 'Cost per serving',
+  'stats.perMonth': '{amount} / month',
+  'stats.inRange': ' · {amount} in range',
+  'stats.missesByWeekday': 'Missed days by weekday',
+
+  'target.panel': 'Daily target',
+  'target.from': 'From {date}:',
+  'target.none': 'No target',
+  'target.empty': 'No target set. Any dose counts as a full day.',
+  'target.grams': 'Target (g/day)',
+  'target.placeholder': 'none',
+  'target.starting': 'Starting',
+  'target.set': 'Set target',
+  'target.partialKeeps': 'Partial days keep a streak alive',
+  'target.invalidGrams': 'Target must be a positive number of grams.',
+
+  'protocol.panel': 'Dosing protocol',
+  'protocol.empty':
+    'No protocol. Plan loading, maintenance and off-cycle phases; off-cycle days then keep a streak going and each day shows what is due.',
+  'protocol.note': 'Phases run back to back from the start date. Amounts set here replace the daily target while a phase runs.',
+  'protocol.starting': 'Starts on',
+  'protocol.phase.loading': 'Loading',
+  'protocol.phase.maintenance': 'Maintenance',
+  'protocol.phase.off': 'Off-cycle',
+  'protocol.kindFor': 'Phase {phase}',
+  'protocol.days': 'Days',
+  'protocol.ongoing': 'ongoing',
+  'protocol.dosesPerDay': 'Doses/day',
+  'protocol.gramsPerDose': 'g/dose',
+  'protocol.addPhase': '+ {phase}',
+  'protocol.repeat': 'After the last phase',
+  'protocol.noRepeat': 'End the protocol',
+  'protocol.repeatFrom': 'Repeat from phase {index} ({phase})',
+  'protocol.save': 'Save protocol',
+  'protocol.remove': 'Remove protocol',
+  'protocol.noPhases': 'Add at least one phase.',
+  'protocol.invalidDays':
+    'Phase {phase}: days must be a whole number above 0 (only the last phase of a protocol that ends may be left empty).',
+  'protocol.invalidDoses': 'Phase {phase}: doses per day must be a whole number above 0.',
+  'protocol.invalidGrams': 'Phase {phase}: grams per dose must be a positive number (or left empty).',
+  'protocol.day': '{phase} day {day}',
+  'protocol.dayOf': '{phase} day {day}/{days}',
+  'protocol.dosesOf': '{count} × {grams}',
+  'protocol.doses': '{count, plural, one {# dose} other {# doses}}',
+  'protocol.nothingDue': 'nothing due',
+  'protocol.summary': '{day} — {doses}',
+
+  'weight.section': 'Bodyweight',
+  'weight.empty': 'No weight logged yet. Log it to get a recommended dose and to watch water weight.',
+  'weight.latest': 'Latest',
+  'weight.change': 'Change',
+  'weight.changeSince': 'since {date}',
+  'weight.changeEmpty': 'Log again to see a change',
+  'weight.recommended': 'Recommended dose',
+  'weight.perDay': '{grams}/day',
+  'weight.loading': 'Loading: {grams}/day',
+  'weight.chart': 'Weight trend from {start} to {end}',
+  'weight.value': 'Weight ({unit})',
+  'weight.on': 'On',
+  'weight.log': 'Log weight',
+  'weight.invalid': 'Weight must be a positive number.',
+  'weight.note':
+    'One entry per day; logging again replaces it. The dose is 0.03 g/kg/day for maintenance and 0.3 g/kg/day for loading, based on your latest weight.',
+
+  'reminders.panel': 'Reminders',
+  'reminders.enable': "Remind me if {tracker} isn't marked yet",
+  'reminders.empty': 'No reminder times yet.',
+  'reminders.time': 'Time',
+  'reminders.addTime': 'Add time',
+  'reminders.blocked': 'Notifications are blocked. Allow them in your browser settings.',
+  'reminders.invalidTime': 'Please pick a valid time.',
+  'reminders.delivery.triggers':
+    'Reminders are scheduled on this device, even with the app closed.',
+  'reminders.delivery.periodic-sync':
+    'Reminders are checked in the background from time to time, and whenever you open the app.',
+  'reminders.delivery.on-open':
+    "This browser can't remind in the background; you'll be reminded when you reopen the app.",
+  'reminders.delivery.unsupported': "This browser doesn't support notifications.",
+  'reminders.notification.title': 'Did you take your creatine today?',
+  'reminders.notification.body': "You haven't marked {tracker} for today yet.",
+  'reminders.notification.action': 'Mark as taken',
+
+  'sync.panel': 'Sync',
+  'sync.endpoint': 'Sync endpoint',
+  'sync.token': 'Token (optional)',
+  'sync.saveEndpoint': 'Save endpoint',
+  'sync.syncing': 'Syncing…',
+  'sync.now': 'Sync now',
+  'sync.lastSynced': 'Last synced {time}',
+  'sync.note': 'Entries from both devices are merged day by day; the latest edit of a day wins.',
+  'sync.invalidUrl': 'Please enter a full URL, e.g. https://example.com/save',
+  'sync.failed': 'Sync failed.',
+  'sync.serverError': 'Sync server responded {status}.',
+  'sync.invalidSave': 'Sync server returned an invalid save.',
+  'sync.conflict': 'The remote save kept changing during sync. Try again.',
+
+  'ics.taken': '{tracker} taken',
+  'ics.takenGrams': '{tracker} taken ({grams})',
+
+  'doses.panel': 'Doses for {date}',
+  'doses.empty': 'No doses recorded.',
+  'doses.dose': 'Dose {n}',
+  'doses.at': 'at',
+  'doses.timeFor': 'Taken time for dose {n} on {date}',
+  'doses.clearTime': 'Clear time',
+  'doses.clearTimeFor': 'Clear taken time for dose {n} on {date}',
+  'doses.removeFor': 'Remove dose {n} on {date}',
+  'doses.gramsFor': 'Grams for new dose on {date}',
+  'doses.add': 'Add dose',
+
+  'dayBoundary.panel': 'Day boundaries',
+  'dayBoundary.midnight': 'Midnight',
+  'dayBoundary.timeZone': 'Home time zone',
+  'dayBoundary.device': 'This device ({zone})',
+  'dayBoundary.rollover': 'New day starts at',
+  'dayBoundary.note':
+    "Days are counted in this time zone, so travelling doesn't move or double up entries. With a later start, a dose taken after midnight still counts for the evening before.",
+
+  'supply.panel': 'Supply',
+  'supply.left':
+    '{grams} left · about {count, plural, one {# serving} other {# servings}} of {serving}',
+  'supply.runsOut': ' · runs out around {date}',
+  'supply.empty': "No supply recorded. Add a tub to track what's left.",
+  'supply.size': 'Size (g)',
+  'supply.boughtOn': 'Bought on',
+  'supply.price': 'Price',
+  'supply.pricePlaceholder': 'optional',
+  'supply.add': 'Add supply',
+  'supply.warnDays': 'Warn when fewer than this many days are left',
+  'supply.invalidSize': 'Size must be a positive number of grams.',
+  'supply.invalidDate': 'Please pick a valid purchase date.',
+  'supply.invalidPrice': 'Price must be a number (or left empty).',
+
+  'settings.panel': 'Settings',
+  'settings.theme': 'Theme',
+  'settings.theme.system': 'Same as device',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.weekStart': 'Week starts on',
+  'settings.timeFormat': 'Time format',
+  'settings.timeFormat.auto': 'Automatic ({example})',
+  'settings.timeFormat.12h': '12-hour ({example})',
+  'settings.timeFormat.24h': '24-hour ({example})',
+  'settings.dateFormat': 'Date format',
+  'settings.dateFormat.auto': 'Medium ({example})',
+  'settings.dateFormat.numeric': 'Short ({example})',
+  'settings.dateFormat.iso': 'ISO ({example})',
+  'settings.historyView': 'History opens as',
+  'settings.historyFilter': 'History shows at first',
+  'settings.historyFilter.current-month': 'This month',
+  'settings.historyFilter.all': 'All history',
+  'settings.weightUnit': 'Weight unit',
+  'settings.weightUnit.kg': 'Kilograms (kg)',
+  'settings.weightUnit.lb': 'Pounds (lb)',
+  'settings.note': 'Settings are saved with your data, so they are part of exports and sync.',
+
+  'achievements.panel': 'Achievements',
+  'achievements.locked': 'Locked',
+  'achievements.note':
+    'Achievements follow your history: unchecking the days behind one takes it away again.',
+  'achievement.streak-7.title': '7-day streak',
+  'achievement.streak-7.description': 'Keep a streak going for a week.',
+  'achievement.streak-30.title': '30-day streak',
+  'achievement.streak-30.description': 'Keep a streak going for 30 days.',
+  'achievement.streak-100.title': '100-day streak',
+  'achievement.streak-100.description': 'Keep a streak going for 100 days.',
+  'achievement.streak-365.title': '365-day streak',
+  'achievement.streak-365.description': 'Keep a streak going for a year.',
+  'achievement.first-full-month.title': 'Full month',
+  'achievement.first-full-month.description': 'Take it every day of a calendar month.',
+  'achievement.total-100.title': '100 days',
+  'achievement.total-100.description': 'Take it on 100 days in total.',
+  'achievement.comeback.title': 'Comeback',
+  'achievement.comeback.description': 'Start again after missing {days} or more days in a row.',
+  'achievement.perfect-quarter.title': 'Perfect quarter',
+  'achievement.perfect-quarter.description':
+    'Take it every day of a calendar quarter (Jan-Mar, Apr-Jun, ...).',
+} as const
+
+export type MessageKey = keyof typeof en
+
+export type Catalog = Record<MessageKey, string>
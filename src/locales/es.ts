@@ -0,0 +1,439 @@
+import type { Catalog } from './en'
+
+export const es: Catalog = {
+  'app.title': '¿Tomaste tu creatina hoy?',
+  'app.subtitle': '{date} · Almacenamiento solo local · Exportar/Importar disponible',
+  'app.footer.local': 'Tus datos se quedan en tu dispositivo.',
+  'app.footer.tip': 'Consejo: usa "Añadir a pantalla de inicio" para usarla como una app.',
+  'app.footer.disclaimer':
+    'Esta app es solo una herramienta personal de seguimiento y no ofrece consejo médico. Consulta a un profesional de la salud antes de empezar cualquier suplemento.',
+  'app.language': 'Idioma',
+  'app.language.auto': 'Automático ({name})',
+
+  'common.remove': 'Quitar',
+  'common.save': 'Guardar',
+  'common.apply': 'Aplicar',
+  'common.undo': 'Deshacer',
+  'common.redo': 'Rehacer',
+  'common.done': 'Listo',
+  'common.none': '—',
+  'common.range': '{start} - {end}',
+  'common.days': '{count, plural, one {# día} other {# días}}',
+  'common.invalidDate': 'Elige una fecha válida.',
+  'common.markTaken': 'Marcar {date} como tomado',
+  'common.markNotTaken': 'Marcar {date} como no tomado',
+  'common.cancel': 'Cancelar',
+
+  'status.met': 'Sí',
+  'status.partial': 'Parcial',
+  'status.missed': 'No',
+  'toggle.met': 'Tomado',
+  'toggle.partial': 'Parcial',
+  'toggle.missed': 'No tomado',
+
+  'today.section': 'Hoy',
+  'today.meta': 'Hoy · {tracker}',
+  'today.takenAt': 'Tomado a las {time}',
+  'today.total': 'Total {total}',
+  'today.totalOfTarget': 'Total {total} de {target}',
+  'today.check': 'Marcar hoy',
+  'today.uncheck': 'Desmarcar hoy',
+  'today.hint': 'Consejo: también puedes editar cualquier día abajo para corregir registros.',
+  'today.supplyUsedUp': 'Se acabó la reserva de {tracker}.',
+  'today.supplyLow': 'Solo quedan unos {days, plural, one {# día} other {# días}} de {tracker}',
+  'today.supplyRunsOut': ' (se acaba hacia el {date}).',
+
+  'toggles.target': 'Meta diaria: {grams}',
+  'toggles.setTarget': 'Fijar meta diaria',
+  'toggles.reminders': 'Recordatorios',
+  'toggles.remindersCount': 'Recordatorios: {count}',
+  'toggles.supply': 'Reserva',
+  'toggles.supplyServings': 'Reserva: {count, plural, one {# porción} other {# porciones}}',
+  'toggles.dayBoundary': 'Cambio de día',
+  'toggles.settings': 'Ajustes',
+  'toggles.achievements': 'Logros: {unlocked}/{total}',
+  'toggles.protocol': 'Protocolo',
+  'toggles.setProtocol': 'Planificar un protocolo',
+
+  'streaks.section': 'Rachas',
+  'streaks.current': 'Racha actual',
+  'streaks.best': 'Mejor racha',
+  'streaks.rest': ' · +{count} de descanso',
+
+  'actions.share': 'Compartir',
+  'actions.export': 'Exportar',
+  'actions.exportCsv': 'Exportar CSV',
+  'actions.exportCalendar': 'Exportar calendario',
+  'actions.exportEncrypted': 'Exportar cifrado',
+  'actions.import': 'Importar',
+  'actions.sync': 'Sincronizar',
+  'actions.clear': 'Borrar',
+  'actions.undoTitle': 'Deshacer (Ctrl+Z)',
+  'actions.redoTitle': 'Rehacer (Ctrl+Shift+Z)',
+
+  'update.available': 'Nueva versión disponible',
+  'update.reload': 'Recargar',
+
+  'launch.markedTaken': '{date} marcado como tomado en {tracker}',
+  'launch.alreadyTaken': '{tracker} ya está marcado el {date}',
+  'launch.futureDate': 'Todavía no se puede marcar {date}',
+  'launch.noSharedFile': 'El archivo compartido ya se importó o ya no está disponible.',
+
+  'toast.undone': 'Deshecho: {label}',
+  'toast.redone': 'Rehecho: {label}',
+  'toast.exportedJson': 'JSON exportado',
+  'toast.exportedCsv': 'CSV exportado',
+  'toast.exportedCalendar': 'Calendario exportado',
+  'toast.exportedEncrypted': 'Copia cifrada exportada',
+  'toast.savedShareImage': 'Imagen para compartir guardada',
+  'toast.shareFailed': 'No se pudo crear la imagen',
+  'toast.savedSyncEndpoint': 'Dirección de sincronización guardada',
+  'toast.syncOff': 'Sincronización desactivada',
+  'toast.achievementUnlocked': 'Logro desbloqueado: {title}',
+  'toast.achievementsUnlocked':
+    '{count, plural, one {# logro desbloqueado} other {# logros desbloqueados}}',
+
+  'edit.markedTaken': '{date} marcado como tomado',
+  'edit.markedNotTaken': '{date} marcado como no tomado',
+  'edit.excused': '{date} justificado',
+  'edit.usedFreeze': 'Congelación usada el {date}',
+  'edit.clearedRest': 'Descanso quitado del {date}',
+  'edit.doses': 'Dosis del {date} actualizadas',
+  'edit.merged': 'Datos importados combinados',
+  'edit.importedTrackers': '{count} hábitos importados',
+  'edit.imported': 'Datos importados',
+  'edit.synced': 'Sincronizado',
+  'edit.cleared': 'Datos borrados',
+  'edit.startDate': 'Primer día registrado actualizado',
+  'edit.addedTracker': '{name} añadido',
+  'edit.renamedTracker': 'Renombrado a {name}',
+  'edit.deletedTracker': '{name} eliminado',
+  'edit.reminders': 'Recordatorios actualizados',
+  'edit.addedSupply': 'Reserva de {grams} añadida',
+  'edit.removedSupply': 'Reserva quitada',
+  'edit.lowSupply': 'Aviso de reserva baja actualizado',
+  'edit.dayBoundary': 'Cambio de día actualizado',
+  'edit.target': 'Meta diaria actualizada',
+  'edit.removedTarget': 'Cambio de meta quitado',
+  'edit.partialDays': 'Regla de días parciales actualizada',
+  'edit.protocol': 'Protocolo actualizado',
+  'edit.removedProtocol': 'Protocolo eliminado',
+  'edit.weight': '{weight} registrado el {date}',
+  'edit.removedWeight': 'Peso del {date} eliminado',
+  'edit.settings': 'Ajustes actualizados',
+
+  'import.error': 'Error al importar: {message}',
+  'import.line': 'Línea {line}: {message}',
+  'import.more': '…y {count} más',
+  'import.unreadable': 'No se pudo leer ese archivo.',
+  'import.noCsvRows': 'No hay filas utilizables en ese archivo CSV.',
+  'import.skippedRows': 'se omitieron {skipped} de {total} filas.',
+  'import.notJson': 'No se pudo leer ese archivo como JSON.',
+  'import.invalid': 'Archivo de datos no válido.',
+  'csv.error.unterminatedQuote': 'Campo entre comillas sin cerrar.',
+  'csv.error.emptyFile': 'Archivo vacío.',
+  'csv.error.noDateColumn': 'No se encontró ninguna columna de fecha.',
+  'csv.error.badDate': 'Fecha no reconocida "{value}" (se esperaba AAAA-MM-DD).',
+  'csv.error.badTime': 'Hora no reconocida "{value}" (se esperaba HH:MM).',
+  'csv.error.badTimeZone': 'Zona horaria no reconocida "{value}".',
+  'csv.error.badAmount': 'Cantidad no reconocida "{value}".',
+  'csv.error.badTrackerValue': 'Valor no reconocido "{value}" para {tracker}.',
+  'csv.error.badTaken': 'Valor de tomado no reconocido "{value}".',
+
+  'backup.exportPanel': 'Exportación cifrada',
+  'backup.importPanel': 'Copia cifrada',
+  'backup.passphrase': 'Contraseña',
+  'backup.confirm': 'Repite la contraseña',
+  'backup.exportNote':
+    'El archivo solo se puede abrir con esta contraseña. No hay forma de recuperarlo si la olvidas.',
+  'backup.importNote': '{file} está cifrado. Escribe su contraseña para importarlo.',
+  'backup.encrypt': 'Cifrar y exportar',
+  'backup.unlock': 'Desbloquear e importar',
+  'backup.working': 'Procesando…',
+  'backup.tooShort': 'Usa al menos {count, plural, one {# carácter} other {# caracteres}}.',
+  'backup.mismatch': 'Las contraseñas no coinciden.',
+  'backup.wrongPassphrase': 'Contraseña incorrecta. Inténtalo de nuevo.',
+  'backup.corrupted': 'El archivo de copia está dañado y no se puede descifrar.',
+  'backup.unsupported': 'Esta copia se hizo con una versión más reciente de la app.',
+  'backup.failed': 'No se pudo cifrar la exportación.',
+
+  'importPreview.panel': 'Vista previa de la importación',
+  'importPreview.file':
+    '{file}: {trackers, plural, one {# hábito} other {# hábitos}}, {days, plural, one {# día tomado} other {# días tomados}}',
+  'importPreview.range': 'Del {start} al {end}',
+  'importPreview.since': 'Desde el {start}, nada tomado aún',
+  'importPreview.replace': 'Si reemplazas',
+  'importPreview.merge': 'Si combinas',
+  'importPreview.added': '{count, plural, one {# día añadido} other {# días añadidos}}',
+  'importPreview.removed': '{count, plural, one {# día eliminado} other {# días eliminados}}',
+  'importPreview.changed': '{count, plural, one {# día cambiado} other {# días cambiados}}',
+  'importPreview.noChanges': 'No cambia nada.',
+  'importPreview.trackerAdded': 'nuevo hábito',
+  'importPreview.trackerRemoved': 'hábito eliminado',
+  'importPreview.startDate': 'primer día registrado {before} → {after}',
+  'importPreview.columns': 'Columnas',
+  'importPreview.column.date': 'Fecha',
+  'importPreview.column.taken': 'Tomado',
+  'importPreview.column.time': 'Hora',
+  'importPreview.column.grams': 'Cantidad (g)',
+  'importPreview.column.tz': 'Zona horaria',
+  'importPreview.column.tracker': 'Hábito',
+  'importPreview.columnNumber': 'Columna {number}',
+  'importPreview.columnsNote':
+    'Sin una columna de tomado, cada fila cuenta como tomada. Las filas sin hábito van al hábito activo.',
+  'importPreview.trackerColumns':
+    '{count, plural, one {La otra columna se importa como un hábito} other {Las otras # columnas se importan como un hábito cada una}}.',
+  'importPreview.replaceButton': 'Reemplazar datos locales',
+  'importPreview.mergeButton': 'Combinar con datos locales',
+
+  'share.title': 'Racha de {tracker}',
+  'share.lastWeeks': 'Últimas {count} semanas',
+  'share.asOf': 'Al {date}',
+  'share.rest': '+{count} de descanso',
+  'share.brand': 'Registro de creatina',
+
+  'history.section': 'Historial',
+  'history.view': 'Vista del historial',
+  'history.view.list': 'Lista',
+  'history.view.month': 'Mes',
+  'history.view.year': 'Año',
+  'history.filter': 'Filtrar historial por mes',
+  'history.filter.all': 'Todo',
+  'history.filter.allLabel': 'Todo el historial',
+  'history.note.list': 'Desde tu primer día registrado hasta hoy · Más recientes primero',
+  'history.note.month': 'Toca un día para marcarlo como tomado o no',
+  'history.note.year': 'Últimos 12 meses · Más oscuro significa una dosis mayor',
+  'history.amountNotSet': 'Cantidad sin indicar',
+  'history.doseCount': '{count, plural, one {# dosis} other {# dosis}}',
+  'history.weight': 'Peso {weight}',
+  'history.restFor': 'Descanso el {date}',
+  'history.noRest': 'Sin descanso',
+  'history.excused': 'Justificado',
+  'history.freeze': 'Congelación (quedan {count})',
+  'history.doses': 'Dosis',
+  'history.showInitialDate': 'Fijar fecha inicial',
+  'history.hideInitialDate': 'Ocultar fecha inicial',
+  'history.initialDatePanel': 'Fijar fecha inicial registrada',
+  'history.initialDate': 'Fecha inicial a mostrar',
+  'history.startInFuture': 'La fecha inicial no puede estar en el futuro.',
+  'history.startAfterFirst': 'Elige una fecha igual o anterior a tu primer día tomado o de descanso.',
+
+  'restDay.excused': 'Descanso justificado',
+  'restDay.freeze': 'Congelación de racha',
+
+  'month.calendar': 'Calendario del mes',
+  'heatmap.label': 'Últimos 12 meses',
+  'heatmap.grams': '{date}: {grams}',
+  'heatmap.status': '{date}: {status}',
+  'heatmap.less': 'Menos',
+  'heatmap.more': 'Más',
+
+  'trackers.section': 'Hábitos',
+  'trackers.heading': 'Hoy de un vistazo',
+  'trackers.status.met': 'Tomado hoy',
+  'trackers.status.partial': 'Parcial hoy',
+  'trackers.status.missed': 'No tomado hoy',
+  'trackers.streak': 'Racha: {count, plural, one {# día} other {# días}}',
+  'trackers.namePlaceholder': 'p. ej., Vitamina D',
+  'trackers.newName': 'Nombre del nuevo hábito',
+  'trackers.add': 'Añadir hábito',
+  'trackers.rename': 'Renombrar {name}',
+  'trackers.delete': 'Eliminar {name}',
+
+  'stats.section': 'Estadísticas',
+  'stats.heading': 'Estadísticas',
+  'stats.allTime': 'Desde el inicio',
+  'stats.lastDays': 'Últimos {count} días',
+  'stats.takenOfTotal': '{taken}/{total} días',
+  'stats.monthFilter': 'Filtro de mes: {label}',
+  'stats.daysTaken': 'Días tomados',
+  'stats.ofTracked': 'de {count} registrados',
+  'stats.restDays': ' · {count, plural, one {# día de descanso} other {# días de descanso}}',
+  'stats.usualTime': 'Hora habitual',
+  'stats.spread': '± {minutes} min · {count, plural, one {# día con hora} other {# días con hora}}',
+  'stats.noTimes': 'Sin horas registradas',
+  'stats.gaps': 'Huecos',
+  'stats.longestGap': 'El más largo: {days, plural, one {# día} other {# días}} · {lengths}',
+  'stats.noGaps': 'Ningún día perdido',
+  'stats.costPerServing': 'Costo por porción',
+  'stats.perMonth': '{amount} / mes',
+  'stats.inRange': ' · {amount} en el periodo',
+  'stats.missesByWeekday': 'Días perdidos por día de la semana',
+
+  'target.panel': 'Meta diaria',
+  'target.from': 'Desde el {date}:',
+  'target.none': 'Sin meta',
+  'target.empty': 'No hay meta. Cualquier dosis cuenta como día completo.',
+  'target.grams': 'Meta (g/día)',
+  'target.placeholder': 'ninguna',
+  'target.starting': 'Desde',
+  'target.set': 'Fijar meta',
+  'target.partialKeeps': 'Los días parciales mantienen la racha',
+  'target.invalidGrams': 'La meta debe ser un número positivo de gramos.',
+
+  'protocol.panel': 'Protocolo de dosis',
+  'protocol.empty':
+    'Sin protocolo. Planifica fases de carga, mantenimiento y descanso; los días de descanso mantienen la racha y cada día muestra lo que toca.',
+  'protocol.note': 'Las fases se suceden desde la fecha de inicio. Las cantidades de aquí sustituyen la meta diaria mientras dura cada fase.',
+  'protocol.starting': 'Empieza el',
+  'protocol.phase.loading': 'Carga',
+  'protocol.phase.maintenance': 'Mantenimiento',
+  'protocol.phase.off': 'Descanso',
+  'protocol.kindFor': 'Fase {phase}',
+  'protocol.days': 'Días',
+  'protocol.ongoing': 'continua',
+  'protocol.dosesPerDay': 'Dosis/día',
+  'protocol.gramsPerDose': 'g/dosis',
+  'protocol.addPhase': '+ {phase}',
+  'protocol.repeat': 'Tras la última fase',
+  'protocol.noRepeat': 'Terminar el protocolo',
+  'protocol.repeatFrom': 'Repetir desde la fase {index} ({phase})',
+  'protocol.save': 'Guardar protocolo',
+  'protocol.remove': 'Eliminar protocolo',
+  'protocol.noPhases': 'Añade al menos una fase.',
+  'protocol.invalidDays':
+    'Fase {phase}: los días deben ser un número entero mayor que 0 (solo la última fase de un protocolo que termina puede quedar vacía).',
+  'protocol.invalidDoses': 'Fase {phase}: las dosis por día deben ser un número entero mayor que 0.',
+  'protocol.invalidGrams': 'Fase {phase}: los gramos por dosis deben ser un número positivo (o quedar vacíos).',
+  'protocol.day': '{phase}, día {day}',
+  'protocol.dayOf': '{phase}, día {day}/{days}',
+  'protocol.dosesOf': '{count} × {grams}',
+  'protocol.doses': '{count, plural, one {# dosis} other {# dosis}}',
+  'protocol.nothingDue': 'nada que tomar',
+  'protocol.summary': '{day} — {doses}',
+
+  'weight.section': 'Peso corporal',
+  'weight.empty': 'Aún no hay peso registrado. Regístralo para ver la dosis recomendada y vigilar la retención de agua.',
+  'weight.latest': 'Último',
+  'weight.change': 'Cambio',
+  'weight.changeSince': 'desde el {date}',
+  'weight.changeEmpty': 'Vuelve a registrarlo para ver el cambio',
+  'weight.recommended': 'Dosis recomendada',
+  'weight.perDay': '{grams}/día',
+  'weight.loading': 'Carga: {grams}/día',
+  'weight.chart': 'Evolución del peso del {start} al {end}',
+  'weight.value': 'Peso ({unit})',
+  'weight.on': 'El',
+  'weight.log': 'Registrar peso',
+  'weight.invalid': 'El peso debe ser un número positivo.',
+  'weight.note':
+    'Un registro por día; volver a registrarlo lo reemplaza. La dosis es 0,03 g/kg/día de mantenimiento y 0,3 g/kg/día de carga, según tu último peso.',
+
+  'reminders.panel': 'Recordatorios',
+  'reminders.enable': 'Recordarme si {tracker} aún no está marcado',
+  'reminders.empty': 'Todavía no hay horas de recordatorio.',
+  'reminders.time': 'Hora',
+  'reminders.addTime': 'Añadir hora',
+  'reminders.blocked':
+    'Las notificaciones están bloqueadas. Permítelas en la configuración del navegador.',
+  'reminders.invalidTime': 'Elige una hora válida.',
+  'reminders.delivery.triggers':
+    'Los recordatorios se programan en este dispositivo, incluso con la app cerrada.',
+  'reminders.delivery.periodic-sync':
+    'Los recordatorios se revisan en segundo plano de vez en cuando y cada vez que abres la app.',
+  'reminders.delivery.on-open':
+    'Este navegador no puede recordar en segundo plano; te lo recordará al volver a abrir la app.',
+  'reminders.delivery.unsupported': 'Este navegador no admite notificaciones.',
+  'reminders.notification.title': '¿Tomaste tu creatina hoy?',
+  'reminders.notification.body': 'Aún no has marcado {tracker} hoy.',
+  'reminders.notification.action': 'Marcar como tomado',
+
+  'sync.panel': 'Sincronización',
+  'sync.endpoint': 'Dirección de sincronización',
+  'sync.token': 'Token (opcional)',
+  'sync.saveEndpoint': 'Guardar dirección',
+  'sync.syncing': 'Sincronizando…',
+  'sync.now': 'Sincronizar ahora',
+  'sync.lastSynced': 'Última sincronización: {time}',
+  'sync.note':
+    'Los registros de ambos dispositivos se combinan día a día; gana la última edición de cada día.',
+  'sync.invalidUrl': 'Introduce una URL completa, p. ej., https://example.com/save',
+  'sync.failed': 'La sincronización falló.',
+  'sync.serverError': 'El servidor de sincronización respondió {status}.',
+  'sync.invalidSave': 'El servidor de sincronización devolvió datos no válidos.',
+  'sync.conflict':
+    'Los datos remotos siguieron cambiando durante la sincronización. Inténtalo de nuevo.',
+
+  'ics.taken': '{tracker} tomada',
+  'ics.takenGrams': '{tracker} tomada ({grams})',
+
+  'doses.panel': 'Dosis del {date}',
+  'doses.empty': 'No hay dosis registradas.',
+  'doses.dose': 'Dosis {n}',
+  'doses.at': 'a las',
+  'doses.timeFor': 'Hora de la dosis {n} del {date}',
+  'doses.clearTime': 'Borrar hora',
+  'doses.clearTimeFor': 'Borrar la hora de la dosis {n} del {date}',
+  'doses.removeFor': 'Quitar la dosis {n} del {date}',
+  'doses.gramsFor': 'Gramos de la nueva dosis del {date}',
+  'doses.add': 'Añadir dosis',
+
+  'dayBoundary.panel': 'Cambio de día',
+  'dayBoundary.midnight': 'Medianoche',
+  'dayBoundary.timeZone': 'Zona horaria de casa',
+  'dayBoundary.device': 'Este dispositivo ({zone})',
+  'dayBoundary.rollover': 'El nuevo día empieza a las',
+  'dayBoundary.note':
+    'Los días se cuentan en esta zona horaria, así que viajar no mueve ni duplica registros. Con un inicio más tarde, una dosis tomada después de medianoche sigue contando para la noche anterior.',
+
+  'supply.panel': 'Reserva',
+  'supply.left':
+    'Quedan {grams} · unas {count, plural, one {# porción} other {# porciones}} de {serving}',
+  'supply.runsOut': ' · se acaba hacia el {date}',
+  'supply.empty': 'No hay reserva registrada. Añade un envase para saber cuánto queda.',
+  'supply.size': 'Tamaño (g)',
+  'supply.boughtOn': 'Comprado el',
+  'supply.price': 'Precio',
+  'supply.pricePlaceholder': 'opcional',
+  'supply.add': 'Añadir reserva',
+  'supply.warnDays': 'Avisar cuando queden menos días que estos',
+  'supply.invalidSize': 'El tamaño debe ser un número positivo de gramos.',
+  'supply.invalidDate': 'Elige una fecha de compra válida.',
+  'supply.invalidPrice': 'El precio debe ser un número (o quedar vacío).',
+
+  'settings.panel': 'Ajustes',
+  'settings.theme': 'Tema',
+  'settings.theme.system': 'Igual que el dispositivo',
+  'settings.theme.light': 'Claro',
+  'settings.theme.dark': 'Oscuro',
+  'settings.weekStart': 'La semana empieza el',
+  'settings.timeFormat': 'Formato de hora',
+  'settings.timeFormat.auto': 'Automático ({example})',
+  'settings.timeFormat.12h': '12 horas ({example})',
+  'settings.timeFormat.24h': '24 horas ({example})',
+  'settings.dateFormat': 'Formato de fecha',
+  'settings.dateFormat.auto': 'Medio ({example})',
+  'settings.dateFormat.numeric': 'Corto ({example})',
+  'settings.dateFormat.iso': 'ISO ({example})',
+  'settings.historyView': 'El historial se abre como',
+  'settings.historyFilter': 'El historial muestra primero',
+  'settings.historyFilter.current-month': 'Este mes',
+  'settings.historyFilter.all': 'Todo el historial',
+  'settings.weightUnit': 'Unidad de peso',
+  'settings.weightUnit.kg': 'Kilogramos (kg)',
+  'settings.weightUnit.lb': 'Libras (lb)',
+  'settings.note':
+    'Los ajustes se guardan con tus datos, así que se incluyen en las exportaciones y la sincronización.',
+
+  'achievements.panel': 'Logros',
+  'achievements.locked': 'Bloqueado',
+  'achievements.note':
+    'Los logros siguen tu historial: desmarcar los días que llevaron a uno lo vuelve a quitar.',
+  'achievement.streak-7.title': 'Racha de 7 días',
+  'achievement.streak-7.description': 'Mantén una racha durante una semana.',
+  'achievement.streak-30.title': 'Racha de 30 días',
+  'achievement.streak-30.description': 'Mantén una racha durante 30 días.',
+  'achievement.streak-100.title': 'Racha de 100 días',
+  'achievement.streak-100.description': 'Mantén una racha durante 100 días.',
+  'achievement.streak-365.title': 'Racha de 365 días',
+  'achievement.streak-365.description': 'Mantén una racha durante un año.',
+  'achievement.first-full-month.title': 'Mes completo',
+  'achievement.first-full-month.description': 'Tómala todos los días de un mes del calendario.',
+  'achievement.total-100.title': '100 días',
+  'achievement.total-100.description': 'Tómala 100 días en total.',
+  'achievement.comeback.title': 'Regreso',
+  'achievement.comeback.description': 'Vuelve a empezar tras perder {days} días o más seguidos.',
+  'achievement.perfect-quarter.title': 'Trimestre perfecto',
+  'achievement.perfect-quarter.description':
+    'Tómala todos los días de un trimestre del calendario (ene-mar, abr-jun, ...).',
+}
@@ -0,0 +1,439 @@
+import type { Catalog } from './en'
+
+export const pt: Catalog = {
+  'app.title': 'Você tomou sua creatina hoje?',
+  'app.subtitle': '{date} · Armazenamento só no aparelho · Exportar/Importar disponível',
+  'app.footer.local': 'Seus dados ficam no seu aparelho.',
+  'app.footer.tip': 'Dica: use "Adicionar à tela inicial" para usar como um app.',
+  'app.footer.disclaimer':
+    'Este app é apenas uma ferramenta pessoal de acompanhamento e não oferece orientação médica. Consulte um profissional de saúde antes de começar qualquer suplemento.',
+  'app.language': 'Idioma',
+  'app.language.auto': 'Automático ({name})',
+
+  'common.remove': 'Remover',
+  'common.save': 'Salvar',
+  'common.apply': 'Aplicar',
+  'common.undo': 'Desfazer',
+  'common.redo': 'Refazer',
+  'common.done': 'Pronto',
+  'common.none': '—',
+  'common.range': '{start} - {end}',
+  'common.days': '{count, plural, one {# dia} other {# dias}}',
+  'common.invalidDate': 'Escolha uma data válida.',
+  'common.markTaken': 'Marcar {date} como tomado',
+  'common.markNotTaken': 'Marcar {date} como não tomado',
+  'common.cancel': 'Cancelar',
+
+  'status.met': 'Sim',
+  'status.partial': 'Parcial',
+  'status.missed': 'Não',
+  'toggle.met': 'Tomado',
+  'toggle.partial': 'Parcial',
+  'toggle.missed': 'Não tomado',
+
+  'today.section': 'Hoje',
+  'today.meta': 'Hoje · {tracker}',
+  'today.takenAt': 'Tomado às {time}',
+  'today.total': 'Total {total}',
+  'today.totalOfTarget': 'Total {total} de {target}',
+  'today.check': 'Marcar hoje',
+  'today.uncheck': 'Desmarcar hoje',
+  'today.hint': 'Dica: você também pode editar qualquer dia abaixo para corrigir registros.',
+  'today.supplyUsedUp': 'O estoque de {tracker} acabou.',
+  'today.supplyLow': 'Resta só cerca de {days, plural, one {# dia} other {# dias}} de {tracker}',
+  'today.supplyRunsOut': ' (acaba por volta de {date}).',
+
+  'toggles.target': 'Meta diária: {grams}',
+  'toggles.setTarget': 'Definir meta diária',
+  'toggles.reminders': 'Lembretes',
+  'toggles.remindersCount': 'Lembretes: {count}',
+  'toggles.supply': 'Estoque',
+  'toggles.supplyServings': 'Estoque: {count, plural, one {# dose} other {# doses}}',
+  'toggles.dayBoundary': 'Virada do dia',
+  'toggles.settings': 'Configurações',
+  'toggles.achievements': 'Conquistas: {unlocked}/{total}',
+  'toggles.protocol': 'Protocolo',
+  'toggles.setProtocol': 'Planejar um protocolo',
+
+  'streaks.section': 'Sequências',
+  'streaks.current': 'Sequência atual',
+  'streaks.best': 'Melhor sequência',
+  'streaks.rest': ' · +{count} de descanso',
+
+  'actions.share': 'Compartilhar',
+  'actions.export': 'Exportar',
+  'actions.exportCsv': 'Exportar CSV',
+  'actions.exportCalendar': 'Exportar calendário',
+  'actions.exportEncrypted': 'Exportar criptografado',
+  'actions.import': 'Importar',
+  'actions.sync': 'Sincronizar',
+  'actions.clear': 'Limpar',
+  'actions.undoTitle': 'Desfazer (Ctrl+Z)',
+  'actions.redoTitle': 'Refazer (Ctrl+Shift+Z)',
+
+  'update.available': 'Nova versão disponível',
+  'update.reload': 'Recarregar',
+
+  'launch.markedTaken': '{date} marcado como tomado em {tracker}',
+  'launch.alreadyTaken': '{tracker} já está marcado em {date}',
+  'launch.futureDate': 'Ainda não dá para marcar {date}',
+  'launch.noSharedFile': 'O arquivo compartilhado já foi importado ou não está mais disponível.',
+
+  'toast.undone': 'Desfeito: {label}',
+  'toast.redone': 'Refeito: {label}',
+  'toast.exportedJson': 'JSON exportado',
+  'toast.exportedCsv': 'CSV exportado',
+  'toast.exportedCalendar': 'Calendário exportado',
+  'toast.exportedEncrypted': 'Backup criptografado exportado',
+  'toast.savedShareImage': 'Imagem para compartilhar salva',
+  'toast.shareFailed': 'Não foi possível criar a imagem',
+  'toast.savedSyncEndpoint': 'Endereço de sincronização salvo',
+  'toast.syncOff': 'Sincronização desativada',
+  'toast.achievementUnlocked': 'Conquista desbloqueada: {title}',
+  'toast.achievementsUnlocked':
+    '{count, plural, one {# conquista desbloqueada} other {# conquistas desbloqueadas}}',
+
+  'edit.markedTaken': '{date} marcado como tomado',
+  'edit.markedNotTaken': '{date} marcado como não tomado',
+  'edit.excused': '{date} justificado',
+  'edit.usedFreeze': 'Congelamento usado em {date}',
+  'edit.clearedRest': 'Descanso removido de {date}',
+  'edit.doses': 'Doses de {date} atualizadas',
+  'edit.merged': 'Dados importados mesclados',
+  'edit.importedTrackers': '{count} hábitos importados',
+  'edit.imported': 'Dados importados',
+  'edit.synced': 'Sincronizado',
+  'edit.cleared': 'Dados apagados',
+  'edit.startDate': 'Primeiro dia acompanhado atualizado',
+  'edit.addedTracker': '{name} adicionado',
+  'edit.renamedTracker': 'Renomeado para {name}',
+  'edit.deletedTracker': '{name} excluído',
+  'edit.reminders': 'Lembretes atualizados',
+  'edit.addedSupply': 'Estoque de {grams} adicionado',
+  'edit.removedSupply': 'Estoque removido',
+  'edit.lowSupply': 'Aviso de estoque baixo atualizado',
+  'edit.dayBoundary': 'Virada do dia atualizada',
+  'edit.target': 'Meta diária atualizada',
+  'edit.removedTarget': 'Mudança de meta removida',
+  'edit.partialDays': 'Regra de dias parciais atualizada',
+  'edit.protocol': 'Protocolo atualizado',
+  'edit.removedProtocol': 'Protocolo removido',
+  'edit.weight': '{weight} registrado em {date}',
+  'edit.removedWeight': 'Peso de {date} removido',
+  'edit.settings': 'Configurações atualizadas',
+
+  'import.error': 'Erro ao importar: {message}',
+  'import.line': 'Linha {line}: {message}',
+  'import.more': '…e mais {count}',
+  'import.unreadable': 'Não foi possível ler esse arquivo.',
+  'import.noCsvRows': 'Nenhuma linha utilizável nesse arquivo CSV.',
+  'import.skippedRows': '{skipped} de {total} linhas ignoradas.',
+  'import.notJson': 'Não foi possível ler esse arquivo como JSON.',
+  'import.invalid': 'Arquivo de dados inválido.',
+  'csv.error.unterminatedQuote': 'Campo entre aspas não fechado.',
+  'csv.error.emptyFile': 'Arquivo vazio.',
+  'csv.error.noDateColumn': 'Nenhuma coluna de data encontrada.',
+  'csv.error.badDate': 'Data não reconhecida "{value}" (esperado AAAA-MM-DD).',
+  'csv.error.badTime': 'Horário não reconhecido "{value}" (esperado HH:MM).',
+  'csv.error.badTimeZone': 'Fuso horário não reconhecido "{value}".',
+  'csv.error.badAmount': 'Quantidade não reconhecida "{value}".',
+  'csv.error.badTrackerValue': 'Valor não reconhecido "{value}" para {tracker}.',
+  'csv.error.badTaken': 'Valor de tomado não reconhecido "{value}".',
+
+  'backup.exportPanel': 'Exportação criptografada',
+  'backup.importPanel': 'Backup criptografado',
+  'backup.passphrase': 'Senha',
+  'backup.confirm': 'Repita a senha',
+  'backup.exportNote':
+    'O arquivo só pode ser aberto com esta senha. Não há como recuperá-lo se você esquecê-la.',
+  'backup.importNote': '{file} está criptografado. Digite a senha para importá-lo.',
+  'backup.encrypt': 'Criptografar e exportar',
+  'backup.unlock': 'Desbloquear e importar',
+  'backup.working': 'Processando…',
+  'backup.tooShort': 'Use pelo menos {count, plural, one {# caractere} other {# caracteres}}.',
+  'backup.mismatch': 'As senhas não coincidem.',
+  'backup.wrongPassphrase': 'Senha incorreta. Tente novamente.',
+  'backup.corrupted': 'O arquivo de backup está danificado e não pode ser descriptografado.',
+  'backup.unsupported': 'Este backup foi feito por uma versão mais nova do app.',
+  'backup.failed': 'Não foi possível criptografar a exportação.',
+
+  'importPreview.panel': 'Prévia da importação',
+  'importPreview.file':
+    '{file}: {trackers, plural, one {# hábito} other {# hábitos}}, {days, plural, one {# dia tomado} other {# dias tomados}}',
+  'importPreview.range': 'De {start} a {end}',
+  'importPreview.since': 'Desde {start}, nada tomado ainda',
+  'importPreview.replace': 'Se substituir',
+  'importPreview.merge': 'Se mesclar',
+  'importPreview.added': '{count, plural, one {# dia adicionado} other {# dias adicionados}}',
+  'importPreview.removed': '{count, plural, one {# dia removido} other {# dias removidos}}',
+  'importPreview.changed': '{count, plural, one {# dia alterado} other {# dias alterados}}',
+  'importPreview.noChanges': 'Nada muda.',
+  'importPreview.trackerAdded': 'novo hábito',
+  'importPreview.trackerRemoved': 'hábito excluído',
+  'importPreview.startDate': 'primeiro dia registrado {before} → {after}',
+  'importPreview.columns': 'Colunas',
+  'importPreview.column.date': 'Data',
+  'importPreview.column.taken': 'Tomado',
+  'importPreview.column.time': 'Horário',
+  'importPreview.column.grams': 'Quantidade (g)',
+  'importPreview.column.tz': 'Fuso horário',
+  'importPreview.column.tracker': 'Hábito',
+  'importPreview.columnNumber': 'Coluna {number}',
+  'importPreview.columnsNote':
+    'Sem uma coluna de tomado, toda linha conta como tomada. Linhas sem hábito vão para o hábito ativo.',
+  'importPreview.trackerColumns':
+    '{count, plural, one {A outra coluna é importada como um hábito} other {As outras # colunas são importadas como um hábito cada}}.',
+  'importPreview.replaceButton': 'Substituir dados locais',
+  'importPreview.mergeButton': 'Mesclar com dados locais',
+
+  'share.title': 'Sequência de {tracker}',
+  'share.lastWeeks': 'Últimas {count} semanas',
+  'share.asOf': 'Em {date}',
+  'share.rest': '+{count} de descanso',
+  'share.brand': 'Rastreador de Creatina',
+
+  'history.section': 'Histórico',
+  'history.view': 'Visualização do histórico',
+  'history.view.list': 'Lista',
+  'history.view.month': 'Mês',
+  'history.view.year': 'Ano',
+  'history.filter': 'Filtrar histórico por mês',
+  'history.filter.all': 'Tudo',
+  'history.filter.allLabel': 'Todo o histórico',
+  'history.note.list': 'Do primeiro dia acompanhado até hoje · Mais recentes primeiro',
+  'history.note.month': 'Toque em um dia para marcá-lo como tomado ou não',
+  'history.note.year': 'Últimos 12 meses · Mais escuro significa dose maior',
+  'history.amountNotSet': 'Quantidade não informada',
+  'history.doseCount': '{count, plural, one {# dose} other {# doses}}',
+  'history.weight': 'Peso {weight}',
+  'history.restFor': 'Descanso em {date}',
+  'history.noRest': 'Sem descanso',
+  'history.excused': 'Justificado',
+  'history.freeze': 'Congelamento (restam {count})',
+  'history.doses': 'Doses',
+  'history.showInitialDate': 'Definir data inicial',
+  'history.hideInitialDate': 'Ocultar data inicial',
+  'history.initialDatePanel': 'Definir data inicial acompanhada',
+  'history.initialDate': 'Data inicial a exibir',
+  'history.startInFuture': 'A data inicial não pode estar no futuro.',
+  'history.startAfterFirst': 'Escolha uma data igual ou anterior ao seu primeiro dia tomado ou de descanso.',
+
+  'restDay.excused': 'Descanso justificado',
+  'restDay.freeze': 'Congelamento de sequência',
+
+  'month.calendar': 'Calendário do mês',
+  'heatmap.label': 'Últimos 12 meses',
+  'heatmap.grams': '{date}: {grams}',
+  'heatmap.status': '{date}: {status}',
+  'heatmap.less': 'Menos',
+  'heatmap.more': 'Mais',
+
+  'trackers.section': 'Hábitos',
+  'trackers.heading': 'Hoje em resumo',
+  'trackers.status.met': 'Tomado hoje',
+  'trackers.status.partial': 'Parcial hoje',
+  'trackers.status.missed': 'Não tomado hoje',
+  'trackers.streak': 'Sequência: {count, plural, one {# dia} other {# dias}}',
+  'trackers.namePlaceholder': 'ex.: Vitamina D',
+  'trackers.newName': 'Nome do novo hábito',
+  'trackers.add': 'Adicionar hábito',
+  'trackers.rename': 'Renomear {name}',
+  'trackers.delete': 'Excluir {name}',
+
+  'stats.section': 'Estatísticas',
+  'stats.heading': 'Estatísticas',
+  'stats.allTime': 'Desde o início',
+  'stats.lastDays': 'Últimos {count} dias',
+  'stats.takenOfTotal': '{taken}/{total} dias',
+  'stats.monthFilter': 'Filtro de mês: {label}',
+  'stats.daysTaken': 'Dias tomados',
+  'stats.ofTracked': 'de {count} acompanhados',
+  'stats.restDays': ' · {count, plural, one {# dia de descanso} other {# dias de descanso}}',
+  'stats.usualTime': 'Horário habitual',
+  'stats.spread':
+    '± {minutes} min · {count, plural, one {# dia com horário} other {# dias com horário}}',
+  'stats.noTimes': 'Nenhum horário registrado',
+  'stats.gaps': 'Falhas',
+  'stats.longestGap': 'Maior: {days, plural, one {# dia} other {# dias}} · {lengths}',
+  'stats.noGaps': 'Nenhum dia perdido',
+  'stats.costPerServing': 'Custo por dose',
+  'stats.perMonth': '{amount} / mês',
+  'stats.inRange': ' · {amount} no período',
+  'stats.missesByWeekday': 'Dias perdidos por dia da semana',
+
+  'target.panel': 'Meta diária',
+  'target.from': 'A partir de {date}:',
+  'target.none': 'Sem meta',
+  'target.empty': 'Nenhuma meta definida. Qualquer dose conta como dia completo.',
+  'target.grams': 'Meta (g/dia)',
+  'target.placeholder': 'nenhuma',
+  'target.starting': 'A partir de',
+  'target.set': 'Definir meta',
+  'target.partialKeeps': 'Dias parciais mantêm a sequência',
+  'target.invalidGrams': 'A meta deve ser um número positivo de gramas.',
+
+  'protocol.panel': 'Protocolo de doses',
+  'protocol.empty':
+    'Nenhum protocolo. Planeje fases de saturação, manutenção e pausa; os dias de pausa mantêm a sequência e cada dia mostra o que tomar.',
+  'protocol.note': 'As fases seguem uma após a outra a partir da data de início. As quantidades daqui substituem a meta diária durante cada fase.',
+  'protocol.starting': 'Começa em',
+  'protocol.phase.loading': 'Saturação',
+  'protocol.phase.maintenance': 'Manutenção',
+  'protocol.phase.off': 'Pausa',
+  'protocol.kindFor': 'Fase {phase}',
+  'protocol.days': 'Dias',
+  'protocol.ongoing': 'contínua',
+  'protocol.dosesPerDay': 'Doses/dia',
+  'protocol.gramsPerDose': 'g/dose',
+  'protocol.addPhase': '+ {phase}',
+  'protocol.repeat': 'Depois da última fase',
+  'protocol.noRepeat': 'Encerrar o protocolo',
+  'protocol.repeatFrom': 'Repetir a partir da fase {index} ({phase})',
+  'protocol.save': 'Salvar protocolo',
+  'protocol.remove': 'Remover protocolo',
+  'protocol.noPhases': 'Adicione pelo menos uma fase.',
+  'protocol.invalidDays':
+    'Fase {phase}: os dias devem ser um número inteiro maior que 0 (só a última fase de um protocolo que termina pode ficar vazia).',
+  'protocol.invalidDoses': 'Fase {phase}: as doses por dia devem ser um número inteiro maior que 0.',
+  'protocol.invalidGrams': 'Fase {phase}: os gramas por dose devem ser um número positivo (ou ficar vazios).',
+  'protocol.day': '{phase}, dia {day}',
+  'protocol.dayOf': '{phase}, dia {day}/{days}',
+  'protocol.dosesOf': '{count} × {grams}',
+  'protocol.doses': '{count, plural, one {# dose} other {# doses}}',
+  'protocol.nothingDue': 'nada a tomar',
+  'protocol.summary': '{day} — {doses}',
+
+  'weight.section': 'Peso corporal',
+  'weight.empty': 'Nenhum peso registrado ainda. Registre para ver a dose recomendada e acompanhar a retenção de água.',
+  'weight.latest': 'Último',
+  'weight.change': 'Variação',
+  'weight.changeSince': 'desde {date}',
+  'weight.changeEmpty': 'Registre de novo para ver a variação',
+  'weight.recommended': 'Dose recomendada',
+  'weight.perDay': '{grams}/dia',
+  'weight.loading': 'Saturação: {grams}/dia',
+  'weight.chart': 'Evolução do peso de {start} a {end}',
+  'weight.value': 'Peso ({unit})',
+  'weight.on': 'Em',
+  'weight.log': 'Registrar peso',
+  'weight.invalid': 'O peso deve ser um número positivo.',
+  'weight.note':
+    'Um registro por dia; registrar de novo o substitui. A dose é 0,03 g/kg/dia na manutenção e 0,3 g/kg/dia na saturação, com base no seu último peso.',
+
+  'reminders.panel': 'Lembretes',
+  'reminders.enable': 'Lembrar se {tracker} ainda não foi marcado',
+  'reminders.empty': 'Nenhum horário de lembrete ainda.',
+  'reminders.time': 'Horário',
+  'reminders.addTime': 'Adicionar horário',
+  'reminders.blocked':
+    'As notificações estão bloqueadas. Permita-as nas configurações do navegador.',
+  'reminders.invalidTime': 'Escolha um horário válido.',
+  'reminders.delivery.triggers':
+    'Os lembretes ficam agendados neste aparelho, mesmo com o app fechado.',
+  'reminders.delivery.periodic-sync':
+    'Os lembretes são verificados em segundo plano de tempos em tempos e sempre que você abre o app.',
+  'reminders.delivery.on-open':
+    'Este navegador não consegue lembrar em segundo plano; você será lembrado ao reabrir o app.',
+  'reminders.delivery.unsupported': 'Este navegador não suporta notificações.',
+  'reminders.notification.title': 'Você tomou sua creatina hoje?',
+  'reminders.notification.body': 'Você ainda não marcou {tracker} hoje.',
+  'reminders.notification.action': 'Marcar como tomado',
+
+  'sync.panel': 'Sincronização',
+  'sync.endpoint': 'Endereço de sincronização',
+  'sync.token': 'Token (opcional)',
+  'sync.saveEndpoint': 'Salvar endereço',
+  'sync.syncing': 'Sincronizando…',
+  'sync.now': 'Sincronizar agora',
+  'sync.lastSynced': 'Última sincronização: {time}',
+  'sync.note':
+    'Os registros dos dois aparelhos são mesclados dia a dia; vale a edição mais recente de cada dia.',
+  'sync.invalidUrl': 'Informe uma URL completa, ex.: https://example.com/save',
+  'sync.failed': 'Falha na sincronização.',
+  'sync.serverError': 'O servidor de sincronização respondeu {status}.',
+  'sync.invalidSave': 'O servidor de sincronização retornou dados inválidos.',
+  'sync.conflict': 'Os dados remotos continuaram mudando durante a sincronização. Tente novamente.',
+
+  'ics.taken': '{tracker} tomado',
+  'ics.takenGrams': '{tracker} tomado ({grams})',
+
+  'doses.panel': 'Doses de {date}',
+  'doses.empty': 'Nenhuma dose registrada.',
+  'doses.dose': 'Dose {n}',
+  'doses.at': 'às',
+  'doses.timeFor': 'Horário da dose {n} em {date}',
+  'doses.clearTime': 'Limpar horário',
+  'doses.clearTimeFor': 'Limpar horário da dose {n} em {date}',
+  'doses.removeFor': 'Remover dose {n} em {date}',
+  'doses.gramsFor': 'Gramas da nova dose em {date}',
+  'doses.add': 'Adicionar dose',
+
+  'dayBoundary.panel': 'Virada do dia',
+  'dayBoundary.midnight': 'Meia-noite',
+  'dayBoundary.timeZone': 'Fuso horário de casa',
+  'dayBoundary.device': 'Este aparelho ({zone})',
+  'dayBoundary.rollover': 'O novo dia começa às',
+  'dayBoundary.note':
+    'Os dias são contados neste fuso horário, então viajar não move nem duplica registros. Com um início mais tarde, uma dose tomada depois da meia-noite ainda conta para a noite anterior.',
+
+  'supply.panel': 'Estoque',
+  'supply.left':
+    '{grams} restantes · cerca de {count, plural, one {# dose} other {# doses}} de {serving}',
+  'supply.runsOut': ' · acaba por volta de {date}',
+  'supply.empty': 'Nenhum estoque registrado. Adicione um pote para acompanhar o que resta.',
+  'supply.size': 'Tamanho (g)',
+  'supply.boughtOn': 'Comprado em',
+  'supply.price': 'Preço',
+  'supply.pricePlaceholder': 'opcional',
+  'supply.add': 'Adicionar estoque',
+  'supply.warnDays': 'Avisar quando restarem menos dias que isto',
+  'supply.invalidSize': 'O tamanho deve ser um número positivo de gramas.',
+  'supply.invalidDate': 'Escolha uma data de compra válida.',
+  'supply.invalidPrice': 'O preço deve ser um número (ou ficar em branco).',
+
+  'settings.panel': 'Configurações',
+  'settings.theme': 'Tema',
+  'settings.theme.system': 'Igual ao dispositivo',
+  'settings.theme.light': 'Claro',
+  'settings.theme.dark': 'Escuro',
+  'settings.weekStart': 'A semana começa em',
+  'settings.timeFormat': 'Formato de hora',
+  'settings.timeFormat.auto': 'Automático ({example})',
+  'settings.timeFormat.12h': '12 horas ({example})',
+  'settings.timeFormat.24h': '24 horas ({example})',
+  'settings.dateFormat': 'Formato de data',
+  'settings.dateFormat.auto': 'Médio ({example})',
+  'settings.dateFormat.numeric': 'Curto ({example})',
+  'settings.dateFormat.iso': 'ISO ({example})',
+  'settings.historyView': 'O histórico abre como',
+  'settings.historyFilter': 'O histórico mostra primeiro',
+  'settings.historyFilter.current-month': 'Este mês',
+  'settings.historyFilter.all': 'Todo o histórico',
+  'settings.weightUnit': 'Unidade de peso',
+  'settings.weightUnit.kg': 'Quilogramas (kg)',
+  'settings.weightUnit.lb': 'Libras (lb)',
+  'settings.note':
+    'As configurações são salvas com seus dados, então entram nas exportações e na sincronização.',
+
+  'achievements.panel': 'Conquistas',
+  'achievements.locked': 'Bloqueada',
+  'achievements.note':
+    'As conquistas acompanham seu histórico: desmarcar os dias que levaram a uma delas a remove de novo.',
+  'achievement.streak-7.title': 'Sequência de 7 dias',
+  'achievement.streak-7.description': 'Mantenha uma sequência por uma semana.',
+  'achievement.streak-30.title': 'Sequência de 30 dias',
+  'achievement.streak-30.description': 'Mantenha uma sequência por 30 dias.',
+  'achievement.streak-100.title': 'Sequência de 100 dias',
+  'achievement.streak-100.description': 'Mantenha uma sequência por 100 dias.',
+  'achievement.streak-365.title': 'Sequência de 365 dias',
+  'achievement.streak-365.description': 'Mantenha uma sequência por um ano.',
+  'achievement.first-full-month.title': 'Mês completo',
+  'achievement.first-full-month.description': 'Tome todos os dias de um mês do calendário.',
+  'achievement.total-100.title': '100 dias',
+  'achievement.total-100.description': 'Tome em 100 dias no total.',
+  'achievement.comeback.title': 'Retorno',
+  'achievement.comeback.description': 'Recomece depois de perder {days} dias ou mais seguidos.',
+  'achievement.perfect-quarter.title': 'Trimestre perfeito',
+  'achievement.perfect-quarter.description':
+    'Tome todos os dias de um trimestre do calendário (jan-mar, abr-jun, ...).',
+}
@@ -2,17 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/serviceWorker'
+import { loadSave, openStorage } from './lib/storage'
 
-if ('serviceWorker' in navigator) {
-  window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js').catch(() => {
-      // Best-effort; app still works without SW.
-    })
-  })
-}
+registerServiceWorker()
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Storage is async (IndexedDB), so load the save before the first render.
+void openStorage().then(async (storage) => {
+  const initialSave = await loadSave(storage)
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App storage={storage} initialSave={initialSave} />
+    </StrictMode>,
+  )
+})
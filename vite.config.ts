@@ -1,8 +1,77 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { createHash } from "node:crypto";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { defineConfig, type Plugin, type ResolvedConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
+const SW_FILE = "sw.js";
+// Expression in public/sw.js that stands in for the manifest until the build fills it in.
+const PRECACHE_PLACEHOLDER = "self.__PRECACHE_MANIFEST__";
+
+// Output files relative to `dir`, with forward slashes (they become URLs).
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const out: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const rel = prefix + entry.name;
+    if (entry.isDirectory()) {
+      out.push(...(await listFiles(path.join(dir, entry.name), `${rel}/`)));
+    } else {
+      out.push(rel);
+    }
+  }
+  return out;
+}
+
+// Fills in the service worker's precache list and cache version from the build output: every
+// emitted file (hashed bundles and public/ assets) under `base`, versioned by a hash of their
+// contents, so each deploy precaches its own files and replaces the previous cache.
+function precacheManifest(): Plugin {
+  let config: ResolvedConfig;
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async closeBundle() {
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const files = (await listFiles(outDir))
+        .filter((f) => f !== SW_FILE && !f.endsWith(".map"))
+        .sort();
+      const hash = createHash("sha256");
+      for (const f of files) {
+        hash.update(f);
+        hash.update(await readFile(path.join(outDir, f)));
+      }
+      const manifest = {
+        version: hash.digest("hex").slice(0, 12),
+        base: config.base,
+        // The base URL itself is the start URL; it serves index.html.
+        urls: [config.base, ...files.map((f) => config.base + f)],
+      };
+
+      const swPath = path.join(outDir, SW_FILE);
+      const sw = await readFile(swPath, "utf8");
+      if (sw.split(PRECACHE_PLACEHOLDER).length !== 2) {
+        throw new Error(
+          `${SW_FILE} must contain ${PRECACHE_PLACEHOLDER} exactly once`
+        );
+      }
+      await writeFile(
+        swPath,
+        sw.replace(PRECACHE_PLACEHOLDER, JSON.stringify(manifest))
+      );
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   base: "/did-you-take-your-creatine-today/",
+  test: {
+    // A fixed device zone with DST, so date and time tests behave the same everywhere.
+    env: { TZ: "America/New_York" },
+  },
 });